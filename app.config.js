@@ -27,6 +27,7 @@ export default ({ config }) => ({
     plugins: [
       "expo-router",
       ["expo-barcode-scanner"],
+      "expo-notifications",
       [
         "expo-splash-screen",
         {
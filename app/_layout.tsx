@@ -25,6 +25,7 @@ import { LocationProvider } from "@/providers/LocationProvider";
 import { UserProvider } from "@/providers/UserProvider";
 import { QRCodeProvider } from "@/providers/QRCodeProvider";
 import { PinProvider } from "@/providers/PinProvider";
+import { DepartureReminderProvider } from "@/providers/DepartureReminderProvider";
 
 // Prevent splash screen from auto-hiding before fonts are loaded
 SplashScreen.preventAutoHideAsync();
@@ -54,21 +55,23 @@ export default function RootLayout() {
     >
       <UserProvider>
         <QRCodeProvider>
-          <LocationProvider>
-            <PinProvider>
-              <GestureHandlerRootView style={{ flex: 1 }}>
-                <BottomSheetModalProvider>
-                  <Stack>
-                    <Stack.Screen name="index" options={{ headerShown: false }} />
-                    <Stack.Screen name="auth" options={{ headerShown: false }} />
-                    <Stack.Screen name="+not-found" />
-                    <Stack.Screen name="qr-scanner" options={{ headerShown: false }} />
-                  </Stack>
-                  <StatusBar style="auto" />
-                </BottomSheetModalProvider>
-              </GestureHandlerRootView>
-            </PinProvider>
-          </LocationProvider>
+          <DepartureReminderProvider>
+            <LocationProvider>
+              <PinProvider>
+                <GestureHandlerRootView style={{ flex: 1 }}>
+                  <BottomSheetModalProvider>
+                    <Stack>
+                      <Stack.Screen name="index" options={{ headerShown: false }} />
+                      <Stack.Screen name="auth" options={{ headerShown: false }} />
+                      <Stack.Screen name="+not-found" />
+                      <Stack.Screen name="qr-scanner" options={{ headerShown: false }} />
+                    </Stack>
+                    <StatusBar style="auto" />
+                  </BottomSheetModalProvider>
+                </GestureHandlerRootView>
+              </PinProvider>
+            </LocationProvider>
+          </DepartureReminderProvider>
         </QRCodeProvider>
       </UserProvider>
     </PaperProvider>
@@ -19,23 +19,53 @@ import { useUser } from "@/providers/UserProvider";
 import Config from "react-native-config";
 import useRoute from "@/hooks/routing/useRoute";
 import locationTracker from "@/utils/locationTracker";
+import traceRecorder from "@/utils/traceRecorder";
 import ttsManager from "@/utils/ttsManager";
-import { getExcludesFromPreferences } from "@/utils/routeUtils";
+import {
+  EXCLUDE_PREFERENCES,
+  getExcludesFromPreferences,
+} from "@/utils/routeUtils";
 
 import SearchAndRouteControl from "@/components/mapbox/searchAndNav/SearchAndRouteControl";
 import NavigationInterface from "@/components/mapbox/searchAndNav/NavigationInterface";
 import useAlertPins from "@/hooks/useAlertPins";
 
 import { Route } from "@/types/mapbox";
-import { PinRead, UserPreferences } from "@/types/api";
+import {
+  AvoidArea,
+  PinRead,
+  RoutingProfile,
+  UserPreferences,
+} from "@/types/api";
 import { RoutingPreference } from "@/components/settings/RoutingPreferences";
+import {
+  Coordinate,
+  RouteStop,
+  TripSchedule,
+} from "@/hooks/routing/utils/types";
+import {
+  AVOIDABLE_PIN_TYPES,
+  AVOID_AREA_RADIUS_OPTIONS,
+  DEFAULT_ROUTING_PROFILE,
+  PIN_ROUTE_CORRIDOR_METERS,
+  STOP_ORDER_MIN_TIME_SAVED,
+} from "@/hooks/routing/utils/constants";
+import {
+  getCrossedAvoidAreas,
+  getPinsAlongRoute,
+} from "@/hooks/routing/utils/routeAnalysis";
+import { formatClockTime } from "@/hooks/routing/utils/formatters";
 
 import MapDisplay from "@/components/mapbox/display/MapDisplay";
 import MapControlsOverlay from "@/components/mapbox/display/MapControlsOverlay";
 import MapModals from "@/components/mapbox/display/MapModals";
 import MapFeedbackIndicators from "@/components/mapbox/display/MapFeedbackIndicators";
+import AvoidAreaEditor from "@/components/mapbox/display/AvoidAreaEditor";
 import { useNearbyPinProximity } from "@/hooks/useNearbyPinProximity";
+import { useHazardAlerts } from "@/hooks/useHazardAlerts";
 import { usePins } from "@/providers/PinProvider";
+import { useDepartureReminders } from "@/providers/DepartureReminderProvider";
+import routeOptimizer from "@/services/routeOptimizer";
 
 Mapbox.setAccessToken(Config.MAPBOX_PK as string);
 
@@ -45,6 +75,7 @@ Mapbox.setAccessToken(Config.MAPBOX_PK as string);
 type AppState = {
   uiMode: "map" | "search" | "route-selection" | "navigation";
   destination: [number, number] | null;
+  stops: RouteStop[]; // Intermediate stops visited before the destination, in order
   isSideMenuOpen: boolean;
   selectedPin: PinRead | null;
   isInitializing: boolean;
@@ -56,6 +87,10 @@ type AppAction =
   | { type: "SHOW_SEARCH" }
   | { type: "HIDE_SEARCH" }
   | { type: "SET_DESTINATION"; payload: [number, number] | null }
+  | { type: "ADD_STOP"; payload: RouteStop }
+  | { type: "REMOVE_STOP"; payload: number }
+  | { type: "TOGGLE_STOP_LOCK"; payload: number }
+  | { type: "REORDER_STOPS"; payload: number[] }
   | { type: "START_NAVIGATION_UI" }
   | { type: "STOP_NAVIGATION_UI" }
   | { type: "OPEN_SIDE_MENU" }
@@ -82,15 +117,36 @@ const appReducer = (state: AppState, action: AppAction): AppState => {
         ...state,
         uiMode: "map",
         destination: null,
+        stops: [],
         isInitialRouteCalculated: false,
       };
     case "SET_DESTINATION":
       return {
         ...state,
         destination: action.payload,
+        stops: [],
         uiMode: action.payload ? "route-selection" : "search",
         isInitialRouteCalculated: false,
       };
+    case "ADD_STOP":
+      return { ...state, stops: [...state.stops, action.payload] };
+    case "REMOVE_STOP":
+      return {
+        ...state,
+        stops: state.stops.filter((_, index) => index !== action.payload),
+      };
+    case "TOGGLE_STOP_LOCK":
+      return {
+        ...state,
+        stops: state.stops.map((stop, index) =>
+          index === action.payload ? { ...stop, locked: !stop.locked } : stop
+        ),
+      };
+    case "REORDER_STOPS":
+      return {
+        ...state,
+        stops: action.payload.map((index) => state.stops[index]),
+      };
     case "START_NAVIGATION_UI":
       return { ...state, uiMode: "navigation", isSideMenuOpen: false };
     case "STOP_NAVIGATION_UI":
@@ -98,6 +154,7 @@ const appReducer = (state: AppState, action: AppAction): AppState => {
         ...state,
         uiMode: "map",
         destination: null,
+        stops: [],
         isInitialRouteCalculated: false,
       };
     case "OPEN_SIDE_MENU":
@@ -116,6 +173,7 @@ const appReducer = (state: AppState, action: AppAction): AppState => {
 const initialAppState: AppState = {
   uiMode: "map",
   destination: null,
+  stops: [],
   isSideMenuOpen: false,
   selectedPin: null,
   isInitializing: true,
@@ -137,6 +195,30 @@ interface CameraConfig {
 
 const PIN_PROMPT_TIMEOUT_MS = 20 * 1000;
 
+/**
+ * Switches of the routing preferences menu, in display order
+ */
+const buildRoutingPreferences = (
+  userPreferences?: UserPreferences
+): RoutingPreference[] => [
+  ...EXCLUDE_PREFERENCES.map(({ id, label, hint }) => ({
+    id,
+    label,
+    hint,
+    enabled: !!userPreferences?.[id],
+  })),
+  {
+    id: "speed_alert_voice",
+    label: "Alerte vocale de dépassement de vitesse",
+    enabled: !!userPreferences?.speed_alert_voice,
+  },
+  {
+    id: "avoid_reported_accidents",
+    label: "Éviter automatiquement les accidents signalés",
+    enabled: !!userPreferences?.avoid_reported_accidents,
+  },
+];
+
 /**
  * Map is the main component containing the full logic for rendering the map and coordinating all user interactions.
  */
@@ -152,6 +234,7 @@ const Map = () => {
     useState(false);
   const [loginPromptVisible, setLoginPromptVisible] = useState(false);
   const { qrData, setQRData } = useQRCode();
+  const { addScheduledTrip } = useDepartureReminders();
   const qrDataProcessed = useRef(false);
   const [userLocation, setUserLocation] = useState<[number, number] | null>(
     null
@@ -166,27 +249,53 @@ const Map = () => {
     isManuallyControlled: false,
   });
 
-  const [preferences, setPreferences] = useState<RoutingPreference[]>([
-    {
-      id: "avoid_tolls",
-      label: "Éviter les péages",
-      enabled: userData?.preferences?.avoid_tolls || false,
-    },
-    {
-      id: "avoid_highways",
-      label: "Éviter les autoroutes",
-      enabled: userData?.preferences?.avoid_highways || false,
-    },
-    {
-      id: "avoid_unpaved",
-      label: "Éviter les routes non goudronnées",
-      enabled: userData?.preferences?.avoid_unpaved || false,
-    },
-  ]);
+  const [preferences, setPreferences] = useState<RoutingPreference[]>(() =>
+    buildRoutingPreferences(userData?.preferences)
+  );
+
+  const [routingProfile, setRoutingProfile] = useState<RoutingProfile>(
+    userData?.preferences?.routing_profile || DEFAULT_ROUTING_PROFILE
+  );
+
+  const [tripSchedule, setTripSchedule] = useState<TripSchedule | null>(null);
+
+  // Reported incidents the routes go around, kept until the destination changes
+  const [avoidedPins, setAvoidedPins] = useState<PinRead[]>([]);
+  const avoidPoints = useMemo(
+    () => avoidedPins.map((pin) => [pin.longitude, pin.latitude] as Coordinate),
+    [avoidedPins]
+  );
+
+  // Zones saved in the profile, each one can be switched on or off for the current trip
+  const [avoidAreas, setAvoidAreas] = useState<AvoidArea[]>(
+    userData?.preferences?.avoid_areas || []
+  );
+  const [tripAvoidAreaOverrides, setTripAvoidAreaOverrides] = useState<
+    Record<string, boolean>
+  >({});
+  const activeAvoidAreas = useMemo(
+    () =>
+      avoidAreas.filter(
+        (area) => tripAvoidAreaOverrides[area.id] ?? area.enabled
+      ),
+    [avoidAreas, tripAvoidAreaOverrides]
+  );
+  // Zone being drawn on the map, null when not drawing
+  const [avoidAreaDraft, setAvoidAreaDraft] = useState<AvoidArea | null>(null);
+  // Speed of the simulated trips set in the developer menu, null to navigate with the GPS
+  const [simulationSpeed, setSimulationSpeed] = useState<number | null>(null);
 
   const [forceRouteSelectionMode, setForceRouteSelectionMode] = useState(false);
+  const [isOptimizingStops, setIsOptimizingStops] = useState(false);
+  const [stopOrderSavings, setStopOrderSavings] = useState<number | null>(
+    null
+  );
+
+  const routeWaypoints = useMemo(
+    () => state.stops.map((stop) => stop.coordinates),
+    [state.stops]
+  );
 
-  
   const {
     selectedRoute,
     setSelectedRoute,
@@ -195,19 +304,51 @@ const Map = () => {
     loading: routeHookLoading,
     error: routeHookError,
     isNavigating,
+    liveUserLocation,
+    liveUserHeading,
+    isLocationEstimated,
     traveledCoords,
     displayedInstruction,
     distanceToNextManeuver,
+    currentBanner,
+    currentStep,
+    upcomingStep,
+    currentStepIndex,
+    currentSpeed,
+    speedLimit,
+    isOverSpeedLimit,
     startNavigation,
     stopNavigation,
+    routeExcludes,
     setRouteExcludes,
+    ignoredExcludes,
     routeFeatures,
     recalculateRoute,
     isRerouting,
     remainingDistance,
     remainingDuration,
     estimatedArrival,
-  } = useRoute(userLocation, state.destination);
+    followZoomLevel,
+    scheduleComparison,
+    trafficRoute,
+    reachedWaypointCount,
+    fasterRouteSuggestion,
+    acceptFasterRoute,
+    dismissFasterRoute,
+  } = useRoute(userLocation, state.destination, {
+    waypoints: routeWaypoints,
+    avoidPoints,
+    avoidAreas: activeAvoidAreas,
+    profile: routingProfile,
+    schedule: tripSchedule,
+    overspeedVoiceAlert: preferences.some(
+      (p) => p.id === "speed_alert_voice" && p.enabled
+    ),
+    simulationSpeed,
+  });
+
+  // While navigating, the trip follows the filtered (or simulated) position instead of the raw device one
+  const navigationLocation = isNavigating ? liveUserLocation : null;
 
   const revertToUserPreferencesIfQrActive = useCallback(
     (reason: string) => {
@@ -235,24 +376,11 @@ const Map = () => {
       );
     }
     if (userData?.preferences) {
-      const newPrefsUI = [
-        {
-          id: "avoid_tolls",
-          label: "Éviter les péages",
-          enabled: !!userData.preferences.avoid_tolls,
-        },
-        {
-          id: "avoid_highways",
-          label: "Éviter les autoroutes",
-          enabled: !!userData.preferences.avoid_highways,
-        },
-        {
-          id: "avoid_unpaved",
-          label: "Éviter les routes non goudronnées",
-          enabled: !!userData.preferences.avoid_unpaved,
-        },
-      ];
-      setPreferences(newPrefsUI);
+      setPreferences(buildRoutingPreferences(userData.preferences));
+      setAvoidAreas(userData.preferences.avoid_areas || []);
+      setRoutingProfile(
+        userData.preferences.routing_profile || DEFAULT_ROUTING_PROFILE
+      );
     }
   }, [userData?.preferences, setRouteExcludes]);
 
@@ -286,6 +414,9 @@ const Map = () => {
     const initializeAppServices = async () => {
       try {
         await ttsManager.initialize();
+        traceRecorder.initialize().catch((error) => {
+          console.error("Failed to load navigation traces:", error);
+        });
         const trackingStarted = await locationTracker.startTracking();
         if (!trackingStarted)
           Alert.alert(
@@ -351,8 +482,14 @@ const Map = () => {
       if (qrData.toCoords) {
         dispatch({ type: "SHOW_SEARCH" });
         setForceRouteSelectionMode(true); // Force route-selection mode for QR
+        // Trips opened from a departure reminder keep their arrival time
+        setTripSchedule(
+          qrData.arriveBy && qrData.arriveBy > Date.now()
+            ? { mode: "arrive_by", time: new Date(qrData.arriveBy) }
+            : null
+        );
 
-        if (qrData.hasOwnProperty("excludes")) {
+        if ("excludes" in qrData) {
           const qrSpecificExcludes =
             qrData.excludes && qrData.excludes.length > 0
               ? qrData.excludes
@@ -423,7 +560,10 @@ const Map = () => {
         : null,
     [userLocation]
   );
-  const { pins: alertPinsFromHook } = useAlertPins(alertPinsLocation);
+  const { pins: alertPinsFromHook } = useAlertPins(alertPinsLocation, {
+    route: selectedRoute,
+    isNavigating,
+  });
 
   const { pinForConfirmationAttempt, confirmPinHandled } =
     useNearbyPinProximity(
@@ -432,6 +572,68 @@ const Map = () => {
       isPinConfirmationModalVisible
     );
 
+  const { upcomingHazard } = useHazardAlerts(
+    selectedRoute,
+    navigationLocation ?? userLocation,
+    alertPinsFromHook,
+    isNavigating
+  );
+
+  // Accidents and roadworks on the selected route that are not avoided yet
+  const routeIncidents = useMemo(() => {
+    if (!selectedRoute) return [];
+    const avoidablePins = alertPinsFromHook.filter(
+      (pin) =>
+        AVOIDABLE_PIN_TYPES.includes(pin.type) &&
+        !avoidedPins.some((avoided) => avoided.id === pin.id)
+    );
+    return getPinsAlongRoute(
+      selectedRoute,
+      avoidablePins,
+      PIN_ROUTE_CORRIDOR_METERS
+    ).map((hazard) => hazard.pin);
+  }, [selectedRoute, alertPinsFromHook, avoidedPins]);
+
+  const avoidIncidents = useCallback((pins: PinRead[]) => {
+    setAvoidedPins((prev) => [
+      ...prev,
+      ...pins.filter((pin) => !prev.some((avoided) => avoided.id === pin.id)),
+    ]);
+  }, []);
+
+  const autoAvoidIncidents = preferences.some(
+    (p) => p.id === "avoid_reported_accidents" && p.enabled
+  );
+  useEffect(() => {
+    if (autoAvoidIncidents && routeIncidents.length > 0) {
+      avoidIncidents(routeIncidents);
+    }
+  }, [autoAvoidIncidents, routeIncidents, avoidIncidents]);
+
+  // Incidents avoided and zones toggled for one trip do not apply to the next destination
+  useEffect(() => {
+    setAvoidedPins([]);
+    setTripAvoidAreaOverrides({});
+  }, [state.destination]);
+
+  // Active zones the selected route still goes through, when no route avoids them
+  const crossedAvoidAreas = useMemo(
+    () =>
+      selectedRoute
+        ? getCrossedAvoidAreas(selectedRoute, activeAvoidAreas)
+        : [],
+    [selectedRoute, activeAvoidAreas]
+  );
+
+  // Labels of the avoidances the routing backend cannot apply
+  const ignoredAvoidances = useMemo(
+    () =>
+      EXCLUDE_PREFERENCES.filter(({ exclude }) =>
+        ignoredExcludes.includes(exclude)
+      ).map(({ label }) => label),
+    [ignoredExcludes]
+  );
+
   useEffect(() => {
     if (pinForConfirmationAttempt && !isPinConfirmationModalVisible) {
       console.log(
@@ -484,15 +686,34 @@ const Map = () => {
     [pinForConfirmationAttempt, removeAlertPin, confirmPinHandled, isSignedIn]
   );
 
-  const handleMapPress = useCallback(() => {
-    if (state.selectedPin !== null) {
-      dispatch({ type: "SELECT_PIN", payload: null });
-      return;
-    }
-    if (cameraConfig.isManuallyControlled && !isNavigating) {
-      setCameraConfig((prev) => ({ ...prev, isManuallyControlled: false }));
-    }
-  }, [state.selectedPin, cameraConfig.isManuallyControlled, isNavigating]);
+  const handleMapPress = useCallback(
+    (coordinates: Coordinate) => {
+      if (avoidAreaDraft) {
+        // A circle has a single center, a polygon gets one more vertex
+        setAvoidAreaDraft({
+          ...avoidAreaDraft,
+          coordinates:
+            avoidAreaDraft.shape === "circle"
+              ? [coordinates]
+              : [...avoidAreaDraft.coordinates, coordinates],
+        });
+        return;
+      }
+      if (state.selectedPin !== null) {
+        dispatch({ type: "SELECT_PIN", payload: null });
+        return;
+      }
+      if (cameraConfig.isManuallyControlled && !isNavigating) {
+        setCameraConfig((prev) => ({ ...prev, isManuallyControlled: false }));
+      }
+    },
+    [
+      avoidAreaDraft,
+      state.selectedPin,
+      cameraConfig.isManuallyControlled,
+      isNavigating,
+    ]
+  );
 
   const handleToggleSearchUI = useCallback(() => {
     if (state.uiMode === "map" && !state.isSideMenuOpen) {
@@ -633,6 +854,7 @@ const Map = () => {
       revertToUserPreferencesIfQrActive("Manual search initiated after QR");
       dispatch({ type: "SET_DESTINATION", payload: coords });
       setSelectedRouteIdxState(0);
+      setStopOrderSavings(null);
       setCameraConfig((prev) => ({
         ...prev,
         centerCoordinate: coords,
@@ -643,11 +865,115 @@ const Map = () => {
     [revertToUserPreferencesIfQrActive]
   );
 
+  const handleStopAdded = useCallback((stop: RouteStop) => {
+    dispatch({ type: "ADD_STOP", payload: stop });
+    setSelectedRouteIdxState(0);
+    setStopOrderSavings(null);
+  }, []);
+
+  const handleStopRemoved = useCallback((index: number) => {
+    dispatch({ type: "REMOVE_STOP", payload: index });
+    setSelectedRouteIdxState(0);
+    setStopOrderSavings(null);
+  }, []);
+
+  const handleToggleStopLock = useCallback((index: number) => {
+    dispatch({ type: "TOGGLE_STOP_LOCK", payload: index });
+  }, []);
+
+  /**
+   * Reorders the intermediate stops for the shortest total duration.
+   * The destination stays the fixed end of the trip and locked stops keep their position.
+   * The new order changes the waypoints, which makes useRoute recalculate the routes.
+   */
+  const handleOptimizeStops = useCallback(async () => {
+    if (!userLocation || !state.destination || state.stops.length < 2) return;
+    if (!routeOptimizer.isSupported()) {
+      Alert.alert(
+        "Optimisation indisponible",
+        "Le service d'itinéraire configuré ne permet pas d'optimiser l'ordre des arrêts."
+      );
+      return;
+    }
+    setIsOptimizingStops(true);
+    try {
+      const result = await routeOptimizer.optimizeStopOrder(
+        userLocation,
+        state.stops.map((stop) => stop.coordinates),
+        {
+          end: state.destination,
+          profile: routingProfile,
+          lockedIndices: state.stops
+            .map((stop, index) => (stop.locked ? index : -1))
+            .filter((index) => index >= 0),
+        }
+      );
+      const savings = result.originalDuration - result.totalDuration;
+      const orderChanged = result.order.some(
+        (stopIndex, index) => stopIndex !== index
+      );
+      // Reordering the user's stops for a few seconds is not worth it
+      if (orderChanged && savings >= STOP_ORDER_MIN_TIME_SAVED) {
+        dispatch({ type: "REORDER_STOPS", payload: result.order });
+        setSelectedRouteIdxState(0);
+        setStopOrderSavings(savings);
+      } else {
+        setStopOrderSavings(0);
+      }
+    } catch (error) {
+      console.error("Stop order optimization failed:", error);
+      Alert.alert("Erreur", "Impossible d'optimiser l'ordre des arrêts.");
+    } finally {
+      setIsOptimizingStops(false);
+    }
+  }, [userLocation, state.destination, state.stops, routingProfile]);
+
+  const handleSaveDepartureReminder = useCallback(async () => {
+    if (
+      !userLocation ||
+      !state.destination ||
+      tripSchedule?.mode !== "arrive_by"
+    ) {
+      return;
+    }
+    try {
+      const trip = await addScheduledTrip({
+        origin: userLocation,
+        destination: state.destination,
+        excludes: routeExcludes,
+        profile: routingProfile,
+        arriveBy: tripSchedule.time.getTime(),
+      });
+      Alert.alert(
+        "Rappel programmé",
+        trip.departureTime
+          ? `Départ conseillé à ${formatClockTime(
+              new Date(trip.departureTime)
+            )}. L'heure sera ajustée selon le trafic.`
+          : "Vous serez prévenu lorsqu'il sera temps de partir."
+      );
+    } catch (error) {
+      console.error("Failed to schedule departure reminder:", error);
+      Alert.alert(
+        "Erreur",
+        "Impossible de programmer le rappel. Vérifiez que les notifications sont autorisées."
+      );
+    }
+  }, [
+    userLocation,
+    state.destination,
+    tripSchedule,
+    routeExcludes,
+    routingProfile,
+    addScheduledTrip,
+  ]);
+
   const handleCancelSearchUIMode = useCallback(() => {
     dispatch({ type: "HIDE_SEARCH" });
     setSelectedRoute(null);
     setAlternateRoutes([]);
     setSelectedRouteIdxState(0);
+    setTripSchedule(null);
     setCameraConfig((prev) => ({ ...prev, isManuallyControlled: false }));
     revertToUserPreferencesIfQrActive(
       "QR-initiated route planning cancelled by explicit cancel"
@@ -668,6 +994,7 @@ const Map = () => {
     setSelectedRoute(null);
     setAlternateRoutes([]);
     setSelectedRouteIdxState(0);
+    setTripSchedule(null);
     qrDataProcessed.current = false;
     setCameraConfig((prev) => ({ ...prev, isManuallyControlled: false }));
     // The useEffect watching `isNavigating` will handle reverting preferences
@@ -679,10 +1006,13 @@ const Map = () => {
         p.id === id ? { ...p, enabled: value } : p
       );
       setPreferences(newPreferences);
-      const newPrefsObj = newPreferences.reduce((acc, p) => {
-        (acc as any)[p.id] = p.enabled;
-        return acc;
-      }, {} as UserPreferences);
+      const newPrefsObj = newPreferences.reduce(
+        (acc, p) => {
+          (acc as any)[p.id] = p.enabled;
+          return acc;
+        },
+        { ...userData?.preferences } as UserPreferences
+      );
 
       if (isSignedIn) {
         updatePreferences(newPrefsObj).catch((err) =>
@@ -698,7 +1028,88 @@ const Map = () => {
         );
       }
     },
-    [preferences, setRouteExcludes, isSignedIn, updatePreferences]
+    [
+      preferences,
+      setRouteExcludes,
+      isSignedIn,
+      updatePreferences,
+      userData?.preferences,
+    ]
+  );
+
+  const handleSelectRoutingProfile = useCallback(
+    (profile: RoutingProfile) => {
+      setRoutingProfile(profile);
+      if (isSignedIn) {
+        updatePreferences({
+          ...userData?.preferences,
+          routing_profile: profile,
+        }).catch((err) => console.error("Pref update fail:", err));
+      }
+    },
+    [isSignedIn, updatePreferences, userData?.preferences]
+  );
+
+  const saveAvoidAreas = useCallback(
+    (areas: AvoidArea[]) => {
+      setAvoidAreas(areas);
+      if (isSignedIn) {
+        updatePreferences({
+          ...userData?.preferences,
+          avoid_areas: areas,
+        }).catch((err) => console.error("Pref update fail:", err));
+      }
+    },
+    [isSignedIn, updatePreferences, userData?.preferences]
+  );
+
+  const handleToggleAvoidArea = useCallback(
+    (id: string, enabled: boolean) =>
+      saveAvoidAreas(
+        avoidAreas.map((area) => (area.id === id ? { ...area, enabled } : area))
+      ),
+    [avoidAreas, saveAvoidAreas]
+  );
+
+  const handleRemoveAvoidArea = useCallback(
+    (id: string) => saveAvoidAreas(avoidAreas.filter((area) => area.id !== id)),
+    [avoidAreas, saveAvoidAreas]
+  );
+
+  const handleDrawAvoidArea = useCallback(() => {
+    dispatch({ type: "CLOSE_SIDE_MENU" });
+    // Keep the camera still while the user places points
+    setCameraConfig((prev) => ({ ...prev, isManuallyControlled: true }));
+    setAvoidAreaDraft({
+      id: `area-${Date.now()}`,
+      name: `Zone ${avoidAreas.length + 1}`,
+      enabled: true,
+      shape: "circle",
+      coordinates: [],
+      radius: AVOID_AREA_RADIUS_OPTIONS[1],
+    });
+  }, [avoidAreas.length]);
+
+  const handleFinishAvoidAreaDraft = useCallback(
+    (save: boolean) => {
+      if (save && avoidAreaDraft) {
+        saveAvoidAreas([
+          ...avoidAreas,
+          { ...avoidAreaDraft, name: avoidAreaDraft.name.trim() },
+        ]);
+      }
+      setAvoidAreaDraft(null);
+      if (!isNavigating) {
+        setCameraConfig((prev) => ({ ...prev, isManuallyControlled: false }));
+      }
+    },
+    [avoidAreaDraft, avoidAreas, saveAvoidAreas, isNavigating]
+  );
+
+  const handleToggleTripAvoidArea = useCallback(
+    (id: string, active: boolean) =>
+      setTripAvoidAreaOverrides((prev) => ({ ...prev, [id]: active })),
+    []
   );
 
   const handleRecalculateButtonPressed = useCallback(
@@ -721,34 +1132,63 @@ const Map = () => {
         mapRef={mapRef}
         cameraConfig={cameraConfig}
         selectedRoute={selectedRoute}
+        trafficRoute={trafficRoute}
         alternateRoutes={alternateRoutes || []}
         selectedRouteIdxState={selectedRouteIdxState}
         isNavigating={isNavigating}
         uiMode={state.uiMode}
         traveledCoords={traveledCoords}
         destination={state.destination}
+        waypoints={routeWaypoints}
+        reachedWaypointCount={isNavigating ? reachedWaypointCount : 0}
+        navigationZoomLevel={followZoomLevel}
         alertPins={alertPinsFromHook}
+        avoidAreas={activeAvoidAreas}
+        avoidAreaDraft={avoidAreaDraft}
+        navigationLocation={navigationLocation}
+        navigationHeading={liveUserHeading}
+        isNavigationLocationEstimated={isLocationEstimated}
         onMapPress={handleMapPress}
         onPinSelect={handlePinSelectionForLayer}
         onClusterPress={handleMapClusterPress}
         selectedPin={state.selectedPin}
       />
 
-      <MapControlsOverlay
-        onToggleSideMenu={handleToggleSideMenu}
-        onOpenReportModal={handleOpenReportModal}
-        isSignedIn={isSignedIn}
-        onShowLoginPrompt={handleShowLoginPrompt}
-        onQRScan={handleQRScan}
-        isNavigating={isNavigating}
-        uiMode={state.uiMode}
-        isSideMenuOpen={state.isSideMenuOpen}
-        onToggleSearchUI={handleToggleSearchUI}
-      />
+      {avoidAreaDraft ? (
+        <AvoidAreaEditor
+          draft={avoidAreaDraft}
+          onChange={setAvoidAreaDraft}
+          onCancel={() => handleFinishAvoidAreaDraft(false)}
+          onSave={() => handleFinishAvoidAreaDraft(true)}
+        />
+      ) : (
+        <MapControlsOverlay
+          onToggleSideMenu={handleToggleSideMenu}
+          onOpenReportModal={handleOpenReportModal}
+          isSignedIn={isSignedIn}
+          onShowLoginPrompt={handleShowLoginPrompt}
+          onQRScan={handleQRScan}
+          isNavigating={isNavigating}
+          uiMode={state.uiMode}
+          isSideMenuOpen={state.isSideMenuOpen}
+          onToggleSearchUI={handleToggleSearchUI}
+        />
+      )}
 
       <SearchAndRouteControl
         userLocation={userLocation}
         onDestinationSelected={handleDestinationSelected}
+        stops={state.stops}
+        onStopAdded={handleStopAdded}
+        onStopRemoved={handleStopRemoved}
+        onToggleStopLock={handleToggleStopLock}
+        onOptimizeStops={handleOptimizeStops}
+        isOptimizingStops={isOptimizingStops}
+        stopOrderSavings={stopOrderSavings}
+        routingProfile={routingProfile}
+        tripSchedule={tripSchedule}
+        onTripScheduleChange={setTripSchedule}
+        onSaveDepartureReminder={handleSaveDepartureReminder}
         onStartNavigation={handleUIStartNavigation}
         onCancelSearch={handleCancelSearchUIMode}
         onRouteSelected={(newSelectedRoute, newAlternates) => {
@@ -778,6 +1218,13 @@ const Map = () => {
         alternateRoutes={alternateRoutes || []}
         selectedRouteIndex={selectedRouteIdxState}
         setSelectedRouteIndex={setSelectedRouteIdxState}
+        routeIncidentCount={routeIncidents.length}
+        onAvoidIncidents={() => avoidIncidents(routeIncidents)}
+        avoidAreas={avoidAreas}
+        activeAvoidAreas={activeAvoidAreas}
+        onToggleTripAvoidArea={handleToggleTripAvoidArea}
+        crossedAvoidAreas={crossedAvoidAreas}
+        ignoredAvoidances={ignoredAvoidances}
         forceRouteSelectionMode={forceRouteSelectionMode} // Pass prop
       />
 
@@ -785,7 +1232,11 @@ const Map = () => {
         <NavigationInterface
           route={selectedRoute}
           instruction={displayedInstruction}
+          // On the last step, the arrival is the only maneuver left
+          upcomingStep={upcomingStep ?? currentStep}
+          currentStepIndex={currentStepIndex}
           distanceToNext={distanceToNextManeuver}
+          bannerInstruction={currentBanner}
           onCancelNavigation={handleUICancelNavigation}
           onRecalculateRoute={handleRecalculateButtonPressed}
           routeFeatures={
@@ -796,6 +1247,16 @@ const Map = () => {
           remainingDistance={remainingDistance}
           remainingDuration={remainingDuration}
           estimatedArrival={estimatedArrival}
+          currentSpeed={currentSpeed}
+          speedLimit={speedLimit}
+          isOverSpeedLimit={isOverSpeedLimit}
+          isLocationEstimated={isLocationEstimated}
+          upcomingHazard={upcomingHazard}
+          onAvoidHazard={(pin) => avoidIncidents([pin])}
+          scheduleComparison={scheduleComparison}
+          fasterRouteSuggestion={fasterRouteSuggestion}
+          onAcceptFasterRoute={acceptFasterRoute}
+          onDismissFasterRoute={dismissFasterRoute}
         />
       )}
 
@@ -814,6 +1275,14 @@ const Map = () => {
         onToggleSideMenu={handleToggleSideMenu}
         preferences={preferences}
         onTogglePreference={handleTogglePreference}
+        routingProfile={routingProfile}
+        onSelectRoutingProfile={handleSelectRoutingProfile}
+        avoidAreas={avoidAreas}
+        onToggleAvoidArea={handleToggleAvoidArea}
+        onRemoveAvoidArea={handleRemoveAvoidArea}
+        onDrawAvoidArea={handleDrawAvoidArea}
+        simulationSpeed={simulationSpeed}
+        onSelectSimulationSpeed={setSimulationSpeed}
         selectedPinForModal={state.selectedPin}
         onClosePinInfoModal={() =>
           dispatch({ type: "SELECT_PIN", payload: null })
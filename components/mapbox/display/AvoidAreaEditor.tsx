@@ -0,0 +1,242 @@
+// components/map/AvoidAreaEditor.tsx
+import React from "react";
+import {
+  View,
+  Text,
+  TextInput,
+  StyleSheet,
+  TouchableOpacity,
+  Platform,
+} from "react-native";
+import { FontAwesome5 } from "@expo/vector-icons";
+import { AvoidArea } from "@/types/api";
+import { AVOID_AREA_RADIUS_OPTIONS } from "@/hooks/routing/utils/constants";
+import { getAvoidAreaPolygon } from "@/hooks/routing/utils/routeAnalysis";
+import { formatDistance } from "@/hooks/routing/utils/formatters";
+
+interface AvoidAreaEditorProps {
+  draft: AvoidArea; // Area being drawn, its points come from presses on the map
+  onChange: (draft: AvoidArea) => void;
+  onCancel: () => void;
+  onSave: () => void;
+}
+
+const SHAPE_OPTIONS: { id: AvoidArea["shape"]; label: string; icon: string }[] =
+  [
+    { id: "circle", label: "Cercle", icon: "circle" },
+    { id: "polygon", label: "Polygone", icon: "draw-polygon" },
+  ];
+
+/**
+ * Panel shown while the user places a zone to avoid on the map
+ */
+const AvoidAreaEditor: React.FC<AvoidAreaEditorProps> = ({
+  draft,
+  onChange,
+  onCancel,
+  onSave,
+}) => {
+  const canSave =
+    getAvoidAreaPolygon(draft) !== null && draft.name.trim() !== "";
+  const hint =
+    draft.shape === "circle"
+      ? "Touchez la carte pour placer le centre de la zone."
+      : "Touchez la carte pour ajouter les sommets de la zone (3 au minimum).";
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.shapeRow}>
+        {SHAPE_OPTIONS.map((option) => {
+          const isSelected = option.id === draft.shape;
+          return (
+            <TouchableOpacity
+              key={option.id}
+              style={[styles.shapeOption, isSelected && styles.selectedOption]}
+              onPress={() =>
+                // Points do not carry over from one shape to the other
+                !isSelected &&
+                onChange({ ...draft, shape: option.id, coordinates: [] })
+              }
+            >
+              <FontAwesome5
+                name={option.icon}
+                size={14}
+                color={isSelected ? "#fff" : "#333"}
+              />
+              <Text
+                style={[styles.optionText, isSelected && styles.selectedText]}
+              >
+                {option.label}
+              </Text>
+            </TouchableOpacity>
+          );
+        })}
+      </View>
+
+      {draft.shape === "circle" && (
+        <View style={styles.radiusRow}>
+          {AVOID_AREA_RADIUS_OPTIONS.map((radius) => {
+            const isSelected = radius === draft.radius;
+            return (
+              <TouchableOpacity
+                key={radius}
+                style={[
+                  styles.radiusOption,
+                  isSelected && styles.selectedOption,
+                ]}
+                onPress={() => onChange({ ...draft, radius })}
+              >
+                <Text
+                  style={[styles.optionText, isSelected && styles.selectedText]}
+                >
+                  {formatDistance(radius)}
+                </Text>
+              </TouchableOpacity>
+            );
+          })}
+        </View>
+      )}
+
+      <Text style={styles.hint}>{hint}</Text>
+
+      <TextInput
+        style={styles.nameInput}
+        value={draft.name}
+        onChangeText={(name) => onChange({ ...draft, name })}
+        placeholder="Nom de la zone"
+        placeholderTextColor="#999"
+      />
+
+      <View style={styles.actionsRow}>
+        {draft.shape === "polygon" && draft.coordinates.length > 0 && (
+          <TouchableOpacity
+            style={styles.secondaryButton}
+            onPress={() =>
+              onChange({
+                ...draft,
+                coordinates: draft.coordinates.slice(0, -1),
+              })
+            }
+          >
+            <FontAwesome5 name="undo" size={14} color="#333" />
+          </TouchableOpacity>
+        )}
+        <TouchableOpacity style={styles.secondaryButton} onPress={onCancel}>
+          <Text style={styles.secondaryText}>Annuler</Text>
+        </TouchableOpacity>
+        <TouchableOpacity
+          style={[styles.saveButton, !canSave && styles.disabledButton]}
+          onPress={onSave}
+          disabled={!canSave}
+        >
+          <Text style={styles.saveText}>Enregistrer</Text>
+        </TouchableOpacity>
+      </View>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    position: "absolute",
+    left: 16,
+    right: 16,
+    bottom: Platform.OS === "ios" ? 40 : 20,
+    backgroundColor: "white",
+    borderRadius: 12,
+    padding: 16,
+    shadowColor: "#000",
+    shadowOffset: {
+      width: 0,
+      height: 2,
+    },
+    shadowOpacity: 0.15,
+    shadowRadius: 6,
+    elevation: 5,
+  },
+  shapeRow: {
+    flexDirection: "row",
+    marginBottom: 8,
+  },
+  shapeOption: {
+    flex: 1,
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "center",
+    paddingVertical: 8,
+    marginHorizontal: 2,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: "#e0e0e0",
+  },
+  radiusRow: {
+    flexDirection: "row",
+    marginBottom: 8,
+  },
+  radiusOption: {
+    flex: 1,
+    alignItems: "center",
+    paddingVertical: 6,
+    marginHorizontal: 2,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: "#e0e0e0",
+  },
+  selectedOption: {
+    backgroundColor: "#ef4444",
+    borderColor: "#ef4444",
+  },
+  optionText: {
+    fontSize: 13,
+    color: "#333",
+    marginLeft: 6,
+  },
+  selectedText: {
+    color: "#fff",
+  },
+  hint: {
+    fontSize: 13,
+    color: "#666",
+    marginBottom: 8,
+  },
+  nameInput: {
+    borderWidth: 1,
+    borderColor: "#e0e0e0",
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    fontSize: 15,
+    color: "#333",
+    marginBottom: 12,
+  },
+  actionsRow: {
+    flexDirection: "row",
+    justifyContent: "flex-end",
+    alignItems: "center",
+  },
+  secondaryButton: {
+    paddingHorizontal: 14,
+    paddingVertical: 10,
+    marginRight: 8,
+  },
+  secondaryText: {
+    fontSize: 15,
+    color: "#333",
+  },
+  saveButton: {
+    backgroundColor: "#ef4444",
+    borderRadius: 8,
+    paddingHorizontal: 16,
+    paddingVertical: 10,
+  },
+  disabledButton: {
+    opacity: 0.5,
+  },
+  saveText: {
+    fontSize: 15,
+    fontWeight: "600",
+    color: "white",
+  },
+});
+
+export default AvoidAreaEditor;
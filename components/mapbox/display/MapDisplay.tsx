@@ -1,6 +1,6 @@
 // components/map/MapDisplay.tsx
-import React from "react";
-import { View, StyleSheet, Platform } from "react-native";
+import React, { useMemo } from "react";
+import { View, Text, StyleSheet, Platform } from "react-native";
 import Mapbox, {
   MapView,
   Camera,
@@ -9,12 +9,47 @@ import Mapbox, {
   PointAnnotation, // Corrected import
   ShapeSource,
   LineLayer,
+  FillLayer,
+  CircleLayer,
 } from "@rnmapbox/maps";
 import Config from "react-native-config";
 import { Route } from "@/types/mapbox";
-import { PinRead } from "@/types/api";
+import { AvoidArea, PinRead } from "@/types/api";
+import {
+  getAvoidAreaPolygon,
+  getCongestionSegments,
+} from "@/hooks/routing/utils/routeAnalysis";
 import MapboxAlertPinsLayer from "../pins/MapboxAlertPinsLayer"; // Assuming this is in the same directory or adjust path
 
+// Line color for each congestion level, unknown segments keep the route color
+const congestionLineColor = [
+  "match",
+  ["get", "congestion"],
+  "low",
+  "#22c55e",
+  "moderate",
+  "#f59e0b",
+  "heavy",
+  "#ef4444",
+  "severe",
+  "#991b1b",
+  "#3b82f6",
+];
+
+const AVOID_AREA_COLOR = "#ef4444";
+
+/**
+ * Polygons of the avoid areas that cover something
+ */
+const toAvoidAreaPolygons = (
+  areas: AvoidArea[]
+): GeoJSON.Feature<GeoJSON.Polygon>[] =>
+  areas
+    .map(getAvoidAreaPolygon)
+    .filter(
+      (polygon): polygon is GeoJSON.Feature<GeoJSON.Polygon> => polygon !== null
+    );
+
 interface CameraConfig {
   centerCoordinate?: [number, number];
   zoomLevel: number;
@@ -29,14 +64,23 @@ interface MapDisplayProps {
   mapRef: React.RefObject<MapView>;
   cameraConfig: CameraConfig;
   selectedRoute: Route | null;
+  trafficRoute: Route | null; // Refreshed during navigation, its congestion is drawn over the selected route
   alternateRoutes: Route[];
   selectedRouteIdxState: number;
   isNavigating: boolean;
   uiMode: "map" | "search" | "route-selection" | "navigation";
   traveledCoords: [number, number][];
   destination: [number, number] | null;
+  waypoints: [number, number][]; // Intermediate stops, in visiting order
+  reachedWaypointCount?: number; // Stops already visited during navigation, their markers are hidden
+  navigationZoomLevel: number; // Camera zoom while following the user, depends on the routing profile
   alertPins: PinRead[];
-  onMapPress: () => void;
+  avoidAreas: AvoidArea[]; // Zones the current trip stays out of
+  avoidAreaDraft: AvoidArea | null; // Zone being drawn by the user
+  navigationLocation: [number, number] | null; // Filtered (or simulated) position while navigating, replaces the device location
+  navigationHeading: number | null; // Direction of travel at navigationLocation, in degrees
+  isNavigationLocationEstimated?: boolean; // navigationLocation is extrapolated, no GPS fix arrives
+  onMapPress: (coordinates: [number, number]) => void;
   onPinSelect: (pin: PinRead) => void;
   onClusterPress: (coordinates: [number, number]) => void;
   selectedPin: PinRead | null; // Added to determine if user is just viewing map or interacting with a pin
@@ -46,18 +90,80 @@ const MapDisplay: React.FC<MapDisplayProps> = ({
   mapRef,
   cameraConfig,
   selectedRoute,
+  trafficRoute,
   alternateRoutes,
   selectedRouteIdxState,
   isNavigating,
   uiMode,
   traveledCoords,
   destination,
+  waypoints,
+  reachedWaypointCount = 0,
+  navigationZoomLevel,
   alertPins,
+  avoidAreas,
+  avoidAreaDraft,
+  navigationLocation,
+  navigationHeading,
+  isNavigationLocationEstimated = false,
   onMapPress,
   onPinSelect,
   onClusterPress,
   selectedPin,
 }) => {
+  const selectedCongestion = useMemo(() => {
+    if (!selectedRoute) return null;
+    // Only the part of the refreshed route that follows the selected route is colored
+    return trafficRoute
+      ? getCongestionSegments(trafficRoute, selectedRoute)
+      : getCongestionSegments(selectedRoute);
+  }, [selectedRoute, trafficRoute]);
+
+  const alternateCongestion = useMemo(
+    () => alternateRoutes.map((altRoute) => getCongestionSegments(altRoute)),
+    [alternateRoutes]
+  );
+
+  const avoidAreaShape = useMemo<GeoJSON.FeatureCollection>(
+    () => ({
+      type: "FeatureCollection",
+      features: toAvoidAreaPolygons(avoidAreas),
+    }),
+    [avoidAreas]
+  );
+
+  // Outline of the zone being drawn, with its placed points
+  const avoidAreaDraftShape = useMemo<GeoJSON.FeatureCollection | null>(() => {
+    if (!avoidAreaDraft) return null;
+    const features: GeoJSON.Feature[] = [
+      ...toAvoidAreaPolygons([avoidAreaDraft]),
+      ...avoidAreaDraft.coordinates.map((coordinates): GeoJSON.Feature => ({
+        type: "Feature",
+        properties: {},
+        geometry: { type: "Point", coordinates },
+      })),
+    ];
+    if (
+      avoidAreaDraft.shape === "polygon" &&
+      avoidAreaDraft.coordinates.length === 2
+    ) {
+      features.push({
+        type: "Feature",
+        properties: {},
+        geometry: {
+          type: "LineString",
+          coordinates: avoidAreaDraft.coordinates,
+        },
+      });
+    }
+    return { type: "FeatureCollection", features };
+  }, [avoidAreaDraft]);
+
+  // The camera follows the drawn position unless the user moved the map
+  const followedLocation = cameraConfig.isManuallyControlled
+    ? null
+    : navigationLocation;
+
   return (
     <MapView
       ref={mapRef}
@@ -72,16 +178,29 @@ const MapDisplay: React.FC<MapDisplayProps> = ({
           uiMode === "navigation" ? (Platform.OS === "ios" ? 160 : 130) : 8,
         right: 8,
       }}
-      onPress={onMapPress}
+      onPress={(feature) =>
+        onMapPress(
+          (feature.geometry as GeoJSON.Point).coordinates as [number, number]
+        )
+      }
     >
       <Camera
-        centerCoordinate={cameraConfig.centerCoordinate}
-        zoomLevel={cameraConfig.zoomLevel}
-        animationMode={cameraConfig.animationMode}
-        animationDuration={cameraConfig.animationDuration}
-        pitch={cameraConfig.pitch}
-        heading={cameraConfig.heading}
+        centerCoordinate={followedLocation ?? cameraConfig.centerCoordinate}
+        zoomLevel={
+          followedLocation ? navigationZoomLevel : cameraConfig.zoomLevel
+        }
+        animationMode={followedLocation ? "easeTo" : cameraConfig.animationMode}
+        animationDuration={
+          followedLocation ? 1000 : cameraConfig.animationDuration
+        }
+        pitch={followedLocation ? 45 : cameraConfig.pitch}
+        heading={
+          followedLocation
+            ? (navigationHeading ?? cameraConfig.heading)
+            : cameraConfig.heading
+        }
         followUserLocation={
+          !navigationLocation &&
           !cameraConfig.isManuallyControlled &&
           (isNavigating || (uiMode === "map" && !destination && !selectedPin))
         }
@@ -90,10 +209,54 @@ const MapDisplay: React.FC<MapDisplayProps> = ({
             ? UserTrackingMode.FollowWithCourse
             : UserTrackingMode.Follow
         }
-        followZoomLevel={isNavigating ? 17 : cameraConfig.zoomLevel}
+        followZoomLevel={
+          isNavigating ? navigationZoomLevel : cameraConfig.zoomLevel
+        }
         followPitch={isNavigating ? 45 : 0}
       />
 
+      {/* Avoid Areas */}
+      {avoidAreaShape.features.length > 0 && (
+        <ShapeSource id="avoidAreasSource" shape={avoidAreaShape}>
+          <FillLayer
+            id="avoidAreasFill"
+            style={{ fillColor: AVOID_AREA_COLOR, fillOpacity: 0.15 }}
+          />
+          <LineLayer
+            id="avoidAreasOutline"
+            style={{
+              lineColor: AVOID_AREA_COLOR,
+              lineWidth: 2,
+              lineDasharray: [2, 2],
+            }}
+          />
+        </ShapeSource>
+      )}
+      {avoidAreaDraftShape && (
+        <ShapeSource id="avoidAreaDraftSource" shape={avoidAreaDraftShape}>
+          <FillLayer
+            id="avoidAreaDraftFill"
+            filter={["==", ["geometry-type"], "Polygon"]}
+            style={{ fillColor: AVOID_AREA_COLOR, fillOpacity: 0.3 }}
+          />
+          <LineLayer
+            id="avoidAreaDraftOutline"
+            filter={["!=", ["geometry-type"], "Point"]}
+            style={{ lineColor: AVOID_AREA_COLOR, lineWidth: 2 }}
+          />
+          <CircleLayer
+            id="avoidAreaDraftPoints"
+            filter={["==", ["geometry-type"], "Point"]}
+            style={{
+              circleColor: "white",
+              circleRadius: 5,
+              circleStrokeColor: AVOID_AREA_COLOR,
+              circleStrokeWidth: 2,
+            }}
+          />
+        </ShapeSource>
+      )}
+
       {/* Alternate Routes Rendering */}
       {uiMode === "route-selection" &&
         alternateRoutes &&
@@ -114,6 +277,24 @@ const MapDisplay: React.FC<MapDisplayProps> = ({
             />
           </ShapeSource>
         ))}
+      {uiMode === "route-selection" &&
+        alternateCongestion.map((congestion, index) => (
+          <ShapeSource
+            id={`altCongestionSource-${index}`}
+            key={`altCongestionSource-${index}`}
+            shape={congestion}
+          >
+            <LineLayer
+              id={`altCongestion-${index}`}
+              style={{
+                lineColor: congestionLineColor,
+                lineWidth: selectedRouteIdxState === index + 1 ? 6 : 4,
+                lineOpacity: selectedRouteIdxState === index + 1 ? 0.8 : 0.4,
+              }}
+              aboveLayerID={`altLine-${index}`}
+            />
+          </ShapeSource>
+        ))}
 
       {/* Selected Route Rendering */}
       {selectedRoute && selectedRoute.geometry.coordinates.length > 0 && (
@@ -137,6 +318,28 @@ const MapDisplay: React.FC<MapDisplayProps> = ({
         </ShapeSource>
       )}
 
+      {/* Traffic on the selected route */}
+      {selectedCongestion && (
+        <ShapeSource id="routeCongestionSource" shape={selectedCongestion}>
+          <LineLayer
+            id="routeCongestion"
+            style={{
+              lineColor: congestionLineColor,
+              lineWidth: isNavigating ? 7 : 6,
+              lineCap: "round",
+              lineJoin: "round",
+              lineOpacity:
+                isNavigating ||
+                uiMode !== "route-selection" ||
+                selectedRouteIdxState === 0
+                  ? 0.9
+                  : 0.4,
+            }}
+            aboveLayerID="routeFill"
+          />
+        </ShapeSource>
+      )}
+
       {/* Traveled Path */}
       {isNavigating && traveledCoords && traveledCoords.length > 1 && (
         <ShapeSource
@@ -152,7 +355,7 @@ const MapDisplay: React.FC<MapDisplayProps> = ({
               lineJoin: "round",
               lineOpacity: 0.9,
             }}
-            aboveLayerID="routeFill"
+            aboveLayerID="routeCongestion"
           />
         </ShapeSource>
       )}
@@ -166,8 +369,45 @@ const MapDisplay: React.FC<MapDisplayProps> = ({
         </PointAnnotation>
       )}
 
+      {/* Intermediate Stop Markers */}
+      {(uiMode === "route-selection" || isNavigating) &&
+        waypoints.map((waypoint, index) =>
+          index < reachedWaypointCount ? null : (
+            <PointAnnotation
+              id={`waypoint-${index}`}
+              key={`waypoint-${index}-${waypoint.join(",")}`}
+              coordinate={waypoint}
+            >
+              <View style={styles.waypointMarker}>
+                <Text style={styles.waypointMarkerText}>{index + 1}</Text>
+              </View>
+            </PointAnnotation>
+          )
+        )}
+
+      {navigationLocation && (
+        <ShapeSource
+          id="navigationLocationSource"
+          shape={{ type: "Point", coordinates: navigationLocation }}
+        >
+          <CircleLayer
+            id="navigationLocationCircle"
+            style={{
+              circleRadius: 9,
+              // Greyed out while the position is only estimated
+              circleColor: isNavigationLocationEstimated
+                ? "#9CA3AF"
+                : "#007AFF",
+              circleOpacity: isNavigationLocationEstimated ? 0.7 : 1,
+              circleStrokeWidth: 3,
+              circleStrokeColor: "#fff",
+            }}
+          />
+        </ShapeSource>
+      )}
+
       <LocationPuck
-        visible={true}
+        visible={!navigationLocation}
         pulsing={
           isNavigating
             ? { isEnabled: true, color: "rgba(0,122,255,0.3)" }
@@ -204,6 +444,21 @@ const styles = StyleSheet.create({
     borderWidth: 2,
     borderColor: "white",
   },
+  waypointMarker: {
+    width: 22,
+    height: 22,
+    borderRadius: 11,
+    backgroundColor: "#f97316",
+    borderWidth: 2,
+    borderColor: "white",
+    justifyContent: "center",
+    alignItems: "center",
+  },
+  waypointMarkerText: {
+    color: "white",
+    fontSize: 11,
+    fontWeight: "bold",
+  },
 });
 
 export default MapDisplay;
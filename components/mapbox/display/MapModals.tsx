@@ -4,7 +4,12 @@ import ReportAlertModal from "@/components/mapbox/pins/ReportAlertModal";
 import LoginRequiredModal from "@/components/mapbox/pins/LoginRequiredModal";
 import SideMenu from "@/components/settings/SideMenu";
 import PinInfoModal from "@/components/mapbox/pins/PinInfoModal";
-import { PinRead, UserPreferences } from "@/types/api";
+import {
+  AvoidArea,
+  PinRead,
+  RoutingProfile,
+  UserPreferences,
+} from "@/types/api";
 import { RoutingPreference } from "@/components/settings/RoutingPreferences";
 import PinConfirmationModal from "../pins/PinConfirmationModal";
 
@@ -19,6 +24,14 @@ interface MapModalsProps {
   onToggleSideMenu: () => void;
   preferences: RoutingPreference[];
   onTogglePreference: (id: string, value: boolean) => void;
+  routingProfile: RoutingProfile;
+  onSelectRoutingProfile: (profile: RoutingProfile) => void;
+  avoidAreas: AvoidArea[];
+  onToggleAvoidArea: (id: string, enabled: boolean) => void;
+  onRemoveAvoidArea: (id: string) => void;
+  onDrawAvoidArea: () => void;
+  simulationSpeed: number | null;
+  onSelectSimulationSpeed: (speed: number | null) => void;
   selectedPinForModal: PinRead | null;
   onClosePinInfoModal: () => void;
   pinConfirmationModalVisible: boolean;
@@ -38,6 +51,14 @@ const MapModals: React.FC<MapModalsProps> = ({
   onToggleSideMenu,
   preferences,
   onTogglePreference,
+  routingProfile,
+  onSelectRoutingProfile,
+  avoidAreas,
+  onToggleAvoidArea,
+  onRemoveAvoidArea,
+  onDrawAvoidArea,
+  simulationSpeed,
+  onSelectSimulationSpeed,
   selectedPinForModal,
   onClosePinInfoModal,
   pinConfirmationModalVisible,
@@ -65,6 +86,14 @@ const MapModals: React.FC<MapModalsProps> = ({
         toLogin={onNavigateToLogin}
         preferences={preferences}
         onTogglePreference={onTogglePreference}
+        routingProfile={routingProfile}
+        onSelectRoutingProfile={onSelectRoutingProfile}
+        avoidAreas={avoidAreas}
+        onToggleAvoidArea={onToggleAvoidArea}
+        onRemoveAvoidArea={onRemoveAvoidArea}
+        onDrawAvoidArea={onDrawAvoidArea}
+        simulationSpeed={simulationSpeed}
+        onSelectSimulationSpeed={onSelectSimulationSpeed}
       />
       <PinInfoModal
         selectedPin={selectedPinForModal}
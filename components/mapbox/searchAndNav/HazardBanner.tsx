@@ -0,0 +1,100 @@
+import React from "react";
+import { View, Text, StyleSheet, TouchableOpacity } from "react-native";
+import { FontAwesome5 } from "@expo/vector-icons";
+import { PinRead, PinType } from "@/types/api";
+import { UpcomingHazard } from "@/hooks/routing/utils/types";
+import { formatDistance } from "@/hooks/routing/utils/formatters";
+import { AVOIDABLE_PIN_TYPES } from "@/hooks/routing/utils/constants";
+
+const HAZARD_DISPLAY: Record<
+  PinType,
+  { label: string; icon: string; color: string }
+> = {
+  accident: { label: "Accident", icon: "car-crash", color: "#FF0000" },
+  traffic_jam: { label: "Embouteillage", icon: "car", color: "#FF0000" },
+  roadwork: { label: "Travaux", icon: "hard-hat", color: "#FF8C00" },
+  cop: { label: "Police", icon: "shield-alt", color: "#0000FF" },
+  obstacle: {
+    label: "Obstacle",
+    icon: "exclamation-triangle",
+    color: "#FFA500",
+  },
+};
+
+interface HazardBannerProps {
+  hazard: UpcomingHazard | null;
+  onAvoid?: (pin: PinRead) => void; // Reroute around the hazard, offered for avoidable types only
+}
+
+/**
+ * Reported hazard ahead on the route, with the distance left to reach it
+ */
+const HazardBanner: React.FC<HazardBannerProps> = ({ hazard, onAvoid }) => {
+  if (!hazard) return null;
+  const display = HAZARD_DISPLAY[hazard.pin.type];
+  if (!display) return null;
+
+  return (
+    <View style={[styles.container, { borderLeftColor: display.color }]}>
+      <FontAwesome5 name={display.icon} size={16} color={display.color} />
+      <Text style={styles.label}>{display.label}</Text>
+      <Text style={styles.distance}>{formatDistance(hazard.distance)}</Text>
+      {onAvoid && AVOIDABLE_PIN_TYPES.includes(hazard.pin.type) && (
+        <TouchableOpacity
+          style={styles.avoidButton}
+          onPress={() => onAvoid(hazard.pin)}
+        >
+          <Text style={styles.avoidText}>Contourner</Text>
+        </TouchableOpacity>
+      )}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flexDirection: "row",
+    alignItems: "center",
+    backgroundColor: "white",
+    marginHorizontal: 16,
+    marginBottom: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    borderRadius: 12,
+    borderLeftWidth: 4,
+    shadowColor: "#000",
+    shadowOffset: {
+      width: 0,
+      height: 2,
+    },
+    shadowOpacity: 0.1,
+    shadowRadius: 4,
+    elevation: 3,
+  },
+  label: {
+    flex: 1,
+    fontSize: 15,
+    fontWeight: "600",
+    color: "#333",
+    marginLeft: 10,
+  },
+  distance: {
+    fontSize: 15,
+    fontWeight: "bold",
+    color: "#333",
+  },
+  avoidButton: {
+    marginLeft: 12,
+    paddingHorizontal: 10,
+    paddingVertical: 6,
+    borderRadius: 8,
+    backgroundColor: "#2563eb",
+  },
+  avoidText: {
+    fontSize: 13,
+    fontWeight: "600",
+    color: "white",
+  },
+});
+
+export default HazardBanner;
@@ -0,0 +1,88 @@
+import React from "react";
+import { View, StyleSheet } from "react-native";
+import { FontAwesome5 } from "@expo/vector-icons";
+import {
+  BannerComponent,
+  BannerInstruction,
+  ManeuverModifier,
+} from "@/types/mapbox";
+
+// Rotation of an upward arrow for each lane or maneuver direction
+export const DIRECTION_ROTATIONS: Record<ManeuverModifier, number> = {
+  straight: 0,
+  "slight right": 45,
+  right: 90,
+  "sharp right": 135,
+  uturn: 180,
+  "sharp left": -135,
+  left: -90,
+  "slight left": -45,
+};
+
+interface LaneGuidanceProps {
+  banner: BannerInstruction | null;
+}
+
+/**
+ * Direction drawn for a lane: the one to follow for usable lanes, the first allowed otherwise
+ */
+const getLaneDirection = (lane: BannerComponent): ManeuverModifier =>
+  (lane.active && lane.active_direction) || lane.directions?.[0] || "straight";
+
+/**
+ * Strip showing every lane of the road and the ones to use for the upcoming maneuver
+ */
+const LaneGuidance: React.FC<LaneGuidanceProps> = ({ banner }) => {
+  const lanes =
+    banner?.sub?.components.filter((component) => component.type === "lane") ||
+    [];
+  if (lanes.length === 0) return null;
+
+  return (
+    <View style={styles.container}>
+      {lanes.map((lane, index) => (
+        <View
+          key={index}
+          style={[styles.lane, index > 0 && styles.laneSeparator]}
+        >
+          <View
+            style={{
+              transform: [
+                { rotate: `${DIRECTION_ROTATIONS[getLaneDirection(lane)]}deg` },
+              ],
+            }}
+          >
+            <FontAwesome5
+              name="arrow-up"
+              size={18}
+              color={lane.active ? "#fff" : "rgba(255, 255, 255, 0.35)"}
+            />
+          </View>
+        </View>
+      ))}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flexDirection: "row",
+    alignSelf: "center",
+    backgroundColor: "#1e3a8a",
+    borderRadius: 10,
+    paddingHorizontal: 4,
+    marginBottom: 8,
+  },
+  lane: {
+    width: 36,
+    height: 36,
+    justifyContent: "center",
+    alignItems: "center",
+  },
+  laneSeparator: {
+    borderLeftWidth: 1,
+    borderLeftColor: "rgba(255, 255, 255, 0.3)",
+  },
+});
+
+export default LaneGuidance;
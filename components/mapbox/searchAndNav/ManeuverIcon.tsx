@@ -0,0 +1,136 @@
+import React from "react";
+import { View, Text, StyleSheet } from "react-native";
+import { FontAwesome5 } from "@expo/vector-icons";
+import { Maneuver, ManeuverModifier } from "@/types/mapbox";
+import { DIRECTION_ROTATIONS } from "./LaneGuidance";
+
+interface ManeuverGlyph {
+  name: string;
+  rotation?: number;
+  mirrored?: boolean; // Flipped horizontally, for maneuvers drawn on the right by default
+}
+
+interface ManeuverIconProps {
+  maneuver: Maneuver | null;
+  size?: number;
+  color?: string;
+}
+
+const isLeftModifier = (modifier?: ManeuverModifier): boolean =>
+  modifier === "slight left" ||
+  modifier === "left" ||
+  modifier === "sharp left";
+
+/**
+ * Arrow pointing towards the maneuver modifier, U-turns get their own icon
+ */
+const getDirectionGlyph = (modifier?: ManeuverModifier): ManeuverGlyph => {
+  if (modifier === "uturn") return { name: "undo" };
+  return {
+    name: "arrow-up",
+    rotation: DIRECTION_ROTATIONS[modifier || "straight"],
+  };
+};
+
+/**
+ * Pick the icon for a maneuver from its type and modifier
+ */
+export const getManeuverGlyph = (maneuver: Maneuver | null): ManeuverGlyph => {
+  if (!maneuver) return { name: "road" };
+
+  switch (maneuver.type) {
+    case "depart":
+      // The location arrow points to the top right
+      return { name: "location-arrow", rotation: -45 };
+    case "arrive":
+      return { name: "flag-checkered" };
+    case "roundabout":
+    case "rotary":
+    case "roundabout turn":
+      return { name: "sync-alt" };
+    case "fork":
+      return {
+        name: "code-branch",
+        mirrored: isLeftModifier(maneuver.modifier),
+      };
+    case "merge":
+      // Branches joining into a single road
+      return {
+        name: "code-branch",
+        rotation: 180,
+        mirrored: !isLeftModifier(maneuver.modifier),
+      };
+    case "on ramp":
+    case "off ramp":
+      return {
+        name: "level-up-alt",
+        mirrored: isLeftModifier(maneuver.modifier),
+      };
+    case "turn":
+    case "new name":
+    case "continue":
+    case "end of road":
+    case "exit roundabout":
+    case "exit rotary":
+    case "notification":
+    case "use lane":
+    default:
+      return getDirectionGlyph(maneuver.modifier);
+  }
+};
+
+/**
+ * Icon of a maneuver, with the exit number for roundabouts
+ */
+const ManeuverIcon: React.FC<ManeuverIconProps> = ({
+  maneuver,
+  size = 24,
+  color = "#2563eb",
+}) => {
+  const glyph = getManeuverGlyph(maneuver);
+  const isRoundabout =
+    maneuver?.type === "roundabout" ||
+    maneuver?.type === "rotary" ||
+    maneuver?.type === "roundabout turn";
+
+  return (
+    <View>
+      <View
+        style={{
+          transform: [
+            { rotate: `${glyph.rotation || 0}deg` },
+            { scaleX: glyph.mirrored ? -1 : 1 },
+          ],
+        }}
+      >
+        <FontAwesome5 name={glyph.name} size={size} color={color} />
+      </View>
+      {isRoundabout && maneuver?.exit !== undefined && (
+        <View style={[styles.exitBadge, { backgroundColor: color }]}>
+          <Text style={styles.exitText}>{maneuver.exit}</Text>
+        </View>
+      )}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  exitBadge: {
+    position: "absolute",
+    right: -8,
+    bottom: -6,
+    minWidth: 16,
+    height: 16,
+    borderRadius: 8,
+    paddingHorizontal: 3,
+    justifyContent: "center",
+    alignItems: "center",
+  },
+  exitText: {
+    color: "#fff",
+    fontSize: 10,
+    fontWeight: "bold",
+  },
+});
+
+export default ManeuverIcon;
@@ -7,34 +7,74 @@ import {
   Animated,
 } from "react-native";
 import { FontAwesome5 } from "@expo/vector-icons";
-import { Route } from "@/types/mapbox";
+import { BannerInstruction, Route, Step } from "@/types/mapbox";
 import { RouteFeatures } from "@/types/mapbox";
+import { PinRead } from "@/types/api";
+import {
+  FasterRouteSuggestion,
+  ScheduleComparison,
+  UpcomingHazard,
+} from "@/hooks/routing/utils/types";
+import { formatClockTime } from "@/hooks/routing/utils/formatters";
+import { MIN_FEATURE_DISTANCE_METERS } from "@/hooks/routing/utils/constants";
+import LaneGuidance from "./LaneGuidance";
+import ManeuverIcon from "./ManeuverIcon";
+import StepsList from "./StepsList";
+import SpeedIndicator from "./SpeedIndicator";
+import HazardBanner from "./HazardBanner";
 
 interface NavigationInterfaceProps {
   route: Route | null;
   instruction: string;
+  upcomingStep?: Step | null; // Step starting with the next maneuver, sets the instruction icon
+  currentStepIndex?: number; // Step being travelled, the steps list starts after it
   distanceToNext: number | null;
+  bannerInstruction?: BannerInstruction | null; // Current banner, shows lane guidance when it has lanes
   onCancelNavigation: () => void;
   onRecalculateRoute: () => void;
   routeFeatures?: RouteFeatures; // Added route features
   remainingDistance?: number | null; // Live remaining distance
   remainingDuration?: number | null; // Live remaining duration
   estimatedArrival?: Date | null; // Live estimated arrival time
+  currentSpeed?: number | null; // km/h, from the location fixes
+  speedLimit?: number | null; // km/h, posted limit where the user is
+  isOverSpeedLimit?: boolean;
+  isLocationEstimated?: boolean; // GPS signal lost, the position is extrapolated along the route
+  upcomingHazard?: UpcomingHazard | null; // Reported pin ahead on the route
+  onAvoidHazard?: (pin: PinRead) => void;
+  scheduleComparison?: ScheduleComparison | null; // Planned vs live times of a scheduled trip
+  fasterRouteSuggestion?: FasterRouteSuggestion | null; // Better route found by the traffic refresh
+  onAcceptFasterRoute?: () => void;
+  onDismissFasterRoute?: () => void;
 }
 
 const NavigationInterface: React.FC<NavigationInterfaceProps> = ({
   route,
   instruction,
+  upcomingStep,
+  currentStepIndex = 0,
   distanceToNext,
+  bannerInstruction,
   onCancelNavigation,
   onRecalculateRoute,
   routeFeatures,
   remainingDistance,
   remainingDuration,
   estimatedArrival,
+  currentSpeed = null,
+  speedLimit = null,
+  isOverSpeedLimit = false,
+  isLocationEstimated = false,
+  upcomingHazard = null,
+  onAvoidHazard,
+  scheduleComparison,
+  fasterRouteSuggestion,
+  onAcceptFasterRoute,
+  onDismissFasterRoute,
 }) => {
   const [fadeAnim] = useState(new Animated.Value(0));
   const [showOverview, setShowOverview] = useState(false);
+  const [showSteps, setShowSteps] = useState(false);
 
   // Fade in the interface when it appears
   useEffect(() => {
@@ -52,6 +92,12 @@ const NavigationInterface: React.FC<NavigationInterfaceProps> = ({
     return `${(meters / 1000).toFixed(1)}km`;
   };
 
+  // Add the distance travelled on the feature when it is known
+  const getFeatureLabel = (label: string, distance: number): string =>
+    distance >= MIN_FEATURE_DISTANCE_METERS
+      ? `${label} · ${formatDistance(distance)}`
+      : label;
+
   // Format duration from seconds to human-readable
   const formatDuration = (seconds: number): string => {
     if (!seconds) return "";
@@ -86,32 +132,29 @@ const NavigationInterface: React.FC<NavigationInterfaceProps> = ({
     });
   };
 
-  // Get appropriate icon for the instruction
-  const getInstructionIcon = (): string => {
-    const lowerInstruction = instruction.toLowerCase();
-
-    if (lowerInstruction.includes("tournez à droite")) {
-      return "arrow-right";
-    } else if (lowerInstruction.includes("tournez à gauche")) {
-      return "arrow-left";
-    } else if (lowerInstruction.includes("tout droit")) {
-      return "arrow-up";
-    } else if (lowerInstruction.includes("demi-tour")) {
-      return "undo";
-    } else if (lowerInstruction.includes("rond-point")) {
-      return "sync";
-    } else if (lowerInstruction.includes("sortie")) {
-      return "sign-out-alt";
-    } else if (lowerInstruction.includes("arrivée")) {
-      return "flag-checkered";
-    } else {
-      return "road";
-    }
+  // Describe how the live arrival compares with the planned one
+  const getScheduleDelta = (): string => {
+    if (!scheduleComparison) return "";
+    const deltaMinutes = Math.round(
+      (scheduleComparison.liveArrival.getTime() -
+        scheduleComparison.plannedArrival.getTime()) /
+        60000
+    );
+    if (deltaMinutes === 0) return "à l'heure";
+    return deltaMinutes > 0
+      ? `${deltaMinutes} min de retard`
+      : `${-deltaMinutes} min d'avance`;
   };
 
   return (
     <Animated.View style={{ opacity: fadeAnim }}>
       <View style={styles.container}>
+        <SpeedIndicator
+          currentSpeed={currentSpeed}
+          speedLimit={speedLimit}
+          isOverSpeedLimit={isOverSpeedLimit}
+        />
+
         {/* Traffic status indicator */}
         {routeFeatures?.trafficLevel &&
           routeFeatures.trafficLevel !== "unknown" && (
@@ -136,14 +179,14 @@ const NavigationInterface: React.FC<NavigationInterfaceProps> = ({
             </View>
           )}
 
-        {/* Instruction card */}
-        <View style={styles.instructionCard}>
+        {/* Instruction card, tap to show the remaining steps */}
+        <TouchableOpacity
+          style={styles.instructionCard}
+          activeOpacity={0.8}
+          onPress={() => setShowSteps(!showSteps)}
+        >
           <View style={styles.instructionIconContainer}>
-            <FontAwesome5
-              name={getInstructionIcon()}
-              size={24}
-              color="#2563eb"
-            />
+            <ManeuverIcon maneuver={upcomingStep?.maneuver ?? null} />
           </View>
           <View style={styles.instructionTextContainer}>
             <Text style={styles.instructionText}>{instruction}</Text>
@@ -153,7 +196,85 @@ const NavigationInterface: React.FC<NavigationInterfaceProps> = ({
               </Text>
             )}
           </View>
-        </View>
+          {route && (
+            <FontAwesome5
+              name={showSteps ? "chevron-up" : "chevron-down"}
+              size={14}
+              color="#999"
+            />
+          )}
+        </TouchableOpacity>
+
+        {showSteps && route && (
+          <View style={styles.stepsContainer}>
+            <StepsList
+              route={route}
+              arrivalTime={
+                estimatedArrival ?? new Date(Date.now() + route.duration * 1000)
+              }
+              fromStepIndex={currentStepIndex + 1}
+            />
+          </View>
+        )}
+
+        {/* Reported hazard ahead on the route */}
+        <HazardBanner hazard={upcomingHazard} onAvoid={onAvoidHazard} />
+
+        {/* Lanes to use for the upcoming maneuver */}
+        <LaneGuidance banner={bannerInstruction ?? null} />
+
+        {/* GPS outage, e.g. in a tunnel: guidance continues from an estimate */}
+        {isLocationEstimated && (
+          <View style={styles.estimatedLocationInfo}>
+            <FontAwesome5 name="satellite-dish" size={12} color="#6b7280" />
+            <Text style={styles.estimatedLocationText}>
+              Signal GPS perdu · position estimée
+            </Text>
+          </View>
+        )}
+
+        {/* Scheduled trip: planned arrival compared with live traffic */}
+        {scheduleComparison && (
+          <View style={styles.scheduleInfo}>
+            <FontAwesome5 name="clock" size={12} color="#2563eb" />
+            <Text style={styles.scheduleInfoText}>
+              {`Arrivée prévue ${formatClockTime(
+                scheduleComparison.plannedArrival
+              )} · ${getScheduleDelta()}`}
+            </Text>
+          </View>
+        )}
+
+        {/* Faster route prompt, disappears on its own if not answered */}
+        {fasterRouteSuggestion && (
+          <View style={styles.fasterRouteCard}>
+            <FontAwesome5 name="bolt" size={14} color="#16a34a" />
+            <View style={styles.fasterRouteInfo}>
+              <Text style={styles.fasterRouteTitle}>
+                {`Itinéraire plus rapide${
+                  fasterRouteSuggestion.viaLabel
+                    ? ` ${fasterRouteSuggestion.viaLabel}`
+                    : ""
+                }`}
+              </Text>
+              <Text style={styles.fasterRouteSaving}>
+                {`${formatDuration(fasterRouteSuggestion.timeSaved)} de moins`}
+              </Text>
+            </View>
+            <TouchableOpacity
+              style={styles.fasterRouteDismiss}
+              onPress={onDismissFasterRoute}
+            >
+              <Text style={styles.fasterRouteDismissText}>Ignorer</Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={styles.fasterRouteAccept}
+              onPress={onAcceptFasterRoute}
+            >
+              <Text style={styles.fasterRouteAcceptText}>Prendre</Text>
+            </TouchableOpacity>
+          </View>
+        )}
 
         {/* Route features display */}
         {routeFeatures && (
@@ -161,19 +282,47 @@ const NavigationInterface: React.FC<NavigationInterfaceProps> = ({
             {routeFeatures.hasTolls && (
               <View style={styles.featureChip}>
                 <FontAwesome5 name="receipt" size={10} color="#FF9800" />
-                <Text style={styles.featureChipText}>Péage</Text>
+                <Text style={styles.featureChipText}>
+                  {getFeatureLabel("Péage", routeFeatures.tollDistance)}
+                </Text>
               </View>
             )}
             {routeFeatures.hasHighways && (
               <View style={styles.featureChip}>
                 <FontAwesome5 name="road" size={10} color="#2196F3" />
-                <Text style={styles.featureChipText}>Autoroute</Text>
+                <Text style={styles.featureChipText}>
+                  {getFeatureLabel("Autoroute", routeFeatures.highwayDistance)}
+                </Text>
               </View>
             )}
             {routeFeatures.hasUnpavedRoads && (
               <View style={styles.featureChip}>
                 <FontAwesome5 name="truck-monster" size={10} color="#795548" />
-                <Text style={styles.featureChipText}>Non pavé</Text>
+                <Text style={styles.featureChipText}>
+                  {getFeatureLabel("Non pavé", routeFeatures.unpavedDistance)}
+                </Text>
+              </View>
+            )}
+            {routeFeatures.hasFerries && (
+              <View style={styles.featureChip}>
+                <FontAwesome5 name="ship" size={10} color="#0097A7" />
+                <Text style={styles.featureChipText}>
+                  {getFeatureLabel("Ferry", routeFeatures.ferryDistance)}
+                </Text>
+              </View>
+            )}
+            {routeFeatures.hasTunnels && (
+              <View style={styles.featureChip}>
+                <FontAwesome5 name="archway" size={10} color="#607D8B" />
+                <Text style={styles.featureChipText}>
+                  {getFeatureLabel("Tunnel", routeFeatures.tunnelDistance)}
+                </Text>
+              </View>
+            )}
+            {routeFeatures.crossesBorder && (
+              <View style={styles.featureChip}>
+                <FontAwesome5 name="passport" size={10} color="#9C27B0" />
+                <Text style={styles.featureChipText}>Frontière</Text>
               </View>
             )}
           </View>
@@ -293,6 +442,10 @@ const styles = StyleSheet.create({
     fontSize: 14,
     color: "#666",
   },
+  stepsContainer: {
+    marginHorizontal: 16,
+    marginBottom: 8,
+  },
   controlPanel: {
     flexDirection: "row",
     alignItems: "center",
@@ -392,6 +545,84 @@ const styles = StyleSheet.create({
     color: "#fff",
     marginLeft: 4,
   },
+  // Estimated location styles
+  estimatedLocationInfo: {
+    flexDirection: "row",
+    alignItems: "center",
+    alignSelf: "center",
+    backgroundColor: "rgba(255, 255, 255, 0.9)",
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    marginBottom: 8,
+  },
+  estimatedLocationText: {
+    fontSize: 12,
+    color: "#333",
+    marginLeft: 6,
+  },
+  // Scheduled trip styles
+  scheduleInfo: {
+    flexDirection: "row",
+    alignItems: "center",
+    alignSelf: "center",
+    backgroundColor: "rgba(255, 255, 255, 0.9)",
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    marginBottom: 8,
+  },
+  scheduleInfoText: {
+    fontSize: 12,
+    color: "#333",
+    marginLeft: 6,
+  },
+  fasterRouteCard: {
+    flexDirection: "row",
+    alignItems: "center",
+    backgroundColor: "rgba(255, 255, 255, 0.95)",
+    marginHorizontal: 16,
+    marginBottom: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderRadius: 12,
+    borderLeftWidth: 4,
+    borderLeftColor: "#16a34a",
+  },
+  fasterRouteInfo: {
+    flex: 1,
+    marginLeft: 10,
+  },
+  fasterRouteTitle: {
+    fontSize: 14,
+    fontWeight: "bold",
+    color: "#333",
+  },
+  fasterRouteSaving: {
+    fontSize: 12,
+    color: "#16a34a",
+    marginTop: 2,
+  },
+  fasterRouteDismiss: {
+    paddingHorizontal: 10,
+    paddingVertical: 6,
+  },
+  fasterRouteDismissText: {
+    fontSize: 13,
+    color: "#666",
+  },
+  fasterRouteAccept: {
+    backgroundColor: "#16a34a",
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 8,
+    marginLeft: 4,
+  },
+  fasterRouteAcceptText: {
+    fontSize: 13,
+    fontWeight: "bold",
+    color: "#fff",
+  },
   // Route features styles
   routeFeatures: {
     flexDirection: "row",
@@ -19,7 +19,6 @@ import { Route, RouteFeatures } from "@/types/mapbox";
 import * as Location from "expo-location";
 import { useUser } from "@/providers/UserProvider";
 import MapboxSearchItem from "./MapboxSearchItem";
-import mapboxService from "@/services/mapboxService";
 import { getExcludesFromPreferences } from "@/utils/routeUtils";
 import ttsManager from "@/utils/ttsManager";
 import Config from "react-native-config";
@@ -29,6 +28,17 @@ import {
   SearchBoxAdministrativeUnitTypes,
 } from "@mapbox/search-js-core";
 import { useLocation } from "@/providers/LocationProvider";
+import { RouteStop, TripSchedule } from "@/hooks/routing/utils/types";
+import { getScheduledTripTimes } from "@/hooks/routing/utils/routeAnalysis";
+import { formatClockTime } from "@/hooks/routing/utils/formatters";
+import TripScheduleSelector from "./TripScheduleSelector";
+import StepsList from "./StepsList";
+import { AvoidArea, RoutingProfile } from "@/types/api";
+import {
+  MAX_ROUTE_WAYPOINTS,
+  MIN_FEATURE_DISTANCE_METERS,
+  STOP_ORDER_MIN_TIME_SAVED,
+} from "@/hooks/routing/utils/constants";
 
 // Initialize Mapbox Search SDK
 const searchClient = new SearchBoxCore({
@@ -38,6 +48,13 @@ const searchClient = new SearchBoxCore({
 interface SearchAndRouteControlProps {
   userLocation: [number, number] | null;
   onDestinationSelected: (coordinates: [number, number]) => void;
+  stops: RouteStop[]; // Intermediate stops before the destination
+  onStopAdded: (stop: RouteStop) => void;
+  onStopRemoved: (index: number) => void;
+  onToggleStopLock: (index: number) => void;
+  onOptimizeStops: () => void;
+  isOptimizingStops: boolean;
+  stopOrderSavings: number | null; // Seconds saved by the last optimization
   onStartNavigation: () => void;
   onCancelSearch: () => void;
   onRouteSelected: (route: Route, alternateRoutes: Route[]) => void;
@@ -49,11 +66,29 @@ interface SearchAndRouteControlProps {
   selectedRouteIndex: number;
   setSelectedRouteIndex: (index: number) => void;
   forceRouteSelectionMode?: boolean; // NEW PROP
+  routingProfile: RoutingProfile;
+  tripSchedule: TripSchedule | null;
+  onTripScheduleChange: (schedule: TripSchedule | null) => void;
+  onSaveDepartureReminder: () => void;
+  routeIncidentCount?: number; // Reported accidents and roadworks on the selected route
+  onAvoidIncidents?: () => void;
+  avoidAreas?: AvoidArea[]; // Every zone saved in the profile
+  activeAvoidAreas?: AvoidArea[]; // Zones applied to this trip
+  onToggleTripAvoidArea?: (id: string, active: boolean) => void;
+  crossedAvoidAreas?: AvoidArea[]; // Active zones the selected route could not avoid
+  ignoredAvoidances?: string[]; // Labels of the avoidances the routing backend cannot apply
 }
 
 const SearchAndRouteControl: React.FC<SearchAndRouteControlProps> = ({
   userLocation,
   onDestinationSelected,
+  stops,
+  onStopAdded,
+  onStopRemoved,
+  onToggleStopLock,
+  onOptimizeStops,
+  isOptimizingStops,
+  stopOrderSavings,
   onStartNavigation,
   onCancelSearch,
   onRouteSelected,
@@ -65,6 +100,17 @@ const SearchAndRouteControl: React.FC<SearchAndRouteControlProps> = ({
   selectedRouteIndex,
   setSelectedRouteIndex,
   forceRouteSelectionMode = false, // NEW PROP
+  routingProfile,
+  tripSchedule,
+  onTripScheduleChange,
+  onSaveDepartureReminder,
+  routeIncidentCount = 0,
+  onAvoidIncidents,
+  avoidAreas = [],
+  activeAvoidAreas = [],
+  onToggleTripAvoidArea,
+  crossedAvoidAreas = [],
+  ignoredAvoidances = [],
 }) => {
   // Animation values
   const slideAnim = useRef(new Animated.Value(0)).current;
@@ -73,6 +119,8 @@ const SearchAndRouteControl: React.FC<SearchAndRouteControlProps> = ({
   const [searchQuery, setSearchQuery] = useState("");
   const [searchResults, setSearchResults] = useState<SearchBoxSuggestion[]>([]);
   const [searchMode, setSearchMode] = useState(true); // true = search, false = route selection
+  const [isAddingStop, setIsAddingStop] = useState(false); // search picks an intermediate stop instead of the destination
+  const [showSteps, setShowSteps] = useState(false); // steps of the highlighted route instead of the route options
 
   const [searchLoading, setSearchLoading] = useState(false);
 
@@ -106,10 +154,10 @@ const SearchAndRouteControl: React.FC<SearchAndRouteControlProps> = ({
 
   // Reset state when returning to search mode
   useEffect(() => {
-    if (searchMode) {
+    if (searchMode && !isAddingStop) {
       setSelectedRouteIndex(0);
     }
-  }, [searchMode]);
+  }, [searchMode, isAddingStop]);
 
   // Switch to route-selection mode if forced by prop (e.g. QR code)
   useEffect(() => {
@@ -136,7 +184,10 @@ const SearchAndRouteControl: React.FC<SearchAndRouteControlProps> = ({
           sessionToken: searchSession,
           country: "fr",
           language: "fr",
-          navigation_profile: "driving",
+          navigation_profile:
+            routingProfile === "walking" || routingProfile === "cycling"
+              ? routingProfile
+              : "driving",
           types: new Set<SearchBoxAdministrativeUnitTypes>([
             "place",
             "region",
@@ -161,7 +212,7 @@ const SearchAndRouteControl: React.FC<SearchAndRouteControlProps> = ({
         setSearchLoading(false);
       }
     },
-    [searchSession]
+    [searchSession, routingProfile]
   );
 
   // Handle selection of a search result using the Mapbox Search SDK
@@ -189,7 +240,12 @@ const SearchAndRouteControl: React.FC<SearchAndRouteControlProps> = ({
           Keyboard.dismiss();
 
           // Notify parent component
-          onDestinationSelected(selectedCoords);
+          if (isAddingStop) {
+            setIsAddingStop(false);
+            onStopAdded({ coordinates: selectedCoords, name: suggestion.name });
+          } else {
+            onDestinationSelected(selectedCoords);
+          }
         }
       } catch (error) {
         console.error("Error retrieving location details:", error);
@@ -197,9 +253,35 @@ const SearchAndRouteControl: React.FC<SearchAndRouteControlProps> = ({
         setSearchLoading(false);
       }
     },
-    [userLocation, onDestinationSelected, userData?.preferences, searchSession]
+    [
+      userLocation,
+      onDestinationSelected,
+      onStopAdded,
+      isAddingStop,
+      userData?.preferences,
+      searchSession,
+    ]
   );
 
+  // Switch the search panel to pick an intermediate stop
+  const handleAddStop = useCallback(() => {
+    setSearchQuery("");
+    setSearchResults([]);
+    setIsAddingStop(true);
+    setSearchMode(true);
+  }, []);
+
+  // Close the search panel, or go back to the routes when a stop was being added
+  const handleCloseSearch = useCallback(() => {
+    if (isAddingStop) {
+      setIsAddingStop(false);
+      setSearchMode(false);
+      Keyboard.dismiss();
+      return;
+    }
+    onCancelSearch();
+  }, [isAddingStop, onCancelSearch]);
+
   // Select a different route
   const handleSelectRoute = useCallback(
     (index: number) => {
@@ -237,12 +319,16 @@ const SearchAndRouteControl: React.FC<SearchAndRouteControlProps> = ({
 
     // Start navigation
     setSearchMode(true);
+    setIsAddingStop(false);
+    setShowSteps(false);
     onStartNavigation();
   }, [onStartNavigation]);
 
   // Handle back button in route selection mode
   const handleBackToSearch = useCallback(() => {
     setSearchMode(true);
+    setIsAddingStop(false);
+    setShowSteps(false);
 
     // Ensure keyboard is dismissed
     Keyboard.dismiss();
@@ -276,6 +362,85 @@ const SearchAndRouteControl: React.FC<SearchAndRouteControlProps> = ({
     </View>
   );
 
+  // Add the distance travelled on the feature when it is known
+  const getFeatureLabel = (label: string, distance: number) =>
+    distance >= MIN_FEATURE_DISTANCE_METERS
+      ? `${label} · ${formatDistance(distance)}`
+      : label;
+
+  // Roads and crossings worth knowing about before picking a route
+  const renderFeatureBadges = (features?: RouteFeatures) => (
+    <View style={styles.featureBadges}>
+      {features?.hasTolls && (
+        <FeatureBadge
+          icon="receipt"
+          label={getFeatureLabel("Péage", features.tollDistance)}
+          color="#FF9800"
+        />
+      )}
+      {features?.hasHighways && (
+        <FeatureBadge
+          icon="road"
+          label={getFeatureLabel("Autoroute", features.highwayDistance)}
+          color="#2196F3"
+        />
+      )}
+      {features?.hasUnpavedRoads && (
+        <FeatureBadge
+          icon="truck-monster"
+          label={getFeatureLabel("Non pavé", features.unpavedDistance)}
+          color="#795548"
+        />
+      )}
+      {features?.hasFerries && (
+        <FeatureBadge
+          icon="ship"
+          label={getFeatureLabel("Ferry", features.ferryDistance)}
+          color="#0097A7"
+        />
+      )}
+      {features?.hasTunnels && (
+        <FeatureBadge
+          icon="archway"
+          label={getFeatureLabel("Tunnel", features.tunnelDistance)}
+          color="#607D8B"
+        />
+      )}
+      {features?.crossesBorder && (
+        <FeatureBadge icon="passport" label="Frontière" color="#9C27B0" />
+      )}
+    </View>
+  );
+
+  // Planned departure/arrival and the usual duration without live traffic
+  const renderTripTimes = (route: Route) => {
+    const { departure, arrival } = getScheduledTripTimes(route, tripSchedule);
+    const showTypical =
+      route.duration_typical !== undefined &&
+      Math.abs(route.duration_typical - route.duration) >= 60;
+
+    return (
+      <View style={styles.tripTimes}>
+        <Text style={styles.tripTimesText}>
+          {`Départ ${formatClockTime(departure)} · Arrivée ${formatClockTime(
+            arrival
+          )}`}
+        </Text>
+        {showTypical && (
+          <Text style={styles.typicalDurationText}>
+            {`Habituellement ${formatDuration(route.duration_typical)}`}
+          </Text>
+        )}
+      </View>
+    );
+  };
+
+  // Route whose steps are previewed
+  const highlightedRoute =
+    selectedRouteIndex === 0
+      ? selectedRoute
+      : alternateRoutes[selectedRouteIndex - 1] || selectedRoute;
+
   // Custom rendering for search results
   const renderSearchItem = (suggestion: SearchBoxSuggestion) => {
     return (
@@ -313,10 +478,10 @@ const SearchAndRouteControl: React.FC<SearchAndRouteControlProps> = ({
           <View style={styles.searchHeader}>
             <TouchableOpacity
               style={styles.closeButton}
-              onPress={onCancelSearch}
+              onPress={handleCloseSearch}
             >
               <FontAwesome5
-                name="times"
+                name={isAddingStop ? "arrow-left" : "times"}
                 size={20}
                 color={Colors[colorScheme].text}
               />
@@ -332,7 +497,9 @@ const SearchAndRouteControl: React.FC<SearchAndRouteControlProps> = ({
               <TextInput
                 ref={searchInputRef}
                 style={styles.searchInput}
-                placeholder="Rechercher un lieu"
+                placeholder={
+                  isAddingStop ? "Ajouter un arrêt" : "Rechercher un lieu"
+                }
                 value={searchQuery}
                 onChangeText={handleSearch}
               />
@@ -395,155 +562,239 @@ const SearchAndRouteControl: React.FC<SearchAndRouteControlProps> = ({
             <Text style={styles.routeHeaderText}>Routes disponibles</Text>
           </View>
 
-          <ScrollView style={styles.routesList}>
-            {loading ? (
-              <View style={styles.loadingContainer}>
-                <ActivityIndicator
-                  size="large"
-                  color={Colors[colorScheme].tint}
-                />
-                <Text style={styles.loadingText}>
-                  Recherche des itinéraires...
+          {/* Intermediate stops */}
+          <View style={styles.stopsContainer}>
+            {stops.map((stop, index) => (
+              <View key={`stop-${index}`} style={styles.stopItem}>
+                <View style={styles.stopIndex}>
+                  <Text style={styles.stopIndexText}>{index + 1}</Text>
+                </View>
+                <Text style={styles.stopName} numberOfLines={1}>
+                  {stop.name}
                 </Text>
+                {stops.length > 1 && (
+                  <TouchableOpacity
+                    style={styles.stopRemoveButton}
+                    onPress={() => onToggleStopLock(index)}
+                  >
+                    <FontAwesome5
+                      name={stop.locked ? "lock" : "lock-open"}
+                      size={12}
+                      color={stop.locked ? "#f97316" : "#bbb"}
+                    />
+                  </TouchableOpacity>
+                )}
+                <TouchableOpacity
+                  style={styles.stopRemoveButton}
+                  onPress={() => onStopRemoved(index)}
+                >
+                  <FontAwesome5 name="times" size={14} color="#777" />
+                </TouchableOpacity>
               </View>
-            ) : (
-              <>
-                {selectedRoute && (
+            ))}
+            <View style={styles.stopActions}>
+              {stops.length < MAX_ROUTE_WAYPOINTS && (
+                <TouchableOpacity
+                  style={styles.addStopButton}
+                  onPress={handleAddStop}
+                >
+                  <FontAwesome5 name="plus" size={12} color="#2196f3" />
+                  <Text style={styles.addStopText}>Ajouter un arrêt</Text>
+                </TouchableOpacity>
+              )}
+              {stops.length > 1 && (
+                <TouchableOpacity
+                  style={styles.addStopButton}
+                  onPress={onOptimizeStops}
+                  disabled={isOptimizingStops}
+                >
+                  {isOptimizingStops ? (
+                    <ActivityIndicator size="small" color="#2196f3" />
+                  ) : (
+                    <FontAwesome5 name="random" size={12} color="#2196f3" />
+                  )}
+                  <Text style={styles.addStopText}>Optimiser l'ordre</Text>
+                </TouchableOpacity>
+              )}
+            </View>
+            {stopOrderSavings !== null && (
+              <Text style={styles.stopOrderSavingsText}>
+                {stopOrderSavings >= STOP_ORDER_MIN_TIME_SAVED
+                  ? `Ordre suggéré appliqué : ${formatDuration(
+                      stopOrderSavings
+                    )} de gagné`
+                  : "L'ordre actuel est déjà le plus rapide"}
+              </Text>
+            )}
+          </View>
+
+          <TripScheduleSelector
+            schedule={tripSchedule}
+            onChange={onTripScheduleChange}
+            onSaveReminder={onSaveDepartureReminder}
+          />
+
+          {avoidAreas.length > 0 && onToggleTripAvoidArea && (
+            <View style={styles.avoidAreasRow}>
+              <Text style={styles.avoidAreasLabel}>Zones à éviter :</Text>
+              {avoidAreas.map((area) => {
+                const isActive = activeAvoidAreas.some(
+                  (active) => active.id === area.id
+                );
+                return (
                   <TouchableOpacity
-                    key="primary-route"
+                    key={area.id}
                     style={[
-                      styles.routeOption,
-                      selectedRouteIndex === 0 && styles.selectedRoute,
+                      styles.avoidAreaChip,
+                      isActive && styles.avoidAreaChipActive,
                     ]}
-                    onPress={() => handleSelectRoute(0)}
+                    onPress={() => onToggleTripAvoidArea(area.id, !isActive)}
                   >
-                    {/* Primary route display */}
-                    <View style={styles.routeDetails}>
-                      <Text style={styles.routeDuration}>
-                        {routeFeatures?.["primary"]?.estimatedTime ||
-                          formatDuration(selectedRoute.duration)}
-                      </Text>
-                      <Text style={styles.routeDistance}>
-                        {routeFeatures?.["primary"]?.distance ||
-                          formatDistance(selectedRoute.distance)}
-                      </Text>
-                    </View>
-
-                    <View style={styles.routeTypeContainer}>
-                      <Text style={styles.routeType}>
-                        {selectedRoute.weight_name === "auto"
-                          ? "Recommandé"
-                          : selectedRoute.weight_name === "shortest"
-                          ? "Le plus court"
-                          : "Le plus rapide"}
-                      </Text>
-
-                      {/* Traffic indicator */}
-                      {routeFeatures?.["primary"]?.trafficLevel &&
-                        routeFeatures?.["primary"].trafficLevel !==
-                          "unknown" && (
-                          <View
-                            style={[
-                              styles.trafficBadge,
-                              routeFeatures?.["primary"].trafficLevel === "low"
-                                ? styles.trafficLow
-                                : routeFeatures?.["primary"].trafficLevel ===
-                                  "moderate"
-                                ? styles.trafficModerate
-                                : styles.trafficHeavy,
-                            ]}
-                          >
-                            <Text style={styles.trafficText}>
-                              {routeFeatures?.["primary"].trafficLevel === "low"
-                                ? "Fluide"
-                                : routeFeatures?.["primary"].trafficLevel ===
-                                  "moderate"
-                                ? "Modéré"
-                                : "Dense"}
-                            </Text>
-                          </View>
-                        )}
-                    </View>
-
-                    {/* Feature badges */}
-                    <View style={styles.featureBadges}>
-                      {routeFeatures?.["primary"]?.hasTolls && (
-                        <FeatureBadge
-                          icon="receipt"
-                          label="Péage"
-                          color="#FF9800"
-                        />
-                      )}
-
-                      {routeFeatures?.["primary"]?.hasHighways && (
-                        <FeatureBadge
-                          icon="road"
-                          label="Autoroute"
-                          color="#2196F3"
-                        />
-                      )}
-
-                      {routeFeatures?.["primary"]?.hasUnpavedRoads && (
-                        <FeatureBadge
-                          icon="truck-monster"
-                          label="Non pavé"
-                          color="#795548"
-                        />
-                      )}
-                    </View>
+                    <Text
+                      style={[
+                        styles.avoidAreaChipText,
+                        isActive && styles.avoidAreaChipTextActive,
+                      ]}
+                    >
+                      {area.name}
+                    </Text>
                   </TouchableOpacity>
-                )}
+                );
+              })}
+            </View>
+          )}
+
+          {crossedAvoidAreas.length > 0 && !loading && (
+            <View style={styles.incidentNotice}>
+              <FontAwesome5
+                name="exclamation-triangle"
+                size={12}
+                color="#f59e0b"
+              />
+              <Text style={styles.incidentText}>
+                {`Aucun itinéraire n'évite : ${crossedAvoidAreas
+                  .map((area) => area.name)
+                  .join(", ")}`}
+              </Text>
+            </View>
+          )}
+
+          {ignoredAvoidances.length > 0 && !loading && (
+            <View style={styles.incidentNotice}>
+              <FontAwesome5 name="info-circle" size={12} color="#f59e0b" />
+              <Text style={styles.incidentText}>
+                {`Non pris en charge par le service d'itinéraire : ${ignoredAvoidances.join(
+                  ", "
+                )}`}
+              </Text>
+            </View>
+          )}
+
+          {routeIncidentCount > 0 && onAvoidIncidents && !loading && (
+            <View style={styles.incidentNotice}>
+              <FontAwesome5 name="car-crash" size={12} color="#FF0000" />
+              <Text style={styles.incidentText}>
+                {routeIncidentCount > 1
+                  ? `${routeIncidentCount} incidents signalés sur l'itinéraire`
+                  : "1 incident signalé sur l'itinéraire"}
+              </Text>
+              <TouchableOpacity onPress={onAvoidIncidents}>
+                <Text style={styles.incidentAction}>Contourner</Text>
+              </TouchableOpacity>
+            </View>
+          )}
 
-                {alternateRoutes.map((route, index) => {
-                  // Get features for this route
-                  const features = routeFeatures?.[`alternate-${index}`];
+          {highlightedRoute && !loading && (
+            <TouchableOpacity
+              style={styles.stepsToggle}
+              onPress={() => setShowSteps(!showSteps)}
+            >
+              <FontAwesome5
+                name={showSteps ? "list-ul" : "directions"}
+                size={12}
+                color="#2196f3"
+              />
+              <Text style={styles.stepsToggleText}>
+                {showSteps ? "Voir les itinéraires" : "Voir les étapes"}
+              </Text>
+            </TouchableOpacity>
+          )}
 
-                  return (
+          {showSteps && highlightedRoute && !loading ? (
+            <StepsList
+              route={highlightedRoute}
+              arrivalTime={
+                getScheduledTripTimes(highlightedRoute, tripSchedule).arrival
+              }
+              maxHeight={300}
+            />
+          ) : (
+            <ScrollView style={styles.routesList}>
+              {loading ? (
+                <View style={styles.loadingContainer}>
+                  <ActivityIndicator
+                    size="large"
+                    color={Colors[colorScheme].tint}
+                  />
+                  <Text style={styles.loadingText}>
+                    Recherche des itinéraires...
+                  </Text>
+                </View>
+              ) : (
+                <>
+                  {selectedRoute && (
                     <TouchableOpacity
-                      key={`alternate-${index}`}
+                      key="primary-route"
                       style={[
                         styles.routeOption,
-                        selectedRouteIndex === index + 1 &&
-                          styles.selectedRoute,
+                        selectedRouteIndex === 0 && styles.selectedRoute,
                       ]}
-                      onPress={() => handleSelectRoute(index + 1)}
+                      onPress={() => handleSelectRoute(0)}
                     >
+                      {/* Primary route display */}
                       <View style={styles.routeDetails}>
                         <Text style={styles.routeDuration}>
-                          {features?.estimatedTime ||
-                            formatDuration(route.duration)}
+                          {routeFeatures?.["primary"]?.estimatedTime ||
+                            formatDuration(selectedRoute.duration)}
                         </Text>
                         <Text style={styles.routeDistance}>
-                          {features?.distance || formatDistance(route.distance)}
+                          {routeFeatures?.["primary"]?.distance ||
+                            formatDistance(selectedRoute.distance)}
                         </Text>
                       </View>
+                      {renderTripTimes(selectedRoute)}
 
                       <View style={styles.routeTypeContainer}>
                         <Text style={styles.routeType}>
-                          {route.weight_name === "auto"
-                            ? "Alternative"
-                            : route.weight_name === "shortest"
+                          {selectedRoute.weight_name === "auto"
+                            ? "Recommandé"
+                            : selectedRoute.weight_name === "shortest"
                             ? "Le plus court"
                             : "Le plus rapide"}
+                          {routeFeatures?.["primary"]?.viaLabel &&
+                            ` · ${routeFeatures["primary"].viaLabel}`}
                         </Text>
 
                         {/* Traffic indicator */}
-                        {features?.trafficLevel &&
-                          features.trafficLevel !== "unknown" && (
+                        {routeFeatures?.["primary"]?.trafficLevel &&
+                          routeFeatures?.["primary"].trafficLevel !==
+                            "unknown" && (
                             <View
                               style={[
                                 styles.trafficBadge,
-                                features.trafficLevel === "low"
+                                routeFeatures?.["primary"].trafficLevel === "low"
                                   ? styles.trafficLow
-                                  : features.trafficLevel === "moderate"
+                                  : routeFeatures?.["primary"].trafficLevel ===
+                                    "moderate"
                                   ? styles.trafficModerate
                                   : styles.trafficHeavy,
                               ]}
                             >
                               <Text style={styles.trafficText}>
-                                {features.trafficLevel === "low"
+                                {routeFeatures?.["primary"].trafficLevel === "low"
                                   ? "Fluide"
-                                  : features.trafficLevel === "moderate"
+                                  : routeFeatures?.["primary"].trafficLevel ===
+                                    "moderate"
                                   ? "Modéré"
                                   : "Dense"}
                               </Text>
@@ -551,46 +802,87 @@ const SearchAndRouteControl: React.FC<SearchAndRouteControlProps> = ({
                           )}
                       </View>
 
-                      {/* Features badges */}
-                      <View style={styles.featureBadges}>
-                        {features?.hasTolls && (
-                          <FeatureBadge
-                            icon="receipt"
-                            label="Péage"
-                            color="#FF9800"
-                          />
-                        )}
-
-                        {features?.hasHighways && (
-                          <FeatureBadge
-                            icon="road"
-                            label="Autoroute"
-                            color="#2196F3"
-                          />
-                        )}
-
-                        {features?.hasUnpavedRoads && (
-                          <FeatureBadge
-                            icon="truck-monster"
-                            label="Non pavé"
-                            color="#795548"
-                          />
-                        )}
-                      </View>
+                      {renderFeatureBadges(routeFeatures?.["primary"])}
                     </TouchableOpacity>
-                  );
-                })}
-              </>
-            )}
-          </ScrollView>
-          {(selectedRoute || alternateRoutes.length > 0) && (
-            <View style={styles.trafficInfo}>
-              <FontAwesome5 name="info-circle" size={14} color="#4285F4" />
-              <Text style={styles.trafficInfoText}>
-                Les temps de trajet incluent le trafic en temps réel
-              </Text>
-            </View>
+                  )}
+
+                  {alternateRoutes.map((route, index) => {
+                    // Get features for this route
+                    const features = routeFeatures?.[`alternate-${index}`];
+
+                    return (
+                      <TouchableOpacity
+                        key={`alternate-${index}`}
+                        style={[
+                          styles.routeOption,
+                          selectedRouteIndex === index + 1 &&
+                            styles.selectedRoute,
+                        ]}
+                        onPress={() => handleSelectRoute(index + 1)}
+                      >
+                        <View style={styles.routeDetails}>
+                          <Text style={styles.routeDuration}>
+                            {features?.estimatedTime ||
+                              formatDuration(route.duration)}
+                          </Text>
+                          <Text style={styles.routeDistance}>
+                            {features?.distance || formatDistance(route.distance)}
+                          </Text>
+                        </View>
+                        {renderTripTimes(route)}
+
+                        <View style={styles.routeTypeContainer}>
+                          <Text style={styles.routeType}>
+                            {route.weight_name === "auto"
+                              ? "Alternative"
+                              : route.weight_name === "shortest"
+                              ? "Le plus court"
+                              : "Le plus rapide"}
+                            {features?.viaLabel && ` · ${features.viaLabel}`}
+                          </Text>
+
+                          {/* Traffic indicator */}
+                          {features?.trafficLevel &&
+                            features.trafficLevel !== "unknown" && (
+                              <View
+                                style={[
+                                  styles.trafficBadge,
+                                  features.trafficLevel === "low"
+                                    ? styles.trafficLow
+                                    : features.trafficLevel === "moderate"
+                                    ? styles.trafficModerate
+                                    : styles.trafficHeavy,
+                                ]}
+                              >
+                                <Text style={styles.trafficText}>
+                                  {features.trafficLevel === "low"
+                                    ? "Fluide"
+                                    : features.trafficLevel === "moderate"
+                                    ? "Modéré"
+                                    : "Dense"}
+                                </Text>
+                              </View>
+                            )}
+                        </View>
+
+                        {renderFeatureBadges(features)}
+                      </TouchableOpacity>
+                    );
+                  })}
+                </>
+              )}
+            </ScrollView>
           )}
+          {routingProfile === "driving-traffic" &&
+            tripSchedule?.mode !== "arrive_by" &&
+            (selectedRoute || alternateRoutes.length > 0) && (
+              <View style={styles.trafficInfo}>
+                <FontAwesome5 name="info-circle" size={14} color="#4285F4" />
+                <Text style={styles.trafficInfoText}>
+                  Les temps de trajet incluent le trafic en temps réel
+                </Text>
+              </View>
+            )}
           <View style={styles.actionButtons}>
             <TouchableOpacity
               style={styles.startNavigationButton}
@@ -706,6 +998,119 @@ const styles = StyleSheet.create({
   routesList: {
     maxHeight: 300,
   },
+  stepsToggle: {
+    flexDirection: "row",
+    alignItems: "center",
+    alignSelf: "flex-end",
+    paddingVertical: 4,
+    marginBottom: 8,
+  },
+  stepsToggleText: {
+    fontSize: 13,
+    color: "#2196f3",
+    marginLeft: 6,
+  },
+  incidentNotice: {
+    flexDirection: "row",
+    alignItems: "center",
+    backgroundColor: "#fff1f0",
+    borderRadius: 8,
+    paddingHorizontal: 10,
+    paddingVertical: 8,
+    marginBottom: 8,
+  },
+  incidentText: {
+    flex: 1,
+    fontSize: 13,
+    color: "#333",
+    marginLeft: 8,
+  },
+  avoidAreasRow: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    alignItems: "center",
+    marginBottom: 8,
+  },
+  avoidAreasLabel: {
+    fontSize: 13,
+    color: "#666",
+    marginRight: 6,
+  },
+  avoidAreaChip: {
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: "#e0e0e0",
+    marginRight: 6,
+    marginVertical: 2,
+  },
+  avoidAreaChipActive: {
+    backgroundColor: "#ef4444",
+    borderColor: "#ef4444",
+  },
+  avoidAreaChipText: {
+    fontSize: 12,
+    color: "#333",
+  },
+  avoidAreaChipTextActive: {
+    color: "white",
+  },
+  incidentAction: {
+    fontSize: 13,
+    fontWeight: "600",
+    color: "#2196f3",
+  },
+  stopsContainer: {
+    marginBottom: 12,
+  },
+  stopItem: {
+    flexDirection: "row",
+    alignItems: "center",
+    paddingVertical: 6,
+  },
+  stopIndex: {
+    width: 22,
+    height: 22,
+    borderRadius: 11,
+    backgroundColor: "#f97316",
+    justifyContent: "center",
+    alignItems: "center",
+    marginRight: 8,
+  },
+  stopIndexText: {
+    color: "#fff",
+    fontSize: 11,
+    fontWeight: "bold",
+  },
+  stopName: {
+    flex: 1,
+    fontSize: 14,
+    color: "#333",
+  },
+  stopRemoveButton: {
+    padding: 6,
+  },
+  stopActions: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+  },
+  addStopButton: {
+    flexDirection: "row",
+    alignItems: "center",
+    paddingVertical: 6,
+  },
+  stopOrderSavingsText: {
+    fontSize: 12,
+    color: "#4CAF50",
+    marginTop: 4,
+  },
+  addStopText: {
+    marginLeft: 8,
+    fontSize: 14,
+    color: "#2196f3",
+    fontWeight: "600",
+  },
   routeOption: {
     padding: 16,
     backgroundColor: "#f5f5f5",
@@ -783,6 +1188,18 @@ const styles = StyleSheet.create({
     color: "#555",
     fontSize: 16,
   },
+  tripTimes: {
+    marginBottom: 8,
+  },
+  tripTimesText: {
+    fontSize: 13,
+    color: "#333",
+  },
+  typicalDurationText: {
+    fontSize: 12,
+    color: "#777",
+    marginTop: 2,
+  },
   featureBadges: {
     flexDirection: "row",
     flexWrap: "wrap",
@@ -0,0 +1,106 @@
+import React from "react";
+import { View, Text, StyleSheet } from "react-native";
+
+interface SpeedIndicatorProps {
+  currentSpeed: number | null; // km/h
+  speedLimit: number | null; // km/h
+  isOverSpeedLimit: boolean;
+}
+
+/**
+ * Current speed next to the posted speed limit sign, turns red when speeding
+ */
+const SpeedIndicator: React.FC<SpeedIndicatorProps> = ({
+  currentSpeed,
+  speedLimit,
+  isOverSpeedLimit,
+}) => {
+  if (currentSpeed === null && speedLimit === null) return null;
+
+  return (
+    <View style={styles.container}>
+      {currentSpeed !== null && (
+        <View
+          style={[styles.speedometer, isOverSpeedLimit && styles.overSpeed]}
+        >
+          <Text
+            style={[
+              styles.speedValue,
+              isOverSpeedLimit && styles.overSpeedText,
+            ]}
+          >
+            {Math.round(currentSpeed)}
+          </Text>
+          <Text
+            style={[styles.speedUnit, isOverSpeedLimit && styles.overSpeedText]}
+          >
+            km/h
+          </Text>
+        </View>
+      )}
+      {speedLimit !== null && (
+        <View style={styles.limitSign}>
+          <Text style={styles.limitValue}>{speedLimit}</Text>
+        </View>
+      )}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flexDirection: "row",
+    alignItems: "center",
+    marginLeft: 16,
+    marginBottom: 8,
+  },
+  speedometer: {
+    width: 56,
+    height: 56,
+    borderRadius: 28,
+    backgroundColor: "white",
+    justifyContent: "center",
+    alignItems: "center",
+    marginRight: 8,
+    shadowColor: "#000",
+    shadowOffset: {
+      width: 0,
+      height: 2,
+    },
+    shadowOpacity: 0.1,
+    shadowRadius: 4,
+    elevation: 3,
+  },
+  overSpeed: {
+    backgroundColor: "#ef4444",
+  },
+  speedValue: {
+    fontSize: 20,
+    fontWeight: "bold",
+    color: "#333",
+  },
+  speedUnit: {
+    fontSize: 10,
+    color: "#666",
+  },
+  overSpeedText: {
+    color: "#fff",
+  },
+  limitSign: {
+    width: 48,
+    height: 48,
+    borderRadius: 24,
+    borderWidth: 5,
+    borderColor: "#dc2626",
+    backgroundColor: "white",
+    justifyContent: "center",
+    alignItems: "center",
+  },
+  limitValue: {
+    fontSize: 17,
+    fontWeight: "bold",
+    color: "#111",
+  },
+});
+
+export default SpeedIndicator;
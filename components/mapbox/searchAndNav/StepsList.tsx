@@ -0,0 +1,118 @@
+import React, { useMemo } from "react";
+import { View, Text, StyleSheet, ScrollView } from "react-native";
+import { Route } from "@/types/mapbox";
+import { getStepTimeline } from "@/hooks/routing/utils/routeAnalysis";
+import {
+  formatClockTime,
+  formatDistance,
+} from "@/hooks/routing/utils/formatters";
+import ManeuverIcon from "./ManeuverIcon";
+
+interface StepsListProps {
+  route: Route;
+  arrivalTime: Date; // Arrival at the destination, each step's time is counted back from it
+  fromStepIndex?: number; // First step to list, the next maneuver during navigation
+  maxHeight?: number;
+}
+
+/**
+ * Turn-by-turn list of a route's steps with their distance, road and time
+ */
+const StepsList: React.FC<StepsListProps> = ({
+  route,
+  arrivalTime,
+  fromStepIndex = 0,
+  maxHeight = 260,
+}) => {
+  const timeline = useMemo(
+    () => getStepTimeline(route, arrivalTime, fromStepIndex),
+    [route, arrivalTime, fromStepIndex]
+  );
+
+  if (timeline.length === 0) return null;
+
+  return (
+    <ScrollView style={[styles.container, { maxHeight }]}>
+      {timeline.map(({ step, stepIndex, maneuverTime }) => {
+        const roadLabel = [step.name, step.ref].filter(Boolean).join(" · ");
+        return (
+          <View key={stepIndex} style={styles.stepRow}>
+            <View style={styles.stepIcon}>
+              <ManeuverIcon maneuver={step.maneuver} size={16} />
+            </View>
+            <View style={styles.stepInfo}>
+              <Text style={styles.stepInstruction}>
+                {step.maneuver.instruction}
+              </Text>
+              {roadLabel !== "" && (
+                <Text style={styles.stepRoad}>{roadLabel}</Text>
+              )}
+            </View>
+            <View style={styles.stepMetrics}>
+              {step.distance > 0 && (
+                <Text style={styles.stepDistance}>
+                  {formatDistance(step.distance)}
+                </Text>
+              )}
+              <Text style={styles.stepTime}>
+                {formatClockTime(maneuverTime)}
+              </Text>
+            </View>
+          </View>
+        );
+      })}
+    </ScrollView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    backgroundColor: "white",
+    borderRadius: 12,
+  },
+  stepRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    paddingVertical: 10,
+    paddingHorizontal: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: "#f0f0f0",
+  },
+  stepIcon: {
+    width: 32,
+    height: 32,
+    borderRadius: 16,
+    backgroundColor: "#e6f0ff",
+    justifyContent: "center",
+    alignItems: "center",
+    marginRight: 12,
+  },
+  stepInfo: {
+    flex: 1,
+  },
+  stepInstruction: {
+    fontSize: 14,
+    color: "#333",
+  },
+  stepRoad: {
+    fontSize: 12,
+    color: "#777",
+    marginTop: 2,
+  },
+  stepMetrics: {
+    alignItems: "flex-end",
+    marginLeft: 8,
+  },
+  stepDistance: {
+    fontSize: 13,
+    fontWeight: "600",
+    color: "#333",
+  },
+  stepTime: {
+    fontSize: 12,
+    color: "#777",
+    marginTop: 2,
+  },
+});
+
+export default StepsList;
@@ -0,0 +1,196 @@
+import React from "react";
+import { View, Text, StyleSheet, TouchableOpacity } from "react-native";
+import { FontAwesome5 } from "@expo/vector-icons";
+import { TripSchedule } from "@/hooks/routing/utils/types";
+import { SCHEDULE_STEP_MINUTES } from "@/hooks/routing/utils/constants";
+import { formatClockTime } from "@/hooks/routing/utils/formatters";
+
+const STEP_MS = SCHEDULE_STEP_MINUTES * 60 * 1000;
+
+type ScheduleOption = "now" | TripSchedule["mode"];
+
+const SCHEDULE_OPTIONS: { id: ScheduleOption; label: string }[] = [
+  { id: "now", label: "Maintenant" },
+  { id: "depart_at", label: "Partir à" },
+  { id: "arrive_by", label: "Arriver à" },
+];
+
+interface TripScheduleSelectorProps {
+  schedule: TripSchedule | null;
+  onChange: (schedule: TripSchedule | null) => void;
+  onSaveReminder?: () => void; // Offered for arrival times, schedules a departure reminder
+}
+
+/**
+ * Next multiple of the schedule step after now
+ */
+const getNextSlot = (): Date =>
+  new Date(Math.ceil((Date.now() + 1) / STEP_MS) * STEP_MS);
+
+const TripScheduleSelector: React.FC<TripScheduleSelectorProps> = ({
+  schedule,
+  onChange,
+  onSaveReminder,
+}) => {
+  const selectedOption: ScheduleOption = schedule ? schedule.mode : "now";
+
+  const handleSelectOption = (option: ScheduleOption) => {
+    if (option === "now") {
+      onChange(null);
+      return;
+    }
+    onChange({ mode: option, time: schedule?.time || getNextSlot() });
+  };
+
+  const handleStep = (direction: 1 | -1) => {
+    if (!schedule) return;
+    const time = new Date(schedule.time.getTime() + direction * STEP_MS);
+    // Scheduled trips are always in the future
+    if (time.getTime() < Date.now()) return;
+    onChange({ ...schedule, time });
+  };
+
+  const isTomorrowOrLater =
+    schedule !== null &&
+    schedule.time.toDateString() !== new Date().toDateString();
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.optionRow}>
+        {SCHEDULE_OPTIONS.map((option) => (
+          <TouchableOpacity
+            key={option.id}
+            style={[
+              styles.option,
+              selectedOption === option.id && styles.selectedOption,
+            ]}
+            onPress={() => handleSelectOption(option.id)}
+          >
+            <Text
+              style={[
+                styles.optionText,
+                selectedOption === option.id && styles.selectedOptionText,
+              ]}
+            >
+              {option.label}
+            </Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+
+      {schedule && (
+        <View style={styles.stepper}>
+          <TouchableOpacity
+            style={styles.stepButton}
+            onPress={() => handleStep(-1)}
+          >
+            <FontAwesome5 name="minus" size={12} color="#2196f3" />
+          </TouchableOpacity>
+          <Text style={styles.timeText}>
+            {isTomorrowOrLater
+              ? `${schedule.time.toLocaleDateString([], {
+                  weekday: "short",
+                  day: "numeric",
+                })} ${formatClockTime(schedule.time)}`
+              : formatClockTime(schedule.time)}
+          </Text>
+          <TouchableOpacity
+            style={styles.stepButton}
+            onPress={() => handleStep(1)}
+          >
+            <FontAwesome5 name="plus" size={12} color="#2196f3" />
+          </TouchableOpacity>
+        </View>
+      )}
+      {schedule?.mode === "arrive_by" && (
+        <Text style={styles.hintText}>
+          Estimation basée sur le trafic habituel
+        </Text>
+      )}
+      {schedule?.mode === "arrive_by" && onSaveReminder && (
+        <TouchableOpacity
+          style={styles.reminderButton}
+          onPress={onSaveReminder}
+        >
+          <FontAwesome5 name="bell" size={12} color="#2196f3" />
+          <Text style={styles.reminderButtonText}>Me rappeler de partir</Text>
+        </TouchableOpacity>
+      )}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    marginBottom: 12,
+  },
+  optionRow: {
+    flexDirection: "row",
+    backgroundColor: "#f5f5f5",
+    borderRadius: 8,
+    padding: 2,
+  },
+  option: {
+    flex: 1,
+    paddingVertical: 6,
+    alignItems: "center",
+    borderRadius: 6,
+  },
+  selectedOption: {
+    backgroundColor: "#2196f3",
+  },
+  optionText: {
+    fontSize: 13,
+    color: "#555",
+  },
+  selectedOptionText: {
+    color: "#fff",
+    fontWeight: "600",
+  },
+  stepper: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "center",
+    marginTop: 8,
+  },
+  stepButton: {
+    width: 32,
+    height: 32,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: "#2196f3",
+    justifyContent: "center",
+    alignItems: "center",
+  },
+  timeText: {
+    fontSize: 16,
+    fontWeight: "bold",
+    marginHorizontal: 16,
+    minWidth: 60,
+    textAlign: "center",
+  },
+  reminderButton: {
+    flexDirection: "row",
+    alignItems: "center",
+    alignSelf: "center",
+    marginTop: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: "#2196f3",
+  },
+  reminderButtonText: {
+    fontSize: 13,
+    color: "#2196f3",
+    marginLeft: 6,
+  },
+  hintText: {
+    fontSize: 12,
+    color: "#777",
+    textAlign: "center",
+    marginTop: 4,
+  },
+});
+
+export default TripScheduleSelector;
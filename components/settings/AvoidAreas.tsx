@@ -0,0 +1,125 @@
+import React from "react";
+import { View, Text, StyleSheet, Switch, TouchableOpacity } from "react-native";
+import { FontAwesome5 } from "@expo/vector-icons";
+import { Colors } from "@/constants/Colors";
+import { useColorScheme } from "@/hooks/useColorScheme";
+import { AvoidArea } from "@/types/api";
+import { formatDistance } from "@/hooks/routing/utils/formatters";
+
+interface AvoidAreasProps {
+  areas: AvoidArea[];
+  onToggleArea: (id: string, enabled: boolean) => void;
+  onRemoveArea: (id: string) => void;
+  onDrawArea: () => void;
+}
+
+/**
+ * Zones saved by the user, applied to every trip while enabled
+ */
+const AvoidAreas: React.FC<AvoidAreasProps> = ({
+  areas,
+  onToggleArea,
+  onRemoveArea,
+  onDrawArea,
+}) => {
+  const colorScheme = useColorScheme() ?? "light";
+
+  return (
+    <View style={styles.container}>
+      <Text style={[styles.title, { color: Colors[colorScheme].text }]}>
+        Zones à éviter
+      </Text>
+
+      {areas.map((area) => (
+        <View key={area.id} style={styles.areaItem}>
+          <FontAwesome5
+            name={area.shape === "circle" ? "circle" : "draw-polygon"}
+            size={14}
+            color="#ef4444"
+          />
+          <View style={styles.areaInfo}>
+            <Text
+              style={[styles.areaLabel, { color: Colors[colorScheme].text }]}
+            >
+              {area.name}
+            </Text>
+            <Text style={styles.areaDetail}>
+              {area.shape === "circle" && area.radius
+                ? `Cercle de ${formatDistance(area.radius)}`
+                : `Zone de ${area.coordinates.length} points`}
+            </Text>
+          </View>
+          <Switch
+            trackColor={{ false: "#767577", true: Colors[colorScheme].tint }}
+            thumbColor="#f4f3f4"
+            ios_backgroundColor="#3e3e3e"
+            onValueChange={(value) => onToggleArea(area.id, value)}
+            value={area.enabled}
+          />
+          <TouchableOpacity
+            style={styles.removeButton}
+            onPress={() => onRemoveArea(area.id)}
+          >
+            <FontAwesome5 name="trash-alt" size={14} color="#ef4444" />
+          </TouchableOpacity>
+        </View>
+      ))}
+
+      <TouchableOpacity style={styles.drawButton} onPress={onDrawArea}>
+        <FontAwesome5
+          name="plus-circle"
+          size={14}
+          color={Colors[colorScheme].tint}
+        />
+        <Text style={[styles.drawText, { color: Colors[colorScheme].tint }]}>
+          Dessiner une zone sur la carte
+        </Text>
+      </TouchableOpacity>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    padding: 16,
+  },
+  title: {
+    fontSize: 22,
+    fontWeight: "bold",
+    marginBottom: 16,
+  },
+  areaItem: {
+    flexDirection: "row",
+    alignItems: "center",
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: "#e0e0e0",
+  },
+  areaInfo: {
+    flex: 1,
+    marginLeft: 12,
+  },
+  areaLabel: {
+    fontSize: 15,
+  },
+  areaDetail: {
+    fontSize: 13,
+    color: "#888",
+    marginTop: 2,
+  },
+  removeButton: {
+    padding: 8,
+    marginLeft: 4,
+  },
+  drawButton: {
+    flexDirection: "row",
+    alignItems: "center",
+    paddingVertical: 12,
+  },
+  drawText: {
+    fontSize: 15,
+    marginLeft: 8,
+  },
+});
+
+export default AvoidAreas;
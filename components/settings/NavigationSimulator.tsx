@@ -0,0 +1,101 @@
+import React from "react";
+import { View, Text, StyleSheet, TouchableOpacity } from "react-native";
+import { Colors } from "@/constants/Colors";
+import { useColorScheme } from "@/hooks/useColorScheme";
+import { SIMULATION_SPEED_OPTIONS } from "@/hooks/routing/utils/constants";
+
+interface NavigationSimulatorProps {
+  simulationSpeed: number | null; // km/h, null when trips use the GPS
+  onSelectSimulationSpeed: (speed: number | null) => void;
+}
+
+/**
+ * Developer menu: drive the next trips along the route at a fixed speed, without moving
+ */
+const NavigationSimulator: React.FC<NavigationSimulatorProps> = ({
+  simulationSpeed,
+  onSelectSimulationSpeed,
+}) => {
+  const colorScheme = useColorScheme() ?? "light";
+  const options: { speed: number | null; label: string }[] = [
+    { speed: null, label: "GPS" },
+    ...SIMULATION_SPEED_OPTIONS.map((speed) => ({
+      speed,
+      label: `${speed} km/h`,
+    })),
+  ];
+
+  return (
+    <View style={styles.container}>
+      <Text style={[styles.title, { color: Colors[colorScheme].text }]}>
+        Simulation de trajet
+      </Text>
+      <View style={styles.speedRow}>
+        {options.map((option) => {
+          const isSelected = option.speed === simulationSpeed;
+          return (
+            <TouchableOpacity
+              key={option.label}
+              style={[
+                styles.speedOption,
+                isSelected && {
+                  backgroundColor: Colors[colorScheme].tint,
+                  borderColor: Colors[colorScheme].tint,
+                },
+              ]}
+              onPress={() => onSelectSimulationSpeed(option.speed)}
+            >
+              <Text
+                style={[
+                  styles.speedLabel,
+                  { color: isSelected ? "#fff" : Colors[colorScheme].text },
+                ]}
+              >
+                {option.label}
+              </Text>
+            </TouchableOpacity>
+          );
+        })}
+      </View>
+      <Text style={styles.note}>
+        La position suit l'itinéraire à la vitesse choisie dès le démarrage de
+        la navigation.
+      </Text>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    padding: 16,
+  },
+  title: {
+    fontSize: 22,
+    fontWeight: "bold",
+    marginBottom: 16,
+  },
+  speedRow: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    marginBottom: 8,
+  },
+  speedOption: {
+    flex: 1,
+    alignItems: "center",
+    paddingVertical: 8,
+    marginHorizontal: 2,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: "#e0e0e0",
+  },
+  speedLabel: {
+    fontSize: 11,
+    textAlign: "center",
+  },
+  note: {
+    fontSize: 12,
+    color: "#888",
+  },
+});
+
+export default NavigationSimulator;
@@ -0,0 +1,210 @@
+import React, { useEffect, useState } from "react";
+import {
+  View,
+  Text,
+  StyleSheet,
+  Switch,
+  TouchableOpacity,
+  Share,
+} from "react-native";
+import { FontAwesome5 } from "@expo/vector-icons";
+import { Colors } from "@/constants/Colors";
+import { useColorScheme } from "@/hooks/useColorScheme";
+import traceRecorder from "@/utils/traceRecorder";
+import { NavigationTrace } from "@/hooks/routing/utils/types";
+import {
+  traceToGeoJSON,
+  traceToGPX,
+} from "@/hooks/routing/utils/navigationTrace";
+import {
+  formatClockTime,
+  formatDuration,
+} from "@/hooks/routing/utils/formatters";
+
+/**
+ * Send a trace to another app, e.g. by email to report a navigation problem
+ */
+const shareTrace = async (
+  trace: NavigationTrace,
+  format: "gpx" | "geojson"
+) => {
+  try {
+    await Share.share({
+      title: `Trace de navigation ${trace.id}.${format}`,
+      message:
+        format === "gpx"
+          ? traceToGPX(trace)
+          : JSON.stringify(traceToGeoJSON(trace)),
+    });
+  } catch (error) {
+    console.error("Failed to share navigation trace:", error);
+  }
+};
+
+/**
+ * Recording of the trips for debugging, with the saved traces to export
+ */
+const NavigationTraces: React.FC = () => {
+  const colorScheme = useColorScheme() ?? "light";
+  const [enabled, setEnabled] = useState(traceRecorder.isEnabled());
+  const [traces, setTraces] = useState<NavigationTrace[]>(
+    traceRecorder.getTraces()
+  );
+
+  useEffect(() => {
+    traceRecorder.on("enabledChanged", setEnabled);
+    traceRecorder.on("tracesChanged", setTraces);
+    return () => {
+      traceRecorder.off("enabledChanged", setEnabled);
+      traceRecorder.off("tracesChanged", setTraces);
+    };
+  }, []);
+
+  return (
+    <View style={styles.container}>
+      <Text style={[styles.title, { color: Colors[colorScheme].text }]}>
+        Traces de navigation
+      </Text>
+
+      <View style={styles.recordItem}>
+        <View style={styles.recordInfo}>
+          <Text
+            style={[styles.recordLabel, { color: Colors[colorScheme].text }]}
+          >
+            Enregistrer les trajets
+          </Text>
+          <Text style={styles.recordHint}>
+            Positions GPS et événements de guidage, pour signaler un problème
+          </Text>
+        </View>
+        <Switch
+          trackColor={{ false: "#767577", true: Colors[colorScheme].tint }}
+          thumbColor="#f4f3f4"
+          ios_backgroundColor="#3e3e3e"
+          onValueChange={(value) => traceRecorder.setEnabled(value)}
+          value={enabled}
+        />
+      </View>
+
+      {traces.map((trace) => {
+        const startedAt = new Date(trace.startedAt);
+        const reroutes = Math.max(0, trace.routes.length - 1);
+        return (
+          <View key={trace.id} style={styles.traceItem}>
+            <FontAwesome5
+              name="route"
+              size={14}
+              color={Colors[colorScheme].tint}
+            />
+            <View style={styles.traceInfo}>
+              <Text
+                style={[styles.traceLabel, { color: Colors[colorScheme].text }]}
+              >
+                {`${startedAt.toLocaleDateString([], {
+                  weekday: "short",
+                  day: "numeric",
+                })} ${formatClockTime(startedAt)}`}
+              </Text>
+              <Text style={styles.traceDetail}>
+                {`${formatDuration(
+                  ((trace.endedAt ?? trace.startedAt) - trace.startedAt) / 1000
+                )} · ${trace.fixes.length} positions · ${reroutes} recalcul${
+                  reroutes > 1 ? "s" : ""
+                }`}
+              </Text>
+            </View>
+            <TouchableOpacity
+              style={styles.exportButton}
+              onPress={() => shareTrace(trace, "gpx")}
+            >
+              <Text
+                style={[styles.exportText, { color: Colors[colorScheme].tint }]}
+              >
+                GPX
+              </Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={styles.exportButton}
+              onPress={() => shareTrace(trace, "geojson")}
+            >
+              <Text
+                style={[styles.exportText, { color: Colors[colorScheme].tint }]}
+              >
+                GeoJSON
+              </Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={styles.removeButton}
+              onPress={() => traceRecorder.removeTrace(trace.id)}
+            >
+              <FontAwesome5 name="trash-alt" size={14} color="#ef4444" />
+            </TouchableOpacity>
+          </View>
+        );
+      })}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    padding: 16,
+  },
+  title: {
+    fontSize: 22,
+    fontWeight: "bold",
+    marginBottom: 16,
+  },
+  recordItem: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: "#e0e0e0",
+  },
+  recordInfo: {
+    flex: 1,
+    marginRight: 8,
+  },
+  recordLabel: {
+    fontSize: 16,
+  },
+  recordHint: {
+    fontSize: 12,
+    color: "#888",
+    marginTop: 2,
+  },
+  traceItem: {
+    flexDirection: "row",
+    alignItems: "center",
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: "#e0e0e0",
+  },
+  traceInfo: {
+    flex: 1,
+    marginLeft: 12,
+  },
+  traceLabel: {
+    fontSize: 15,
+  },
+  traceDetail: {
+    fontSize: 13,
+    color: "#888",
+    marginTop: 2,
+  },
+  exportButton: {
+    paddingHorizontal: 6,
+    paddingVertical: 8,
+  },
+  exportText: {
+    fontSize: 13,
+    fontWeight: "600",
+  },
+  removeButton: {
+    padding: 8,
+  },
+});
+
+export default NavigationTraces;
@@ -1,24 +1,44 @@
 import React from "react";
-import { View, Text, StyleSheet, Switch } from "react-native";
+import { View, Text, StyleSheet, Switch, TouchableOpacity } from "react-native";
+import { FontAwesome5 } from "@expo/vector-icons";
 import { Colors } from "@/constants/Colors";
 import { useColorScheme } from "@/hooks/useColorScheme";
+import { RoutingProfile } from "@/types/api";
 
 export interface RoutingPreference {
   id: string;
   label: string;
   enabled: boolean;
+  hint?: string; // Shown under the label, e.g. when the option is not always applied
 }
 
+const ROUTING_PROFILE_OPTIONS: {
+  id: RoutingProfile;
+  label: string;
+  icon: string;
+}[] = [
+  { id: "driving-traffic", label: "Voiture (trafic)", icon: "traffic-light" },
+  { id: "driving", label: "Voiture", icon: "car" },
+  { id: "cycling", label: "Vélo", icon: "bicycle" },
+  { id: "walking", label: "À pied", icon: "walking" },
+];
+
 interface RoutingPreferencesProps {
   preferences: RoutingPreference[];
   onToggle: (id: string, value: boolean) => void;
+  routingProfile: RoutingProfile;
+  onSelectProfile: (profile: RoutingProfile) => void;
 }
 
 const RoutingPreferences: React.FC<RoutingPreferencesProps> = ({
   preferences,
   onToggle,
+  routingProfile,
+  onSelectProfile,
 }) => {
   const colorScheme = useColorScheme() ?? "light";
+  const isDriving =
+    routingProfile === "driving" || routingProfile === "driving-traffic";
 
   return (
     <View style={styles.container}>
@@ -26,16 +46,64 @@ const RoutingPreferences: React.FC<RoutingPreferencesProps> = ({
         Préférences d'itinéraire
       </Text>
 
+      <Text
+        style={[styles.sectionLabel, { color: Colors[colorScheme].text }]}
+      >
+        Mode de déplacement
+      </Text>
+      <View style={styles.profileRow}>
+        {ROUTING_PROFILE_OPTIONS.map((option) => {
+          const isSelected = option.id === routingProfile;
+          return (
+            <TouchableOpacity
+              key={option.id}
+              style={[
+                styles.profileOption,
+                isSelected && {
+                  backgroundColor: Colors[colorScheme].tint,
+                  borderColor: Colors[colorScheme].tint,
+                },
+              ]}
+              onPress={() => onSelectProfile(option.id)}
+            >
+              <FontAwesome5
+                name={option.icon}
+                size={18}
+                color={isSelected ? "#fff" : Colors[colorScheme].text}
+              />
+              <Text
+                style={[
+                  styles.profileLabel,
+                  { color: isSelected ? "#fff" : Colors[colorScheme].text },
+                ]}
+              >
+                {option.label}
+              </Text>
+            </TouchableOpacity>
+          );
+        })}
+      </View>
+      {!isDriving && (
+        <Text style={styles.profileNote}>
+          Seules les options compatibles avec ce mode sont appliquées.
+        </Text>
+      )}
+
       {preferences.map((preference) => (
         <View key={preference.id} style={styles.preferenceItem}>
-          <Text
-            style={[
-              styles.preferenceLabel,
-              { color: Colors[colorScheme].text },
-            ]}
-          >
-            {preference.label}
-          </Text>
+          <View style={styles.preferenceInfo}>
+            <Text
+              style={[
+                styles.preferenceLabel,
+                { color: Colors[colorScheme].text },
+              ]}
+            >
+              {preference.label}
+            </Text>
+            {preference.hint && (
+              <Text style={styles.preferenceHint}>{preference.hint}</Text>
+            )}
+          </View>
           <Switch
             trackColor={{ false: "#767577", true: Colors[colorScheme].tint }}
             thumbColor="#f4f3f4"
@@ -66,9 +134,47 @@ const styles = StyleSheet.create({
     borderBottomWidth: 1,
     borderBottomColor: "#e0e0e0",
   },
+  preferenceInfo: {
+    flex: 1,
+    marginRight: 8,
+  },
   preferenceLabel: {
     fontSize: 16,
   },
+  preferenceHint: {
+    fontSize: 12,
+    color: "#888",
+    marginTop: 2,
+  },
+  sectionLabel: {
+    fontSize: 16,
+    fontWeight: "600",
+    marginBottom: 8,
+  },
+  profileRow: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    marginBottom: 8,
+  },
+  profileOption: {
+    flex: 1,
+    alignItems: "center",
+    paddingVertical: 8,
+    marginHorizontal: 2,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: "#e0e0e0",
+  },
+  profileLabel: {
+    fontSize: 11,
+    marginTop: 4,
+    textAlign: "center",
+  },
+  profileNote: {
+    fontSize: 12,
+    color: "#888",
+    marginBottom: 8,
+  },
 });
 
 export default RoutingPreferences;
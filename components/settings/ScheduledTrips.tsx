@@ -0,0 +1,96 @@
+import React from "react";
+import { View, Text, StyleSheet, TouchableOpacity } from "react-native";
+import { FontAwesome5 } from "@expo/vector-icons";
+import { Colors } from "@/constants/Colors";
+import { useColorScheme } from "@/hooks/useColorScheme";
+import { useDepartureReminders } from "@/providers/DepartureReminderProvider";
+import { formatClockTime } from "@/hooks/routing/utils/formatters";
+
+/**
+ * Lists the trips with a departure reminder and lets the user delete them
+ */
+const ScheduledTrips: React.FC = () => {
+  const { scheduledTrips, removeScheduledTrip } = useDepartureReminders();
+  const colorScheme = useColorScheme() ?? "light";
+
+  if (scheduledTrips.length === 0) return null;
+
+  return (
+    <View style={styles.container}>
+      <Text style={[styles.title, { color: Colors[colorScheme].text }]}>
+        Trajets programmés
+      </Text>
+
+      {scheduledTrips.map((trip) => {
+        const arrival = new Date(trip.arriveBy);
+        return (
+          <View key={trip.id} style={styles.tripItem}>
+            <FontAwesome5
+              name="bell"
+              size={14}
+              color={Colors[colorScheme].tint}
+            />
+            <View style={styles.tripInfo}>
+              <Text
+                style={[styles.tripLabel, { color: Colors[colorScheme].text }]}
+              >
+                {`${trip.destinationName || "Destination"} · arrivée ${arrival.toLocaleDateString(
+                  [],
+                  { weekday: "short", day: "numeric" }
+                )} ${formatClockTime(arrival)}`}
+              </Text>
+              {trip.departureTime !== null && (
+                <Text style={styles.tripDeparture}>
+                  {`Départ conseillé à ${formatClockTime(
+                    new Date(trip.departureTime)
+                  )}`}
+                </Text>
+              )}
+            </View>
+            <TouchableOpacity
+              style={styles.removeButton}
+              onPress={() => removeScheduledTrip(trip.id)}
+            >
+              <FontAwesome5 name="trash-alt" size={14} color="#ef4444" />
+            </TouchableOpacity>
+          </View>
+        );
+      })}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    padding: 16,
+  },
+  title: {
+    fontSize: 22,
+    fontWeight: "bold",
+    marginBottom: 16,
+  },
+  tripItem: {
+    flexDirection: "row",
+    alignItems: "center",
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: "#e0e0e0",
+  },
+  tripInfo: {
+    flex: 1,
+    marginLeft: 12,
+  },
+  tripLabel: {
+    fontSize: 15,
+  },
+  tripDeparture: {
+    fontSize: 13,
+    color: "#888",
+    marginTop: 2,
+  },
+  removeButton: {
+    padding: 8,
+  },
+});
+
+export default ScheduledTrips;
@@ -16,8 +16,13 @@ import {
 import { FontAwesome5 } from "@expo/vector-icons";
 import ProfileSection from "./ProfileSection";
 import RoutingPreferences, { RoutingPreference } from "./RoutingPreferences";
+import ScheduledTrips from "./ScheduledTrips";
+import AvoidAreas from "./AvoidAreas";
+import NavigationSimulator from "./NavigationSimulator";
+import NavigationTraces from "./NavigationTraces";
 import { useColorScheme } from "@/hooks/useColorScheme";
 import { Colors } from "@/constants/Colors";
+import { AvoidArea, RoutingProfile } from "@/types/api";
 
 const { width, height } = Dimensions.get("window");
 const MENU_WIDTH = width * 0.85; // 85% of screen width
@@ -28,6 +33,14 @@ interface SideMenuProps {
   toLogin: () => void;
   preferences: RoutingPreference[];
   onTogglePreference: (id: string, value: boolean) => void;
+  routingProfile: RoutingProfile;
+  onSelectRoutingProfile: (profile: RoutingProfile) => void;
+  avoidAreas: AvoidArea[];
+  onToggleAvoidArea: (id: string, enabled: boolean) => void;
+  onRemoveAvoidArea: (id: string) => void;
+  onDrawAvoidArea: () => void;
+  simulationSpeed: number | null; // km/h, null when trips use the GPS
+  onSelectSimulationSpeed: (speed: number | null) => void;
 }
 
 const SideMenu: React.FC<SideMenuProps> = ({
@@ -36,6 +49,14 @@ const SideMenu: React.FC<SideMenuProps> = ({
   toLogin,
   preferences,
   onTogglePreference,
+  routingProfile,
+  onSelectRoutingProfile,
+  avoidAreas,
+  onToggleAvoidArea,
+  onRemoveAvoidArea,
+  onDrawAvoidArea,
+  simulationSpeed,
+  onSelectSimulationSpeed,
 }) => {
   const colorScheme = useColorScheme() ?? "light";
   const slideAnim = useRef(new Animated.Value(-MENU_WIDTH)).current;
@@ -142,7 +163,29 @@ const SideMenu: React.FC<SideMenuProps> = ({
           <RoutingPreferences
             preferences={preferences}
             onToggle={onTogglePreference}
+            routingProfile={routingProfile}
+            onSelectProfile={onSelectRoutingProfile}
           />
+          <View style={styles.divider} />
+          <AvoidAreas
+            areas={avoidAreas}
+            onToggleArea={onToggleAvoidArea}
+            onRemoveArea={onRemoveAvoidArea}
+            onDrawArea={onDrawAvoidArea}
+          />
+          <ScheduledTrips />
+          <View style={styles.divider} />
+          <NavigationTraces />
+          {/* Developer tools, left out of release builds */}
+          {__DEV__ && (
+            <>
+              <View style={styles.divider} />
+              <NavigationSimulator
+                simulationSpeed={simulationSpeed}
+                onSelectSimulationSpeed={onSelectSimulationSpeed}
+              />
+            </>
+          )}
         </ScrollView>
       </Animated.View>
     </View>
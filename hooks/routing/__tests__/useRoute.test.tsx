@@ -0,0 +1,181 @@
+import React from "react";
+import TestRenderer, { act } from "react-test-renderer";
+import { EventEmitter } from "events";
+import { FixtureDirectionsProvider } from "@/services/directions";
+import { CongestionLevel, Route } from "@/types/mapbox";
+import useRoute from "../useRoute";
+import { getCongestionSegments } from "../utils/routeAnalysis";
+import { Coordinate, LocationFix } from "../utils/types";
+
+jest.mock("@/utils/ttsManager", () => ({
+  __esModule: true,
+  default: { speak: jest.fn(), stop: jest.fn() },
+}));
+jest.mock("@/utils/traceRecorder", () => ({
+  __esModule: true,
+  default: { start: jest.fn(), stop: jest.fn(), recordFix: jest.fn() },
+}));
+jest.mock("@/services/useService", () => ({
+  addItineraryStat: jest.fn(() => Promise.resolve()),
+}));
+jest.mock("@/utils/locationTracker", () => {
+  const { EventEmitter } = jest.requireActual("events");
+  const tracker = new EventEmitter();
+  tracker.startTracking = jest.fn(() => Promise.resolve(true));
+  return { __esModule: true, default: tracker };
+});
+
+const locationTracker = jest.requireMock("@/utils/locationTracker")
+  .default as EventEmitter;
+
+const ORIGIN: Coordinate = [2.3522, 48.8566];
+const DESTINATION: Coordinate = [2.3722, 48.8566];
+const REFRESH_INTERVAL = 60 * 1000;
+
+type RouteHook = ReturnType<typeof useRoute>;
+
+/**
+ * Same route as the one being navigated, with every segment at the given congestion
+ */
+const withCongestion = (route: Route, level: CongestionLevel): Route => ({
+  ...route,
+  legs: route.legs.map((leg) => ({
+    ...leg,
+    annotation: {
+      distance: [],
+      duration: [],
+      speed: [],
+      congestion: Array(route.geometry.coordinates.length - 1).fill(level),
+    },
+  })),
+});
+
+const getCongestionLevels = (hook: RouteHook): CongestionLevel[] =>
+  hook.trafficRoute && hook.selectedRoute
+    ? getCongestionSegments(hook.trafficRoute, hook.selectedRoute).features.map(
+        (feature) => feature.properties.congestion
+      )
+    : [];
+
+describe("useRoute traffic refresh", () => {
+  let provider: FixtureDirectionsProvider;
+  let hook: RouteHook;
+  let renderer: TestRenderer.ReactTestRenderer;
+
+  const Harness = () => {
+    hook = useRoute(ORIGIN, DESTINATION, { directionsProvider: provider });
+    return null;
+  };
+
+  const emitFix = async (distanceAlong: number) => {
+    const fix: LocationFix = {
+      coordinates: [ORIGIN[0] + distanceAlong / 73000, ORIGIN[1]],
+      speed: 30,
+      timestamp: Date.now(),
+      accuracy: 5,
+      heading: 90,
+    };
+    await act(async () => {
+      locationTracker.emit("fixUpdate", fix);
+    });
+  };
+
+  const advance = async (ms: number) => {
+    await act(async () => {
+      jest.advanceTimersByTime(ms);
+    });
+  };
+
+  beforeEach(async () => {
+    jest.useFakeTimers();
+    jest.spyOn(console, "log").mockImplementation(() => {});
+    provider = new FixtureDirectionsProvider();
+    const { routes } = await provider.getDirections(ORIGIN, DESTINATION);
+
+    await act(async () => {
+      renderer = TestRenderer.create(<Harness />);
+    });
+    await act(async () => {
+      hook.setSelectedRoute(routes[0]);
+    });
+    await act(async () => {
+      await hook.startNavigation();
+    });
+    await emitFix(0);
+  });
+
+  afterEach(() => {
+    act(() => renderer.unmount());
+    jest.useRealTimers();
+    jest.restoreAllMocks();
+  });
+
+  it("keeps refreshing while location fixes arrive", async () => {
+    const requestsBefore = provider.recordedRequests.length;
+
+    // A fix every second recreates the navigation callbacks
+    for (let second = 1; second <= REFRESH_INTERVAL / 1000; second++) {
+      await advance(1000);
+      await emitFix(second * 8);
+    }
+
+    expect(provider.recordedRequests.length).toBe(requestsBefore + 1);
+    expect(hook.trafficRoute).not.toBeNull();
+  });
+
+  it("updates the congestion drawn on the route after each tick", async () => {
+    const route = hook.selectedRoute as Route;
+
+    provider.queueResponse({
+      code: "Ok",
+      uuid: "heavy",
+      routes: [withCongestion(route, "heavy")],
+      waypoints: [],
+    });
+    await emitFix(10);
+    await advance(REFRESH_INTERVAL);
+    expect(getCongestionLevels(hook)).toEqual(["heavy"]);
+
+    provider.queueResponse({
+      code: "Ok",
+      uuid: "low",
+      routes: [withCongestion(route, "low")],
+      waypoints: [],
+    });
+    await emitFix(20);
+    await advance(REFRESH_INTERVAL);
+    expect(getCongestionLevels(hook)).toEqual(["low"]);
+  });
+
+  it("keeps the traffic-aware arrival time on the next fixes", async () => {
+    const route = hook.selectedRoute as Route;
+    const jammed = {
+      ...withCongestion(route, "heavy"),
+      duration: route.duration * 3,
+    };
+    provider.queueResponse({
+      code: "Ok",
+      uuid: "jammed",
+      routes: [jammed],
+      waypoints: [],
+    });
+
+    // A fix every second until the refresh
+    const lastSecond = REFRESH_INTERVAL / 1000;
+    for (let second = 1; second < lastSecond; second++) {
+      await advance(1000);
+      await emitFix(second * 8);
+    }
+    await advance(1000);
+    // The refreshed route starts at the user, its whole duration is left
+    expect(hook.remainingDuration).toBeCloseTo(jammed.duration);
+
+    await emitFix(lastSecond * 8);
+    expect(hook.remainingDuration).toBeGreaterThan(route.duration * 2);
+    expect(hook.remainingDuration).toBeLessThan(jammed.duration);
+    expect(hook.estimatedArrival?.getTime()).toBeCloseTo(
+      Date.now() + hook.remainingDuration * 1000,
+      -3
+    );
+  });
+});
@@ -4,8 +4,29 @@ import { useRouteCalculation } from "./useRouteCalculation";
 import { useRouteNavigation } from "./useRouteNavigation";
 import { useRouteRerouting } from "./useRouteRerouting";
 import { Route } from "@/types/mapbox";
-import { Coordinate, RouteFeatures } from "./utils/types";
+import { AvoidArea, RoutingProfile } from "@/types/api";
+import {
+  DirectionsProvider,
+  getDirectionsProvider,
+} from "@/services/directions";
+import {
+  Coordinate,
+  FasterRouteSuggestion,
+  RouteFeatures,
+  ScheduleComparison,
+  TripSchedule,
+} from "./utils/types";
 import { fetchRoute } from "./utils/mapboxApi";
+import {
+  DEFAULT_ROUTING_PROFILE,
+  FASTER_ROUTE_MIN_TIME_SAVED,
+  FASTER_ROUTE_PROMPT_DURATION,
+} from "./utils/constants";
+import {
+  findFasterRoute,
+  findNearestPointOnRoute,
+  getScheduledTripTimes,
+} from "./utils/routeAnalysis";
 import ttsManager from "@/utils/ttsManager";
 import { addItineraryStat } from "@/services/useService";
 
@@ -18,10 +39,52 @@ const arrayToStableString = (arr: string[] | undefined): string => {
   return [...arr].sort().join(TUPLE_SEPARATOR); // Sort for order-insensitivity
 };
 
+// Waypoint order matters, so coordinates are joined without sorting
+const coordinatesToStableString = (coords: Coordinate[]): string =>
+  coords.map((coord) => coord.join(",")).join(TUPLE_SEPARATOR);
+
+// Areas are never edited once drawn, their ids are enough to tell them apart
+const avoidAreasToStableString = (areas: AvoidArea[]): string =>
+  arrayToStableString(areas.map((area) => area.id));
+
+const scheduleToStableString = (schedule: TripSchedule | null): string =>
+  schedule ? `${schedule.mode}@${schedule.time.getTime()}` : "";
+
+const NO_WAYPOINTS: Coordinate[] = [];
+const NO_AVOID_POINTS: Coordinate[] = [];
+const NO_AVOID_AREAS: AvoidArea[] = [];
+
+interface UseRouteOptions {
+  waypoints?: Coordinate[]; // Ordered intermediate stops between origin and destination
+  avoidPoints?: Coordinate[]; // Locations to route around, e.g. reported accidents
+  avoidAreas?: AvoidArea[]; // Zones the routes must stay out of
+  profile?: RoutingProfile;
+  schedule?: TripSchedule | null; // Planned departure or arrival, null to leave now
+  directionsProvider?: DirectionsProvider; // Defaults to the backend selected in the app config
+  fasterRouteThreshold?: number; // Seconds a new route must save to be offered while navigating
+  speedLimitMargin?: number; // km/h tolerated above the speed limit before warning
+  overspeedVoiceAlert?: boolean; // Also warn by voice when the speed limit is exceeded
+  simulationSpeed?: number | null; // km/h, navigate with simulated positions along the route (developer menu)
+}
+
 export default function useRoute(
   initialOrigin: Coordinate | null,
-  destination: Coordinate | null
+  destination: Coordinate | null,
+  options: UseRouteOptions = {}
 ) {
+  const {
+    waypoints = NO_WAYPOINTS,
+    avoidPoints = NO_AVOID_POINTS,
+    avoidAreas = NO_AVOID_AREAS,
+    profile = DEFAULT_ROUTING_PROFILE,
+    schedule = null,
+    directionsProvider,
+    fasterRouteThreshold = FASTER_ROUTE_MIN_TIME_SAVED,
+    speedLimitMargin,
+    overspeedVoiceAlert,
+    simulationSpeed,
+  } = options;
+
   // routeExcludes: State for what to exclude (e.g., ['toll', 'motorway'])
   const [routeExcludes, setRouteExcludes] = useState<string[] | undefined>(
     undefined
@@ -30,6 +93,50 @@ export default function useRoute(
     () => arrayToStableString(routeExcludes),
     [routeExcludes]
   );
+  const stableWaypointsString = useMemo(
+    () => coordinatesToStableString(waypoints),
+    [waypoints]
+  );
+  const stableAvoidPointsString = useMemo(
+    () => coordinatesToStableString(avoidPoints),
+    [avoidPoints]
+  );
+  const stableAvoidAreasString = useMemo(
+    () => avoidAreasToStableString(avoidAreas),
+    [avoidAreas]
+  );
+  const stableScheduleString = scheduleToStableString(schedule);
+
+  // Avoidances the routing backend cannot apply, routes are computed without them
+  const ignoredExcludes = useMemo(() => {
+    const requested = routeExcludes || [];
+    const applied = (
+      directionsProvider || getDirectionsProvider()
+    ).getAppliedExcludes(requested, profile);
+    return requested.filter((exclude) => !applied.includes(exclude));
+  }, [routeExcludes, profile, directionsProvider]);
+
+  // Set when a scheduled trip starts, compares the plan with live traffic
+  const [scheduleComparison, setScheduleComparison] =
+    useState<ScheduleComparison | null>(null);
+
+  // Latest route fetched by the periodic refresh, carries fresh congestion data
+  const [trafficRoute, setTrafficRoute] = useState<Route | null>(null);
+
+  // Faster route offered during navigation, and the ones the user turned down
+  const [fasterRouteSuggestion, setFasterRouteSuggestion] =
+    useState<FasterRouteSuggestion | null>(null);
+  const fasterRouteSuggestionRef = useRef(fasterRouteSuggestion);
+  fasterRouteSuggestionRef.current = fasterRouteSuggestion;
+  const declinedRoutesRef = useRef<Route[]>([]);
+
+  // Number of intermediate stops already visited during the current trip.
+  // Rerouting and refreshes only route through the stops that are left.
+  const [reachedWaypointCount, setReachedWaypointCount] = useState(0);
+  const remainingWaypoints = useMemo(
+    () => waypoints.slice(reachedWaypointCount),
+    [waypoints, reachedWaypointCount]
+  );
 
   const {
     selectedRoute,
@@ -41,7 +148,12 @@ export default function useRoute(
     routeFeatures,
     chooseRoute,
     calculateRoutes, // This is for initial/manual route planning
-  } = useRouteCalculation(initialOrigin, destination, routeExcludes); // routeExcludes is passed here
+  } = useRouteCalculation(
+    initialOrigin,
+    destination,
+    routeExcludes, // routeExcludes is passed here
+    directionsProvider
+  );
 
   const handleRerouteSuccess = useCallback(
     (newRoute: Route) => {
@@ -63,6 +175,11 @@ export default function useRoute(
     handleReroute, // This is the core rerouting function from useRouteRerouting
   } = useRouteRerouting(destination, routeExcludes, {
     // routeExcludes is passed here too
+    waypoints: remainingWaypoints,
+    avoidPoints,
+    avoidAreas,
+    profile,
+    directionsProvider,
     onRerouteStart: () => console.log("useRoute: Reroute process started."),
     onRerouteSuccess: handleRerouteSuccess,
     onRerouteError: handleRerouteError,
@@ -88,21 +205,42 @@ export default function useRoute(
     [destination, isRerouting, handleReroute]
   ); // handleReroute from useRouteRerouting should be stable
 
+  const handleWaypointReached = useCallback((stopIndex: number) => {
+    console.log(`useRoute: Waypoint ${stopIndex + 1} reached.`);
+    setReachedWaypointCount(stopIndex + 1);
+  }, []);
+
   const {
     isNavigating,
     setIsNavigating, // useRouteNavigation controls this based on start/stop/arrival
     liveUserLocation,
+    liveUserHeading,
+    isLocationEstimated,
     traveledCoords,
     displayedInstruction,
     distanceToNextManeuver,
+    currentBanner,
+    currentStep,
+    upcomingStep,
+    currentStepIndex,
     startNavigation: startRouteNavigationInternal,
     stopNavigation: stopRouteNavigationInternal,
     updateNavigationMetrics,
     remainingDistance,
     remainingDuration,
     estimatedArrival,
+    currentSpeed,
+    speedLimit,
+    isOverSpeedLimit,
+    currentLegIndex,
+    followZoomLevel,
   } = useRouteNavigation(selectedRoute, {
+    profile,
+    speedLimitMargin,
+    overspeedVoiceAlert,
+    simulationSpeed,
     onOffRoute: onOffRouteDeviation, // This is the primary trigger for rerouting due to physical deviation
+    onWaypointReached: handleWaypointReached,
     onArrive: () => {
       console.log("useRoute: Arrival detected.");
       // setIsNavigating(false); // Already handled within useRouteNavigation
@@ -123,24 +261,74 @@ export default function useRoute(
     liveUserLocationRef.current = liveUserLocation;
   }, [liveUserLocation]);
 
+  const selectedRouteRef = useRef(selectedRoute);
+  useEffect(() => {
+    selectedRouteRef.current = selectedRoute;
+  }, [selectedRoute]);
+
+  // Values read by the periodic refresh. Kept in a ref so that new location fixes,
+  // which recreate updateNavigationMetrics, do not restart the refresh interval.
+  const refreshOptions = {
+    routeExcludes,
+    avoidPoints,
+    avoidAreas,
+    remainingWaypoints,
+    profile,
+    directionsProvider,
+    fasterRouteThreshold,
+    updateNavigationMetrics,
+  };
+  const refreshOptionsRef = useRef(refreshOptions);
+  refreshOptionsRef.current = refreshOptions;
+
   const refreshTimerRef = useRef<NodeJS.Timeout | null>(null);
   useEffect(() => {
     // Periodic refresh for ETA/traffic
     if (refreshTimerRef.current) clearInterval(refreshTimerRef.current);
-    if (isNavigating && destination && liveUserLocationRef.current) {
+    if (isNavigating && destination) {
       refreshTimerRef.current = setInterval(async () => {
-        if (!liveUserLocationRef.current) return;
+        const userLocation = liveUserLocationRef.current;
+        const currentRoute = selectedRouteRef.current;
+        if (!userLocation || !currentRoute) return;
+        const options = refreshOptionsRef.current;
         try {
+          // Alternatives from here may be faster than what is left of the current route
           const response = await fetchRoute(
-            liveUserLocationRef.current,
+            userLocation,
             destination,
             {
-              excludes: routeExcludes,
-              alternatives: false,
-            }
+              excludes: options.routeExcludes,
+              avoidPoints: options.avoidPoints,
+              avoidAreas: options.avoidAreas,
+              alternatives: true,
+              waypoints: options.remainingWaypoints,
+              profile: options.profile,
+            },
+            options.directionsProvider
+          );
+          if (response.routes.length === 0) return;
+
+          const { currentPathRoute, suggestion } = findFasterRoute(
+            response.routes,
+            currentRoute,
+            findNearestPointOnRoute(currentRoute, userLocation).location,
+            options.fasterRouteThreshold,
+            declinedRoutesRef.current
           );
-          if (response.routes.length > 0)
-            updateNavigationMetrics(response.routes[0]);
+          // Timing and traffic of the path actually followed
+          const freshRoute = currentPathRoute || response.routes[0];
+          options.updateNavigationMetrics(freshRoute);
+          setTrafficRoute(freshRoute);
+
+          if (suggestion && !fasterRouteSuggestionRef.current) {
+            setFasterRouteSuggestion(suggestion);
+            ttsManager.speak(
+              `Itinéraire plus rapide disponible${
+                suggestion.viaLabel ? ` ${suggestion.viaLabel}` : ""
+              }, ${Math.round(suggestion.timeSaved / 60)} minutes gagnées.`,
+              true
+            );
+          }
         } catch (error) {
           console.warn("Failed to refresh route data:", error);
         }
@@ -149,23 +337,44 @@ export default function useRoute(
     return () => {
       if (refreshTimerRef.current) clearInterval(refreshTimerRef.current);
     };
-  }, [isNavigating, destination, routeExcludes, updateNavigationMetrics]); // routeExcludes is needed if refresh should use current excludes
+  }, [isNavigating, destination]); // Other values are read from refreshOptionsRef on each tick
 
   // This useEffect handles changes to routeExcludes (e.g., from user settings)
   // or when the destination changes (e.g., new QR scan or search after initial).
   // It should only run when these specific values *actually change*.
   const prevStableRouteExcludesString = useRef(stableRouteExcludesString);
+  const prevStableWaypointsString = useRef(stableWaypointsString);
+  const prevStableAvoidPointsString = useRef(stableAvoidPointsString);
+  const prevStableAvoidAreasString = useRef(stableAvoidAreasString);
   const prevDestination = useRef(destination);
+  const prevProfile = useRef(profile);
+  const prevStableScheduleString = useRef(stableScheduleString);
 
   useEffect(() => {
     const destinationChanged =
       prevDestination.current !== destination && destination !== null;
     const excludesChanged =
       prevStableRouteExcludesString.current !== stableRouteExcludesString;
+    const waypointsChanged =
+      prevStableWaypointsString.current !== stableWaypointsString;
+    const avoidPointsChanged =
+      prevStableAvoidPointsString.current !== stableAvoidPointsString;
+    const avoidAreasChanged =
+      prevStableAvoidAreasString.current !== stableAvoidAreasString;
+    const profileChanged = prevProfile.current !== profile;
+    // The schedule only matters while planning, navigation always runs on live traffic
+    const scheduleChanged =
+      prevStableScheduleString.current !== stableScheduleString &&
+      !isNavigating;
 
     // Update refs for next comparison
     prevDestination.current = destination;
     prevStableRouteExcludesString.current = stableRouteExcludesString;
+    prevStableWaypointsString.current = stableWaypointsString;
+    prevStableAvoidPointsString.current = stableAvoidPointsString;
+    prevStableAvoidAreasString.current = stableAvoidAreasString;
+    prevProfile.current = profile;
+    prevStableScheduleString.current = stableScheduleString;
 
     if (!destination) {
       // If destination becomes null (e.g., search cancelled), clear routes
@@ -174,9 +383,17 @@ export default function useRoute(
       return;
     }
 
-    if (destinationChanged || excludesChanged) {
+    if (
+      destinationChanged ||
+      excludesChanged ||
+      waypointsChanged ||
+      avoidPointsChanged ||
+      avoidAreasChanged ||
+      profileChanged ||
+      scheduleChanged
+    ) {
       console.log(
-        `useRoute: Destination or Excludes changed. DestChanged: ${destinationChanged}, ExclChanged: ${excludesChanged}`
+        `useRoute: Destination, Excludes, Waypoints, Avoided points or areas, Profile or Schedule changed. DestChanged: ${destinationChanged}, ExclChanged: ${excludesChanged}, WaypointsChanged: ${waypointsChanged}, AvoidPointsChanged: ${avoidPointsChanged}, AvoidAreasChanged: ${avoidAreasChanged}, ProfileChanged: ${profileChanged}, ScheduleChanged: ${scheduleChanged}`
       );
       const originToUse = liveUserLocationRef.current || initialOrigin;
 
@@ -197,7 +414,14 @@ export default function useRoute(
           console.log(
             "--> Recalculating all routes for planning due to preference/destination change."
           );
-          calculateRoutes(originToUse, destination, routeExcludes);
+          calculateRoutes(originToUse, destination, {
+            excludes: routeExcludes,
+            avoidPoints,
+            avoidAreas,
+            waypoints,
+            profile,
+            schedule,
+          });
         }
       } else {
         console.warn(
@@ -207,6 +431,11 @@ export default function useRoute(
     }
   }, [
     stableRouteExcludesString, // Stable string representation of excludes
+    stableWaypointsString, // Stable string representation of the ordered waypoints
+    stableAvoidPointsString, // Stable string representation of the points to avoid
+    stableAvoidAreasString, // Stable string representation of the areas to avoid
+    profile,
+    stableScheduleString, // Stable string representation of the trip schedule
     destination, // The destination itself
     // Below are functions/states that are part of the logic but shouldn't trigger the effect on their own re-creation
     // if their underlying values haven't changed.
@@ -229,14 +458,99 @@ export default function useRoute(
       return;
     }
     // setIsNavigating(true) will be called by startRouteNavigationInternal
+    setReachedWaypointCount(0);
+    setScheduleComparison(null);
     await startRouteNavigationInternal();
-  }, [selectedRoute, startRouteNavigationInternal]);
+
+    // A scheduled route was estimated for another time: compare the plan with
+    // what live traffic predicts now and use the live figures for the ETA.
+    const origin = liveUserLocationRef.current || initialOrigin;
+    if (schedule && origin && destination) {
+      const planned = getScheduledTripTimes(selectedRoute, schedule);
+      try {
+        const response = await fetchRoute(
+          origin,
+          destination,
+          {
+            excludes: routeExcludes,
+            avoidPoints,
+            avoidAreas,
+            alternatives: false,
+            waypoints,
+            profile,
+          },
+          directionsProvider
+        );
+        if (response.routes.length > 0) {
+          const liveRoute = response.routes[0];
+          updateNavigationMetrics(liveRoute);
+          setScheduleComparison({
+            plannedDeparture: planned.departure,
+            plannedArrival: planned.arrival,
+            liveArrival: new Date(Date.now() + liveRoute.duration * 1000),
+          });
+        }
+      } catch (error) {
+        console.warn(
+          "useRoute: Failed to fetch live route for schedule:",
+          error
+        );
+      }
+    }
+  }, [
+    selectedRoute,
+    startRouteNavigationInternal,
+    schedule,
+    initialOrigin,
+    destination,
+    routeExcludes,
+    avoidPoints,
+    avoidAreas,
+    waypoints,
+    profile,
+    directionsProvider,
+    updateNavigationMetrics,
+  ]);
 
   const stopNavigation = useCallback(() => {
     // setIsNavigating(false) will be called by stopRouteNavigationInternal
     stopRouteNavigationInternal();
+    setScheduleComparison(null);
+    declinedRoutesRef.current = [];
   }, [stopRouteNavigationInternal]);
 
+  // Traffic and suggestions fetched for a previous route no longer apply
+  useEffect(() => {
+    setTrafficRoute(null);
+    setFasterRouteSuggestion(null);
+  }, [selectedRoute, isNavigating]);
+
+  // Switch to the suggested route, navigation restarts on it without a new request
+  const acceptFasterRoute = useCallback(() => {
+    if (!fasterRouteSuggestion) return;
+    setSelectedRoute(fasterRouteSuggestion.route);
+    setAlternateRoutes([]);
+  }, [fasterRouteSuggestion, setSelectedRoute, setAlternateRoutes]);
+
+  const dismissFasterRoute = useCallback(() => {
+    if (!fasterRouteSuggestion) return;
+    declinedRoutesRef.current = [
+      ...declinedRoutesRef.current,
+      fasterRouteSuggestion.route,
+    ];
+    setFasterRouteSuggestion(null);
+  }, [fasterRouteSuggestion]);
+
+  // An unanswered suggestion counts as declined
+  useEffect(() => {
+    if (!fasterRouteSuggestion) return;
+    const timeout = setTimeout(
+      dismissFasterRoute,
+      FASTER_ROUTE_PROMPT_DURATION
+    );
+    return () => clearTimeout(timeout);
+  }, [fasterRouteSuggestion, dismissFasterRoute]);
+
   // For the UI button "Recalculate" - user manually requests a new route.
   const manualRecalculateRoute = useCallback(() => {
     if (!liveUserLocationRef.current || !destination) {
@@ -268,14 +582,33 @@ export default function useRoute(
     error: calculationError,
     isNavigating,
     liveUserLocation,
+    liveUserHeading,
+    isLocationEstimated,
     traveledCoords,
     displayedInstruction,
     distanceToNextManeuver,
+    currentBanner,
+    currentStep,
+    upcomingStep,
+    currentStepIndex,
     remainingDistance,
     remainingDuration,
     estimatedArrival,
+    currentSpeed,
+    speedLimit,
+    isOverSpeedLimit,
+    currentLegIndex,
+    reachedWaypointCount,
+    remainingWaypoints,
+    followZoomLevel,
+    scheduleComparison,
+    trafficRoute,
+    fasterRouteSuggestion,
+    acceptFasterRoute,
+    dismissFasterRoute,
     routeExcludes,
     setRouteExcludes, // Allow UI (e.g., settings) to change preferences
+    ignoredExcludes,
     routeFeatures,
     isRerouting,
     startNavigation,
@@ -1,25 +1,26 @@
 import { useState, useEffect, useCallback, useRef } from "react";
 import { Route, MapboxDirectionsResponse } from "@/types/mapbox";
 import { fetchRoute } from "./utils/mapboxApi";
+import { DirectionsProvider } from "@/services/directions";
 import {
-  initializeRouteFeatures,
-  calculatePathSimilarity,
-  analyzeTrafficLevel,
+  buildRouteFeatures,
+  removeDuplicateRoutes,
 } from "./utils/routeAnalysis";
-import { Coordinate, RouteFeatures } from "./utils/types";
-import { formatDuration, formatDistance } from "./utils/formatters";
+import { Coordinate, RouteFeatures, RouteRequestOptions } from "./utils/types";
 
 /**
  * Hook for handling route calculation logic with pre-computed features
  * @param initialOrigin Starting coordinates [longitude, latitude]
  * @param initialDestination Ending coordinates [longitude, latitude]
  * @param initialRouteExcludes Array of route features to exclude (e.g., ["toll", "motorway"])
+ * @param directionsProvider Directions backend, the configured one by default
  * @returns Route calculation state and functions
  */
 export const useRouteCalculation = (
   initialOrigin: Coordinate | null,
   initialDestination: Coordinate | null,
-  initialRouteExcludes: string[] | undefined
+  initialRouteExcludes: string[] | undefined,
+  directionsProvider?: DirectionsProvider
 ) => {
   // Core routing state
   const [selectedRoute, setSelectedRoute] = useState<Route | null>(null);
@@ -33,104 +34,15 @@ export const useRouteCalculation = (
   // Track if initial calculation has been done
   const initialCalculationDone = useRef(false);
 
-  /**
-   * Calculate all route features at once including tolls, highways, and unpaved roads
-   * @param routes Array of routes to analyze
-   * @param originPoint Starting point
-   * @param destinationPoint Ending point
-   * @returns Computed features for all routes
-   */
-  const calculateAllRouteFeatures = async (
-    routes: Route[],
-    originPoint: Coordinate,
-    destinationPoint: Coordinate
-  ): Promise<Record<string, RouteFeatures>> => {
-    // Initialize features with basic information
-    const features: Record<string, RouteFeatures> = {};
-
-    routes.forEach((route, index) => {
-      const routeId = index === 0 ? "primary" : `alternate-${index - 1}`;
-
-      features[routeId] = {
-        hasHighways: false,
-        hasTolls: false,
-        hasUnpavedRoads: false,
-        estimatedTime: formatDuration(route.duration),
-        distance: formatDistance(route.distance),
-        trafficLevel: analyzeTrafficLevel(route),
-      };
-    });
-
-    try {
-      // Set up exclusion combinations to test
-      const exclusionCombinations = [
-        { excludes: ["motorway"], feature: "hasHighways" },
-        { excludes: ["toll"], feature: "hasTolls" },
-        { excludes: ["unpaved"], feature: "hasUnpavedRoads" },
-      ];
-
-      // Fetch routes with each exclusion type
-      console.log("Fetching routes with exclusions to detect features...");
-      const exclusionResults = await Promise.all(
-        exclusionCombinations.map((combo) =>
-          fetchRoute(originPoint, destinationPoint, {
-            excludes: combo.excludes,
-          })
-        )
-      );
-
-      // Compare original routes with excluded routes to detect features
-      routes.forEach((route, routeIndex) => {
-        const routeId =
-          routeIndex === 0 ? "primary" : `alternate-${routeIndex - 1}`;
-
-        exclusionCombinations.forEach((combo, exclusionIndex) => {
-          const excludedRoutes = exclusionResults[exclusionIndex].routes;
-          if (!excludedRoutes.length) return;
-
-          const excludedRoute = excludedRoutes[0];
-
-          // Calculate duration difference
-          const durationDifference = Math.abs(
-            excludedRoute.duration - route.duration
-          );
-          const percentageDifference =
-            (durationDifference / route.duration) * 100;
-
-          // Calculate path similarity
-          const pathSimilarity = calculatePathSimilarity(route, excludedRoute);
-
-          // Detect if route has the excluded feature
-          // Feature is considered present if:
-          // 1. Duration changes by more than 15% when excluding it, OR
-          // 2. The path similarity is less than 75% when excluding it
-          const hasFeature = percentageDifference > 15 || pathSimilarity < 0.75;
-
-          // Update feature status
-          if (combo.feature && features[routeId]) {
-            // @ts-ignore - We know this is safe because we control the feature names
-            features[routeId][combo.feature] = hasFeature;
-          }
-        });
-      });
-
-      console.log("Feature detection complete");
-    } catch (error) {
-      console.error("Error during route feature detection:", error);
-      // Continue with basic features if advanced detection fails
-    }
-
-    return features;
-  };
-
   /**
    * Explicit function to calculate routes when requested
+   * @param requestOptions Excludes, points and areas to avoid, intermediate stops, routing profile and schedule
    */
   const calculateRoutes = useCallback(
     async (
       origin: Coordinate | null,
       destination: Coordinate | null,
-      excludes?: string[]
+      requestOptions: RouteRequestOptions = {}
     ) => {
       if (!origin || !destination) {
         return;
@@ -141,28 +53,32 @@ export const useRouteCalculation = (
 
       try {
         // Fetch routes from Mapbox API
-        const response = await fetchRoute(origin, destination, {
-          excludes: excludes || [],
-          alternatives: true,
-        });
+        const response = await fetchRoute(
+          origin,
+          destination,
+          {
+            ...requestOptions,
+            excludes: requestOptions.excludes || [],
+            avoidPoints: requestOptions.avoidPoints || [],
+            avoidAreas: requestOptions.avoidAreas || [],
+            alternatives: true,
+          },
+          directionsProvider
+        );
 
-        if (response.routes.length > 0) {
-          const primaryRoute = response.routes[0];
-          const otherRoutes = response.routes.slice(1);
+        // Alternatives that only differ by a few meters are not worth offering
+        const routes = removeDuplicateRoutes(response.routes);
+
+        if (routes.length > 0) {
+          const primaryRoute = routes[0];
+          const otherRoutes = routes.slice(1);
 
           // Set initial routes
           setSelectedRoute(primaryRoute);
           setAlternateRoutes(otherRoutes);
 
-          // Calculate all features at once
-          const allRoutes = [primaryRoute, ...otherRoutes];
-          console.log("Calculating route features...");
-          const features = await calculateAllRouteFeatures(
-            allRoutes,
-            origin,
-            destination
-          );
-          setRouteFeatures(features);
+          // Features come from the road classes of the routes themselves
+          setRouteFeatures(buildRouteFeatures([primaryRoute, ...otherRoutes]));
         } else {
           setError("No routes found");
         }
@@ -173,7 +89,7 @@ export const useRouteCalculation = (
         setLoading(false);
       }
     },
-    []
+    [directionsProvider]
   );
 
   /**
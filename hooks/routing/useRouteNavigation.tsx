@@ -1,58 +1,102 @@
 // hooks/routing/useRouteNavigation.tsx
-import { useState, useEffect, useRef, useCallback } from "react";
-import * as Location from "expo-location";
+import { useState, useEffect, useRef, useCallback, useMemo } from "react";
 import ttsManager from "@/utils/ttsManager";
-import { Route, Step, VoiceInstruction } from "@/types/mapbox";
-import { Coordinate } from "./utils/types";
+import locationTracker from "@/utils/locationTracker";
+import traceRecorder from "@/utils/traceRecorder";
+import { BannerInstruction, Route } from "@/types/mapbox";
+import { RoutingProfile } from "@/types/api";
 import {
-  findNearestPointOnRoute,
-  calculateDistanceInMeters,
-  hasArrivedAtDestination,
-  getSlicedRouteGeometry,
-} from "./utils/routeAnalysis";
+  Coordinate,
+  FilteredLocationFix,
+  LocationFix,
+  NavigationProgress,
+} from "./utils/types";
+import { flattenRouteSteps } from "./utils/routeAnalysis";
 import {
-  OFF_ROUTE_THRESHOLD,
-  OFF_ROUTE_CONFIRMATION_COUNT,
-  ARRIVAL_THRESHOLD_METERS,
-  // ARRIVAL_THRESHOLD_METERS, // Consider adding this to constants if you want to configure it
+  DEFAULT_ROUTING_PROFILE,
+  PROFILE_NAVIGATION_SETTINGS,
+  SPEED_LIMIT_MARGIN_KMH,
+  OVERSPEED_ALERT_COOLDOWN,
+  DEAD_RECKONING_TICK_INTERVAL,
 } from "./utils/constants";
+import { NavigationSession } from "./utils/navigationSession";
+import { RouteSimulator } from "./utils/routeSimulator";
 
 interface UseRouteNavigationOptions {
+  profile?: RoutingProfile; // Tunes off-route tolerance, camera zoom and voice timing
   onOffRoute?: (userLocation: Coordinate) => void;
   onArrive?: () => void;
+  onWaypointReached?: (stopIndex: number) => void; // Index of the stop in the stops of the trip
+  speedLimitMargin?: number; // km/h tolerated above the limit before warning
+  overspeedVoiceAlert?: boolean; // Also warn by voice when the limit is exceeded
+  simulationSpeed?: number | null; // km/h, drive the trip with the route simulator instead of the GPS
 }
 
-
-
 export const useRouteNavigation = (
   selectedRoute: Route | null,
   options: UseRouteNavigationOptions = {}
 ) => {
-  const { onOffRoute, onArrive } = options;
+  const {
+    profile = DEFAULT_ROUTING_PROFILE,
+    onOffRoute,
+    onArrive,
+    onWaypointReached,
+    speedLimitMargin = SPEED_LIMIT_MARGIN_KMH,
+    overspeedVoiceAlert = false,
+    simulationSpeed = null,
+  } = options;
+  const { followZoomLevel } = PROFILE_NAVIGATION_SETTINGS[profile];
 
   const [isNavigating, setIsNavigating] = useState<boolean>(false);
+  // Filtered position while navigating, the map draws the puck there
   const [liveUserLocation, setLiveUserLocation] = useState<Coordinate | null>(
     null
   );
+  const [liveUserHeading, setLiveUserHeading] = useState<number | null>(null);
+  // liveUserLocation is extrapolated along the route while no fix arrives (tunnel...)
+  const [isLocationEstimated, setIsLocationEstimated] =
+    useState<boolean>(false);
   const [traveledCoords, setTraveledCoords] = useState<Coordinate[]>([]);
   const [currentStepIndex, setCurrentStepIndex] = useState<number>(0);
+  const [currentLegIndex, setCurrentLegIndex] = useState<number>(0);
   const [displayedInstruction, setDisplayedInstruction] = useState<string>("");
   const [distanceToNextManeuver, setDistanceToNextManeuver] = useState<
     number | null
   >(null);
-  const [announcementsMadeForStep, setAnnouncementsMadeForStep] = useState<
-    Set<string>
-  >(new Set());
+  // Banner of the current step, carries the lane guidance
+  const [currentBanner, setCurrentBanner] = useState<BannerInstruction | null>(
+    null
+  );
 
   const [remainingDistance, setRemainingDistance] = useState<number>(0);
   const [remainingDuration, setRemainingDuration] = useState<number>(0);
   const [estimatedArrival, setEstimatedArrival] = useState<Date | null>(null);
+  // Speeds in km/h, null when the fix or the route has none
+  const [currentSpeed, setCurrentSpeed] = useState<number | null>(null);
+  const [speedLimit, setSpeedLimit] = useState<number | null>(null);
 
-  const locationSubscription = useRef<Location.LocationSubscription | null>(
-    null
-  );
+  // Step progression, off-route, arrival and voice timing live in the session
+  const [session] = useState(() => new NavigationSession({ profile }));
+  const simulatorRef = useRef<RouteSimulator | null>(null);
   const routeRef = useRef<Route | null>(null);
-  const offRouteCountRef = useRef<number>(0);
+  const lastOverspeedAlertRef = useRef<number>(0);
+  const lastOverspeedLimitRef = useRef<number | null>(null);
+  const remainingDistanceRef = useRef<number>(0);
+  // Time left from the last traffic refresh, and the distance left when it was fetched
+  const trafficEstimateRef = useRef<{
+    remainingDuration: number;
+    remainingDistance: number;
+  } | null>(null);
+
+  // Steps of every leg in travel order, so progress can run across waypoints
+  const stepEntries = useMemo(
+    () => (selectedRoute ? flattenRouteSteps(selectedRoute) : []),
+    [selectedRoute]
+  );
+
+  useEffect(() => {
+    session.setProfile(profile);
+  }, [session, profile]);
 
   const speakInstruction = useCallback(
     (instruction: string, isManeuverChange: boolean = false) => {
@@ -62,360 +106,289 @@ export const useRouteNavigation = (
     [setDisplayedInstruction]
   );
 
-  useEffect(() => {
-    if (isNavigating && selectedRoute) {
-      if (selectedRoute !== routeRef.current) {
-        routeRef.current = selectedRoute;
-        setCurrentStepIndex(0);
-        setAnnouncementsMadeForStep(new Set());
-        offRouteCountRef.current = 0;
-        setTraveledCoords(
-          selectedRoute.geometry.coordinates.length > 0
-            ? [selectedRoute.geometry.coordinates[0] as Coordinate]
-            : []
-        );
-        setRemainingDistance(selectedRoute.distance);
-        setRemainingDuration(selectedRoute.duration);
-        setEstimatedArrival(
-          new Date(Date.now() + selectedRoute.duration * 1000)
-        );
-
-        if (selectedRoute.legs[0]?.steps[0]) {
-          let instructionToSpeakAndDisplay =
-            selectedRoute.legs[0].steps[0].maneuver.instruction;
-          const firstStepVIs = selectedRoute.legs[0].steps[0].voiceInstructions;
-          if (
-            firstStepVIs &&
-            firstStepVIs.length > 0 &&
-            firstStepVIs[0].distanceAlongGeometry === 0
-          ) {
-            instructionToSpeakAndDisplay = firstStepVIs[0].announcement;
-          }
-          speakInstruction(instructionToSpeakAndDisplay, true);
-        }
-      }
-    } else if (!selectedRoute) {
-      routeRef.current = null;
-    }
-  }, [selectedRoute, isNavigating, speakInstruction]);
-
-  const startLocationTracking = async () => {
-    if (locationSubscription.current) locationSubscription.current.remove();
-    locationSubscription.current = await Location.watchPositionAsync(
-      {
-        accuracy: Location.Accuracy.BestForNavigation,
-        distanceInterval: 5,
-        timeInterval: 1000,
-      },
-      (location) =>
-        setLiveUserLocation([
-          location.coords.longitude,
-          location.coords.latitude,
-        ])
+  const resetProgress = useCallback((route: Route) => {
+    setCurrentStepIndex(0);
+    setCurrentLegIndex(0);
+    setCurrentBanner(null);
+    setSpeedLimit(null);
+    setTraveledCoords(
+      route.geometry.coordinates.length > 0
+        ? [route.geometry.coordinates[0] as Coordinate]
+        : []
     );
-  };
-
-  const checkAndAnnounceVoiceInstructions = useCallback(
-    (currentStep: Step, progressInCurrentStep: number) => {
-      const voiceInstructions = currentStep.voiceInstructions || [];
-      const sortedVIs = [...voiceInstructions].sort(
-        (a, b) => a.distanceAlongGeometry - b.distanceAlongGeometry
-      );
+    remainingDistanceRef.current = route.distance;
+    trafficEstimateRef.current = null;
+    setRemainingDistance(route.distance);
+    setRemainingDuration(route.duration);
+    setEstimatedArrival(new Date(Date.now() + route.duration * 1000));
+  }, []);
 
-      for (const vi of sortedVIs) {
-        const announcementKey = `${currentStepIndex}-${vi.announcement}`;
-        if (announcementsMadeForStep.has(announcementKey)) continue;
+  // Every location source, GPS or simulator, goes through here
+  const handleLocationFix = useCallback(
+    (fix: LocationFix) => {
+      setCurrentSpeed(fix.speed);
+      traceRecorder.recordFix(fix);
+      session.updateLocation(fix);
+    },
+    [session]
+  );
 
-        const ACTIVATION_BUFFER_METERS = 30;
-        const VI_POINT_TOLERANCE_METERS = 10;
+  const stopSimulation = useCallback(() => {
+    if (simulatorRef.current) {
+      simulatorRef.current.stop();
+      simulatorRef.current = null;
+    }
+  }, []);
 
-        if (
-          progressInCurrentStep >=
-            vi.distanceAlongGeometry - ACTIVATION_BUFFER_METERS &&
-          progressInCurrentStep <
-            vi.distanceAlongGeometry + VI_POINT_TOLERANCE_METERS
-        ) {
-          speakInstruction(vi.announcement);
-          setAnnouncementsMadeForStep((prev) =>
-            new Set(prev).add(announcementKey)
-          );
-          return;
-        }
-      }
+  const startSimulation = useCallback(
+    (route: Route, speed: number) => {
+      stopSimulation();
+      const simulator = new RouteSimulator(route, { speed });
+      simulatorRef.current = simulator;
+      simulator.start(handleLocationFix);
     },
-    [speakInstruction, announcementsMadeForStep, currentStepIndex]
+    [stopSimulation, handleLocationFix]
   );
 
-  const checkRouteProgress = useCallback(
-    (userLoc: Coordinate) => {
-      if (!selectedRoute || !isNavigating) {
-        return;
+  // Mirror the session's events in the state returned to the UI
+  useEffect(() => {
+    const handleLocation = (fix: FilteredLocationFix) => {
+      setLiveUserLocation(fix.coordinates);
+      setLiveUserHeading(fix.heading ?? null);
+      setIsLocationEstimated(fix.estimated);
+    };
+    const handleProgress = (progress: NavigationProgress) => {
+      setTraveledCoords(progress.traveledCoords);
+      setDistanceToNextManeuver(progress.distanceToNextManeuver);
+      setCurrentBanner(progress.banner);
+      setSpeedLimit(progress.speedLimit);
+      remainingDistanceRef.current = progress.remainingDistance;
+      setRemainingDistance(progress.remainingDistance);
+      // Once refreshed, the traffic-aware time less the share of it driven since
+      const trafficEstimate = trafficEstimateRef.current;
+      if (trafficEstimate) {
+        const remainingShare =
+          trafficEstimate.remainingDistance > 0
+            ? Math.min(
+                1,
+                progress.remainingDistance / trafficEstimate.remainingDistance
+              )
+            : 0;
+        const remainingDuration =
+          trafficEstimate.remainingDuration * remainingShare;
+        setRemainingDuration(remainingDuration);
+        setEstimatedArrival(new Date(Date.now() + remainingDuration * 1000));
+      } else {
+        setRemainingDuration(progress.remainingDuration);
+        setEstimatedArrival(progress.estimatedArrival);
       }
+    };
+    const handleStepChanged = (stepIndex: number, legIndex: number) => {
+      setCurrentStepIndex(stepIndex);
+      setCurrentLegIndex(legIndex);
+    };
+    const handleWaypointReached = (stopIndex: number) => {
+      if (onWaypointReached) onWaypointReached(stopIndex);
+    };
+    const handleOffRoute = (location: Coordinate) => {
+      if (onOffRoute) onOffRoute(location);
+    };
+    const handleArrived = () => {
+      console.log("useRouteNavigation: Arrival detected! Stopping navigation.");
+      stopSimulation();
+      traceRecorder.stop();
+      setIsNavigating(false);
+      if (onArrive) onArrive();
+    };
 
-      try {
-        const currentLeg = selectedRoute.legs[0];
-        if (!currentLeg) return;
-        const steps = currentLeg.steps;
-        if (!steps || steps.length === 0) return;
-
-        const {
-          distance: distanceFromRoute,
-          location: progressAlongEntireRouteMeters,
-        } = findNearestPointOnRoute(selectedRoute, userLoc);
-
-        // Update snapped traveled path
-        if (progressAlongEntireRouteMeters >= 0) {
-          const snappedTraveledPath = getSlicedRouteGeometry(
-            selectedRoute,
-            progressAlongEntireRouteMeters
-          );
-          if (snappedTraveledPath && snappedTraveledPath.length > 0) {
-            setTraveledCoords(snappedTraveledPath);
-          } else if (
-            progressAlongEntireRouteMeters <= 0.1 &&
-            selectedRoute.geometry.coordinates.length > 0
-          ) {
-            setTraveledCoords([
-              selectedRoute.geometry.coordinates[0] as Coordinate,
-            ]);
-          }
-        } else {
-          setTraveledCoords(
-            selectedRoute.geometry.coordinates.length > 0
-              ? [selectedRoute.geometry.coordinates[0] as Coordinate]
-              : []
-          );
-        }
-
-        // 1. Check for off-route first
-        if (distanceFromRoute > OFF_ROUTE_THRESHOLD) {
-          offRouteCountRef.current += 1;
-          if (offRouteCountRef.current >= (OFF_ROUTE_CONFIRMATION_COUNT || 3)) {
-            offRouteCountRef.current = 0;
-            if (onOffRoute) onOffRoute(userLoc);
-          }
-          return;
-        } else {
-          offRouteCountRef.current = 0;
-        }
-
-        // 2. Check for ARRIVAL directly (high priority)
-        if (
-          hasArrivedAtDestination(
-            selectedRoute,
-            userLoc,
-            ARRIVAL_THRESHOLD_METERS
-          )
-        ) {
-          console.log(
-            `useRouteNavigation: Arrival detected within ${ARRIVAL_THRESHOLD_METERS}m! Stopping navigation.`
-          );
-          speakInstruction("Vous êtes arrivé à destination", true);
-          setIsNavigating(false);
-          if (onArrive) onArrive();
-          return; // Stop further processing if arrived
-        }
-
-        // 3. If not off-route and not arrived, proceed with step progression and TTS
-        let newStepIndex = currentStepIndex;
-        let cumulativeDistanceAtStartOfTargetStep = 0;
-        let foundStep = false;
-        for (let i = 0; i < steps.length; i++) {
-          const stepDistance = steps[i].distance;
-          if (
-            progressAlongEntireRouteMeters >=
-              cumulativeDistanceAtStartOfTargetStep &&
-            progressAlongEntireRouteMeters <
-              cumulativeDistanceAtStartOfTargetStep + stepDistance
-          ) {
-            newStepIndex = i;
-            foundStep = true;
-            break;
-          }
-          cumulativeDistanceAtStartOfTargetStep += stepDistance;
+    session.on("location", handleLocation);
+    session.on("instruction", speakInstruction);
+    session.on("progress", handleProgress);
+    session.on("stepChanged", handleStepChanged);
+    session.on("waypointReached", handleWaypointReached);
+    session.on("offRoute", handleOffRoute);
+    session.on("arrived", handleArrived);
+    return () => {
+      session.off("location", handleLocation);
+      session.off("instruction", speakInstruction);
+      session.off("progress", handleProgress);
+      session.off("stepChanged", handleStepChanged);
+      session.off("waypointReached", handleWaypointReached);
+      session.off("offRoute", handleOffRoute);
+      session.off("arrived", handleArrived);
+    };
+  }, [
+    session,
+    speakInstruction,
+    stopSimulation,
+    onOffRoute,
+    onArrive,
+    onWaypointReached,
+  ]);
+
+  // A new route while navigating (reroute, faster route) starts over from its first step
+  useEffect(() => {
+    if (isNavigating && selectedRoute) {
+      if (selectedRoute !== routeRef.current) {
+        routeRef.current = selectedRoute;
+        resetProgress(selectedRoute);
+        session.setRoute(selectedRoute);
+        if (simulatorRef.current && simulationSpeed !== null) {
+          startSimulation(selectedRoute, simulationSpeed);
         }
+      }
+    } else if (!selectedRoute) {
+      routeRef.current = null;
+    }
+  }, [
+    selectedRoute,
+    isNavigating,
+    session,
+    resetProgress,
+    simulationSpeed,
+    startSimulation,
+  ]);
 
-        if (!foundStep && steps.length > 0) {
-          if (
-            progressAlongEntireRouteMeters >=
-            cumulativeDistanceAtStartOfTargetStep
-          ) {
-            newStepIndex = steps.length - 1;
-          } else {
-            newStepIndex = Math.max(
-              0,
-              Math.min(currentStepIndex, steps.length - 1)
-            );
-          }
-        }
+  // Speed chosen in the developer menu applies to the trip being simulated
+  useEffect(() => {
+    if (simulatorRef.current && simulationSpeed !== null) {
+      simulatorRef.current.setSpeed(simulationSpeed);
+    }
+  }, [simulationSpeed]);
 
-        if (newStepIndex !== currentStepIndex) {
-          setCurrentStepIndex(newStepIndex);
-          speakInstruction(steps[newStepIndex].maneuver.instruction, true);
-          setAnnouncementsMadeForStep(new Set());
-        }
+  useEffect(() => {
+    if (!isNavigating) setTraveledCoords([]);
+  }, [isNavigating]);
 
-        const currentStepObject = steps[newStepIndex];
-        let finalCumulativeDistanceForActualCurrentStepStart = 0;
-        for (let i = 0; i < newStepIndex; i++) {
-          finalCumulativeDistanceForActualCurrentStepStart += steps[i].distance;
-        }
-        const progressInActualCurrentStep =
-          progressAlongEntireRouteMeters -
-          finalCumulativeDistanceForActualCurrentStepStart;
+  // Keep progressing when fixes stop, the session only estimates after a delay without any
+  useEffect(() => {
+    if (!isNavigating) return;
+    const timer = setInterval(
+      () => session.estimateLocation(Date.now()),
+      DEAD_RECKONING_TICK_INTERVAL
+    );
+    return () => clearInterval(timer);
+  }, [isNavigating, session]);
 
-        // Set distance to next maneuver (for display) - This will be distance to actual next turn or to destination
-        if (newStepIndex < steps.length - 1) {
-          const nextManeuverLocation = steps[newStepIndex + 1].maneuver
-            .location as Coordinate;
-          setDistanceToNextManeuver(
-            calculateDistanceInMeters(userLoc, nextManeuverLocation)
-          );
-        } else {
-          // Last step, distance to maneuver is distance to destination
-          const destinationCoords = selectedRoute.geometry.coordinates[
-            selectedRoute.geometry.coordinates.length - 1
-          ] as Coordinate;
-          setDistanceToNextManeuver(
-            calculateDistanceInMeters(userLoc, destinationCoords)
-          );
-        }
+  // Fixes come from the app-wide tracker rather than a second GPS subscription
+  const startLocationTracking = async () => {
+    locationTracker.off("fixUpdate", handleLocationFix);
+    const trackingStarted = await locationTracker.startTracking();
+    if (!trackingStarted) throw new Error("Location tracking not available");
+    locationTracker.on("fixUpdate", handleLocationFix);
+  };
 
-        // Announce voice instructions for the current step (leading up to the next maneuver or destination)
-        checkAndAnnounceVoiceInstructions(
-          currentStepObject,
-          progressInActualCurrentStep
-        );
+  const stopLocationTracking = () => {
+    locationTracker.off("fixUpdate", handleLocationFix);
+  };
 
-        // Update remaining distance and duration (these are overall route metrics)
-        setRemainingDistance(
-          Math.max(0, selectedRoute.distance - progressAlongEntireRouteMeters)
-        );
-        const progressPercentage =
-          selectedRoute.distance > 0
-            ? progressAlongEntireRouteMeters / selectedRoute.distance
-            : 0;
-        const estimatedDurationRemaining =
-          selectedRoute.duration * (1 - progressPercentage);
-        setRemainingDuration(estimatedDurationRemaining);
-        setEstimatedArrival(
-          new Date(Date.now() + estimatedDurationRemaining * 1000)
-        );
-      } catch (err) {
-        console.error("Error checking route progress:", err);
-      }
-    },
-    [
-      selectedRoute,
-      isNavigating,
-      currentStepIndex,
-      onOffRoute,
-      onArrive,
-      speakInstruction,
-      checkAndAnnounceVoiceInstructions,
-    ]
-  );
+  const isOverSpeedLimit =
+    isNavigating &&
+    currentSpeed !== null &&
+    speedLimit !== null &&
+    currentSpeed > speedLimit + speedLimitMargin;
 
+  // Voice alert when the limit starts being exceeded, at most once per cooldown
+  // unless the limit changes
   useEffect(() => {
-    if (isNavigating && liveUserLocation) {
-      checkRouteProgress(liveUserLocation);
-    } else if (!isNavigating) {
-      if (traveledCoords.length > 0) {
-        setTraveledCoords([]);
-      }
+    if (!isOverSpeedLimit || !overspeedVoiceAlert || speedLimit === null) {
+      return;
     }
-  }, [liveUserLocation, isNavigating, checkRouteProgress]);
-
-  const updateNavigationMetrics = useCallback(
-    (freshRoute: Route) => {
-      if (!freshRoute || !selectedRoute || !liveUserLocation) return;
-      const { location: progressAlongOldRoute } = findNearestPointOnRoute(
-        selectedRoute,
-        liveUserLocation
-      );
-      const progressPercentage =
-        selectedRoute.distance > 0
-          ? progressAlongOldRoute / selectedRoute.distance
-          : 0;
-      const freshRemainingDistance =
-        freshRoute.distance * (1 - progressPercentage);
-      const freshRemainingDuration =
-        freshRoute.duration * (1 - progressPercentage);
-      setRemainingDistance(Math.max(0, freshRemainingDistance));
-      setRemainingDuration(Math.max(0, freshRemainingDuration));
-      setEstimatedArrival(
-        new Date(Date.now() + Math.max(0, freshRemainingDuration) * 1000)
-      );
-    },
-    [selectedRoute, liveUserLocation]
-  );
+    const now = Date.now();
+    if (
+      speedLimit === lastOverspeedLimitRef.current &&
+      now - lastOverspeedAlertRef.current < OVERSPEED_ALERT_COOLDOWN
+    ) {
+      return;
+    }
+    lastOverspeedAlertRef.current = now;
+    lastOverspeedLimitRef.current = speedLimit;
+    ttsManager.speak(`Attention, vitesse limitée à ${speedLimit}`, true);
+  }, [isOverSpeedLimit, overspeedVoiceAlert, speedLimit]);
+
+  // Fresh routes start where the user is, all of their duration is left to drive
+  const updateNavigationMetrics = useCallback((freshRoute: Route) => {
+    if (!freshRoute) return;
+    const remainingDuration = Math.max(0, freshRoute.duration);
+    trafficEstimateRef.current = {
+      remainingDuration,
+      remainingDistance: remainingDistanceRef.current,
+    };
+    setRemainingDuration(remainingDuration);
+    setEstimatedArrival(new Date(Date.now() + remainingDuration * 1000));
+  }, []);
 
   const startNavigation = async () => {
     if (!selectedRoute) return;
     try {
-      await startLocationTracking();
       routeRef.current = selectedRoute;
       setIsNavigating(true);
-
-      setCurrentStepIndex(0);
-      setAnnouncementsMadeForStep(new Set());
-      offRouteCountRef.current = 0;
-      setTraveledCoords(
-        selectedRoute.geometry.coordinates.length > 0
-          ? [selectedRoute.geometry.coordinates[0] as Coordinate]
-          : []
-      );
-      setRemainingDistance(selectedRoute.distance);
-      setRemainingDuration(selectedRoute.duration);
-      setEstimatedArrival(new Date(Date.now() + selectedRoute.duration * 1000));
-
-      if (selectedRoute.legs[0]?.steps[0]) {
-        let instructionToSpeakAndDisplay =
-          selectedRoute.legs[0].steps[0].maneuver.instruction;
-        const firstStepVIs = selectedRoute.legs[0].steps[0].voiceInstructions;
-        if (
-          firstStepVIs &&
-          firstStepVIs.length > 0 &&
-          firstStepVIs[0].distanceAlongGeometry === 0
-        ) {
-          instructionToSpeakAndDisplay = firstStepVIs[0].announcement;
-        }
-        speakInstruction(instructionToSpeakAndDisplay, true);
+      setLiveUserLocation(null);
+      setLiveUserHeading(null);
+      setIsLocationEstimated(false);
+      resetProgress(selectedRoute);
+      traceRecorder.start(session);
+      session.start(selectedRoute);
+
+      if (simulationSpeed !== null) {
+        stopLocationTracking();
+        startSimulation(selectedRoute, simulationSpeed);
+      } else {
+        await startLocationTracking();
       }
     } catch (err) {
       console.error("Error starting navigation:", err);
+      session.stop();
+      traceRecorder.stop();
       setIsNavigating(false);
     }
   };
 
   const stopNavigation = () => {
-    if (locationSubscription.current) {
-      locationSubscription.current.remove();
-      locationSubscription.current = null;
-    }
+    stopLocationTracking();
+    stopSimulation();
+    session.stop();
+    traceRecorder.stop();
     ttsManager.stop();
     setIsNavigating(false);
     setDisplayedInstruction("");
+    setCurrentBanner(null);
+    setCurrentSpeed(null);
+    setSpeedLimit(null);
+    setIsLocationEstimated(false);
   };
 
   useEffect(() => {
     return () => {
-      if (locationSubscription.current) locationSubscription.current.remove();
+      locationTracker.off("fixUpdate", handleLocationFix);
+      if (simulatorRef.current) simulatorRef.current.stop();
+      session.stop();
+      traceRecorder.stop();
       ttsManager.stop();
     };
-  }, []);
+  }, [session, handleLocationFix]);
 
   return {
     isNavigating,
     setIsNavigating,
     liveUserLocation,
+    liveUserHeading,
+    isLocationEstimated,
     traveledCoords,
     displayedInstruction,
     distanceToNextManeuver,
+    currentBanner,
+    currentStep: stepEntries[currentStepIndex]?.step ?? null,
+    upcomingStep: stepEntries[currentStepIndex + 1]?.step ?? null, // Its maneuver is the next one to perform
     currentStepIndex,
+    currentLegIndex,
     remainingDistance,
     remainingDuration,
     estimatedArrival,
+    currentSpeed,
+    speedLimit,
+    isOverSpeedLimit,
+    followZoomLevel,
     startNavigation,
     stopNavigation,
     updateNavigationMetrics,
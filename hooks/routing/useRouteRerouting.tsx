@@ -3,6 +3,8 @@ import { useState, useRef, useCallback } from "react";
 import * as turf from "@turf/turf";
 import { recalculateRoute as fetchRecalculatedRoute } from "./utils/mapboxApi"; // Renamed import for clarity
 import { Route } from "@/types/mapbox";
+import { AvoidArea, RoutingProfile } from "@/types/api";
+import { DirectionsProvider } from "@/services/directions";
 import { Coordinate } from "./utils/types";
 import {
   RECALCULATION_DISTANCE_THRESHOLD,
@@ -10,6 +12,11 @@ import {
 } from "./utils/constants";
 
 interface UseRouteReroutingOptions {
+  waypoints?: Coordinate[]; // Stops that still have to be visited, in order
+  avoidPoints?: Coordinate[]; // Locations the new route must not go through
+  avoidAreas?: AvoidArea[]; // Zones the new route must stay out of
+  profile?: RoutingProfile;
+  directionsProvider?: DirectionsProvider;
   onRerouteStart?: () => void;
   onRerouteSuccess?: (newRoute: Route) => void;
   onRerouteError?: (error: Error) => void;
@@ -20,7 +27,16 @@ export const useRouteRerouting = (
   routeExcludes: string[] | undefined,
   options: UseRouteReroutingOptions = {}
 ) => {
-  const { onRerouteStart, onRerouteSuccess, onRerouteError } = options;
+  const {
+    waypoints,
+    avoidPoints,
+    avoidAreas,
+    profile,
+    directionsProvider,
+    onRerouteStart,
+    onRerouteSuccess,
+    onRerouteError,
+  } = options;
 
   const [isRerouting, setIsRerouting] = useState<boolean>(false);
   const lastRerouteLocationRef = useRef<Coordinate | null>(null); // Changed to ref
@@ -92,7 +108,12 @@ export const useRouteRerouting = (
           {
             // Use the renamed import
             excludes: routeExcludes,
-          }
+            avoidPoints,
+            avoidAreas,
+            waypoints,
+            profile,
+          },
+          directionsProvider
         );
 
         if (response.routes && response.routes.length > 0) {
@@ -124,6 +145,11 @@ export const useRouteRerouting = (
     [
       destination,
       routeExcludes,
+      avoidPoints,
+      avoidAreas,
+      waypoints,
+      profile,
+      directionsProvider,
       checkShouldRecalculate, // This is stable if its deps are stable
       onRerouteStart,
       onRerouteSuccess,
@@ -0,0 +1,146 @@
+import { FixtureDirectionsProvider } from "@/services/directions";
+import { MapboxDirectionsResponse } from "@/types/mapbox";
+import { AvoidArea } from "@/types/api";
+import { MAX_EXCLUDE_POINTS } from "../constants";
+import { fetchRoute } from "../mapboxApi";
+import { getCrossedAvoidAreas } from "../routeAnalysis";
+import { Coordinate } from "../types";
+
+const ORIGIN: Coordinate = [2.3522, 48.8566];
+const STOP: Coordinate = [2.3622, 48.8566];
+const DESTINATION: Coordinate = [2.3722, 48.8606];
+
+const NO_ROUTE: MapboxDirectionsResponse = {
+  code: "NoRoute",
+  uuid: "fixture-no-route",
+  routes: [],
+  waypoints: [],
+};
+
+describe("fetchRoute with the fixture provider", () => {
+  let warnSpy: jest.SpyInstance;
+
+  beforeEach(() => {
+    warnSpy = jest.spyOn(console, "warn").mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    warnSpy.mockRestore();
+  });
+
+  it("returns one leg per stop and forwards the request options", async () => {
+    const provider = new FixtureDirectionsProvider();
+
+    const response = await fetchRoute(
+      ORIGIN,
+      DESTINATION,
+      { waypoints: [STOP], excludes: ["toll"], profile: "driving" },
+      provider
+    );
+
+    expect(response.routes).toHaveLength(1);
+    const [route] = response.routes;
+    expect(route.legs).toHaveLength(2);
+    expect(route.geometry.coordinates[0]).toEqual(ORIGIN);
+    expect(route.geometry.coordinates.at(-1)).toEqual(DESTINATION);
+    expect(route.distance).toBeCloseTo(
+      route.legs[0].distance + route.legs[1].distance
+    );
+
+    expect(provider.recordedRequests).toHaveLength(1);
+    expect(provider.recordedRequests[0]).toMatchObject({
+      origin: ORIGIN,
+      destination: DESTINATION,
+      request: { waypoints: [STOP], excludes: ["toll"], profile: "driving" },
+    });
+  });
+
+  it("retries without the points to avoid when they leave no route", async () => {
+    const provider = new FixtureDirectionsProvider({ responses: [NO_ROUTE] });
+
+    const response = await fetchRoute(
+      ORIGIN,
+      DESTINATION,
+      { avoidPoints: [STOP] },
+      provider
+    );
+
+    expect(response.routes).toHaveLength(1);
+    expect(provider.recordedRequests).toHaveLength(2);
+    expect(provider.recordedRequests[0].request?.avoidPoints).toEqual([STOP]);
+    expect(provider.recordedRequests[1].request?.avoidPoints).toEqual([]);
+  });
+
+  it("keeps the points to avoid when the request fails", async () => {
+    const provider = new FixtureDirectionsProvider();
+    const getDirections = jest
+      .spyOn(provider, "getDirections")
+      .mockRejectedValueOnce(new Error("Network Error"));
+
+    await expect(
+      fetchRoute(ORIGIN, DESTINATION, { avoidPoints: [STOP] }, provider)
+    ).rejects.toThrow("Network Error");
+    expect(getDirections).toHaveBeenCalledTimes(1);
+  });
+
+  it("excludes the places where the route crosses an avoid area", async () => {
+    const provider = new FixtureDirectionsProvider();
+    const area: AvoidArea = {
+      id: "area",
+      name: "Centre",
+      enabled: true,
+      shape: "circle",
+      coordinates: [[2.3622, 48.8586]],
+      radius: 100,
+    };
+
+    const response = await fetchRoute(
+      ORIGIN,
+      DESTINATION,
+      { avoidAreas: [area] },
+      provider
+    );
+
+    // Straight-line routes cannot go around the area, the last attempt is returned
+    expect(getCrossedAvoidAreas(response.routes[0], [area])).toHaveLength(1);
+    expect(provider.recordedRequests.length).toBeGreaterThan(1);
+    expect(
+      provider.recordedRequests[1].request?.avoidPoints?.length
+    ).toBeGreaterThan(0);
+  });
+
+  it("never sends more points to avoid than the backend accepts", async () => {
+    const provider = new FixtureDirectionsProvider();
+    // Far from the route, leaving room for a single crossing point
+    const avoidPoints: Coordinate[] = Array.from(
+      { length: MAX_EXCLUDE_POINTS - 1 },
+      (_, index) => [2.2 + index * 0.001, 48.7]
+    );
+    const areas: AvoidArea[] = [1 / 3, 2 / 3].map((fraction, index) => ({
+      id: `area-${index}`,
+      name: `Zone ${index}`,
+      enabled: true,
+      shape: "circle",
+      coordinates: [
+        [
+          ORIGIN[0] + (DESTINATION[0] - ORIGIN[0]) * fraction,
+          ORIGIN[1] + (DESTINATION[1] - ORIGIN[1]) * fraction,
+        ],
+      ],
+      radius: 100,
+    }));
+
+    const response = await fetchRoute(
+      ORIGIN,
+      DESTINATION,
+      { avoidPoints, avoidAreas: areas },
+      provider
+    );
+
+    expect(getCrossedAvoidAreas(response.routes[0], areas)).toHaveLength(2);
+    const sentPoints = provider.recordedRequests.map(
+      ({ request }) => request?.avoidPoints?.length ?? 0
+    );
+    expect(Math.max(...sentPoints)).toBe(MAX_EXCLUDE_POINTS);
+  });
+});
@@ -0,0 +1,352 @@
+import * as turf from "@turf/turf";
+import { Leg, Route, Step } from "@/types/mapbox";
+import { NavigationSession } from "../navigationSession";
+import { RouteSimulator } from "../routeSimulator";
+import { Coordinate, LocationFix } from "../types";
+
+const SPEED_MS = 14;
+
+const moveBy = (
+  from: Coordinate,
+  bearing: number,
+  meters: number
+): Coordinate =>
+  turf.destination(turf.point(from), meters, bearing, { units: "meters" })
+    .geometry.coordinates as Coordinate;
+
+const buildStep = (
+  from: Coordinate,
+  to: Coordinate,
+  type: string,
+  instruction: string,
+  announcement?: string
+): Step => {
+  const distance = turf.distance(turf.point(from), turf.point(to), {
+    units: "meters",
+  });
+  return {
+    geometry: { type: "LineString", coordinates: [from, to] },
+    mode: "driving",
+    name: "",
+    distance,
+    duration: distance / SPEED_MS,
+    weight: distance / SPEED_MS,
+    maneuver: {
+      type,
+      instruction,
+      bearing_before: 0,
+      bearing_after: 0,
+      location: from,
+    },
+    voiceInstructions: announcement
+      ? [
+          {
+            distanceAlongGeometry: distance,
+            announcement,
+            ssmlAnnouncement: "",
+          },
+        ]
+      : [],
+  };
+};
+
+const buildLeg = (steps: Step[]): Leg => {
+  const distance = steps.reduce((sum, step) => sum + step.distance, 0);
+  const duration = steps.reduce((sum, step) => sum + step.duration, 0);
+  return {
+    via_waypoints: [],
+    admins: [],
+    weight_typical: duration,
+    duration_typical: duration,
+    weight: duration,
+    duration,
+    distance,
+    summary: "",
+    steps,
+  };
+};
+
+const buildRouteFromLegs = (legs: Leg[], coordinates: Coordinate[]): Route => {
+  const distance = legs.reduce((sum, leg) => sum + leg.distance, 0);
+  const duration = legs.reduce((sum, leg) => sum + leg.duration, 0);
+  return {
+    weight_typical: duration,
+    duration_typical: duration,
+    is_prefered: true,
+    weight_name: "auto",
+    weight: duration,
+    duration,
+    distance,
+    legs,
+    geometry: { type: "LineString", coordinates },
+    voiceLocale: "fr-FR",
+  };
+};
+
+// East to a stop, then north and right to the destination
+const START: Coordinate = [2.35, 48.85];
+const STOP = moveBy(START, 90, 600);
+const CORNER = moveBy(STOP, 0, 600);
+const END = moveBy(CORNER, 90, 400);
+
+const buildRoute = (): Route =>
+  buildRouteFromLegs(
+    [
+      buildLeg([
+        buildStep(
+          START,
+          STOP,
+          "depart",
+          "Partez vers l'est",
+          "Partez vers l'est"
+        ),
+        buildStep(STOP, STOP, "arrive", "Vous êtes arrivé à l'étape 1"),
+      ]),
+      buildLeg([
+        buildStep(STOP, CORNER, "depart", "Partez vers le nord"),
+        buildStep(CORNER, END, "turn", "Tournez à droite", "Tournez à droite"),
+        buildStep(END, END, "arrive", "Vous êtes arrivé à destination"),
+      ]),
+    ],
+    [START, STOP, CORNER, END]
+  );
+
+/**
+ * Drive the whole route with the simulator, recording what the session emits
+ * @param adjustFix Changes each simulated fix, e.g. to add a GPS bias
+ */
+const driveRoute = (
+  session: NavigationSession,
+  route: Route,
+  adjustFix: (fix: LocationFix) => LocationFix = (fix) => fix
+) => {
+  const events = {
+    instructions: [] as string[],
+    steps: [] as [number, number][],
+    stops: [] as number[],
+    offRoute: 0,
+    arrived: 0,
+  };
+  session.on("instruction", (instruction) =>
+    events.instructions.push(instruction)
+  );
+  session.on("stepChanged", (stepIndex, legIndex) =>
+    events.steps.push([stepIndex, legIndex])
+  );
+  session.on("waypointReached", (stopIndex) => events.stops.push(stopIndex));
+  session.on("offRoute", () => events.offRoute++);
+  session.on("arrived", () => events.arrived++);
+
+  session.start(route);
+  const simulator = new RouteSimulator(route, { speed: 50, startTime: 0 });
+  let fix: LocationFix | null;
+  while ((fix = simulator.next())) {
+    session.updateLocation(adjustFix(fix));
+  }
+  return events;
+};
+
+describe("NavigationSession driven by the route simulator", () => {
+  it("advances through the steps of every leg", () => {
+    const session = new NavigationSession({ profile: "driving" });
+    const events = driveRoute(session, buildRoute());
+
+    // Flattened indexes: leg 0 has steps 0-1, leg 1 has steps 2-4
+    expect(events.steps).toEqual([
+      [2, 1],
+      [3, 1],
+    ]);
+    expect(events.instructions[0]).toBe("Partez vers l'est");
+    expect(events.instructions).toContain("Tournez à droite");
+    expect(events.offRoute).toBe(0);
+  });
+
+  it("announces the stop once it is reached", () => {
+    const session = new NavigationSession({ profile: "driving" });
+    const events = driveRoute(session, buildRoute());
+
+    expect(events.stops).toEqual([0]);
+    expect(
+      events.instructions.some((instruction) =>
+        instruction.startsWith("Vous avez atteint l'étape 1.")
+      )
+    ).toBe(true);
+  });
+
+  it("arrives once at the end of the route and stops following it", () => {
+    const session = new NavigationSession({ profile: "driving" });
+    const route = buildRoute();
+    const events = driveRoute(session, route);
+
+    expect(events.arrived).toBe(1);
+    expect(events.instructions.at(-1)).toBe("Vous êtes arrivé à destination");
+    expect(session.isActive()).toBe(false);
+
+    // Fixes after the arrival are ignored
+    session.updateLocation({ coordinates: END, speed: 0, timestamp: 999999 });
+    expect(events.arrived).toBe(1);
+  });
+
+  it("follows a road driven out and back on the pass being driven", () => {
+    // East to the end of a dead end, back west along the same road, then north
+    const deadEnd = moveBy(START, 90, 800);
+    const corner = moveBy(deadEnd, 270, 500);
+    const destination = moveBy(corner, 0, 400);
+    const route = buildRouteFromLegs(
+      [
+        buildLeg([
+          buildStep(START, deadEnd, "depart", "Partez vers l'est"),
+          buildStep(
+            deadEnd,
+            corner,
+            "continue",
+            "Faites demi-tour",
+            "Faites demi-tour"
+          ),
+          buildStep(
+            corner,
+            destination,
+            "turn",
+            "Tournez à droite",
+            "Tournez à droite"
+          ),
+          buildStep(
+            destination,
+            destination,
+            "arrive",
+            "Vous êtes arrivé à destination"
+          ),
+        ]),
+      ],
+      [START, deadEnd, corner, destination]
+    );
+    const session = new NavigationSession({ profile: "driving" });
+    const events = driveRoute(session, route);
+
+    expect(events.instructions).not.toContain(
+      "Faites demi-tour dès que possible"
+    );
+    expect(events.offRoute).toBe(0);
+    expect(events.steps).toEqual([
+      [1, 0],
+      [2, 0],
+    ]);
+    expect(events.arrived).toBe(1);
+  });
+
+  it("keeps a stop reached when the next leg drives back along the same road", () => {
+    // East to a stop at the end of a dead end, then back west on the other
+    // carriageway, 6 m north, and north to the destination
+    const returnStart = moveBy(STOP, 0, 6);
+    const corner = moveBy(returnStart, 270, 400);
+    const destination = moveBy(corner, 0, 400);
+    const route = buildRouteFromLegs(
+      [
+        buildLeg([
+          buildStep(START, STOP, "depart", "Partez vers l'est"),
+          buildStep(STOP, STOP, "arrive", "Vous êtes arrivé à l'étape 1"),
+        ]),
+        buildLeg([
+          buildStep(STOP, returnStart, "depart", "Faites demi-tour"),
+          buildStep(returnStart, corner, "continue", "Continuez tout droit"),
+          buildStep(
+            corner,
+            destination,
+            "turn",
+            "Tournez à droite",
+            "Tournez à droite"
+          ),
+          buildStep(
+            destination,
+            destination,
+            "arrive",
+            "Vous êtes arrivé à destination"
+          ),
+        ]),
+      ],
+      [START, STOP, returnStart, corner, destination]
+    );
+    const session = new NavigationSession({ profile: "driving" });
+    // The fixes are 4 m south of the road, closer to the first pass on the way back
+    const events = driveRoute(session, route, (fix) => ({
+      ...fix,
+      coordinates: moveBy(fix.coordinates, 180, 4),
+    }));
+
+    expect(events.stops).toEqual([0]);
+    expect(events.steps.map(([, legIndex]) => legIndex)).toEqual(
+      events.steps.map(() => 1)
+    );
+    const stepIndexes = events.steps.map(([stepIndex]) => stepIndex);
+    expect(stepIndexes).toEqual([...stepIndexes].sort((a, b) => a - b));
+    expect(stepIndexes).toContain(4);
+    expect(events.instructions).not.toContain(
+      "Faites demi-tour dès que possible"
+    );
+    expect(events.offRoute).toBe(0);
+    expect(events.arrived).toBe(1);
+  });
+
+  it("reports leaving the route after consecutive fixes away from it", () => {
+    const session = new NavigationSession({ profile: "driving" });
+    const offRouteLocations: Coordinate[] = [];
+    session.on("offRoute", (location) => offRouteLocations.push(location));
+    session.start(buildRoute());
+
+    // Driving east on a parallel street, 200 m south of the first step
+    let position = moveBy(moveBy(START, 90, 100), 180, 200);
+    for (let second = 0; second < 10; second++) {
+      position = moveBy(position, 90, SPEED_MS);
+      session.updateLocation({
+        coordinates: position,
+        speed: 50,
+        timestamp: second * 1000,
+        accuracy: 5,
+        heading: 90,
+      });
+    }
+
+    expect(offRouteLocations.length).toBeGreaterThan(0);
+    expect(
+      turf.distance(turf.point(offRouteLocations[0]), turf.point(START), {
+        units: "meters",
+      })
+    ).toBeGreaterThan(150);
+    expect(session.isActive()).toBe(true);
+  });
+});
+
+describe("RouteSimulator", () => {
+  it("moves at the given speed and ends exactly on the destination", () => {
+    const route = buildRoute();
+    const simulator = new RouteSimulator(route, {
+      speed: 36,
+      interval: 1000,
+      startTime: 0,
+    });
+
+    const first = simulator.next() as LocationFix;
+    const second = simulator.next() as LocationFix;
+    expect(first.coordinates).toEqual(START);
+    expect(second.timestamp - first.timestamp).toBe(1000);
+    expect(
+      turf.distance(
+        turf.point(first.coordinates),
+        turf.point(second.coordinates),
+        {
+          units: "meters",
+        }
+      )
+    ).toBeCloseTo(10, 0);
+    expect(first.heading).toBeCloseTo(90, 0);
+
+    let last = second;
+    let fix: LocationFix | null;
+    while ((fix = simulator.next())) last = fix;
+    expect(
+      turf.distance(turf.point(last.coordinates), turf.point(END), {
+        units: "meters",
+      })
+    ).toBeLessThan(0.01);
+  });
+});
@@ -0,0 +1,270 @@
+import * as turf from "@turf/turf";
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import { FixtureDirectionsProvider } from "@/services/directions";
+import traceRecorder from "@/utils/traceRecorder";
+import { NavigationSession } from "../navigationSession";
+import { replayTrace, traceToGeoJSON, traceToGPX } from "../navigationTrace";
+import { RouteSimulator } from "../routeSimulator";
+import { Coordinate, LocationFix, NavigationTrace } from "../types";
+
+jest.mock("@react-native-async-storage/async-storage", () =>
+  require("@react-native-async-storage/async-storage/jest/async-storage-mock")
+);
+
+const START: Coordinate = [2.35, 48.85];
+const STOP: Coordinate = [2.3637, 48.85];
+const DESTINATION: Coordinate = [2.3637, 48.858];
+const METERS_PER_FIX = 14;
+
+const moveBy = (
+  from: Coordinate,
+  bearing: number,
+  meters: number
+): Coordinate =>
+  turf.destination(turf.point(from), meters, bearing, { units: "meters" })
+    .geometry.coordinates as Coordinate;
+
+/**
+ * Record a trip with a detour: leave the route south, reroute, then drive
+ * the new route to the destination
+ */
+const recordTrip = async (): Promise<NavigationTrace> => {
+  const provider = new FixtureDirectionsProvider();
+  const {
+    routes: [route],
+  } = await provider.getDirections(START, DESTINATION, {
+    waypoints: [STOP],
+    profile: "driving",
+  });
+
+  const session = new NavigationSession({ profile: "driving" });
+  const offRouteLocations: Coordinate[] = [];
+  session.on("offRoute", (location) => offRouteLocations.push(location));
+
+  // Same order as useRouteNavigation: the recorder first, then the session
+  await traceRecorder.setEnabled(true);
+  traceRecorder.start(session);
+  session.start(route);
+  const feed = (fix: LocationFix) => {
+    traceRecorder.recordFix(fix);
+    session.updateLocation(fix);
+  };
+
+  // One fix per second at 50 km/h, east along the route then south off it
+  let timestamp = 1000;
+  let position = START;
+  for (let second = 0; second < 60; second++) {
+    const heading = second < 30 ? 90 : 180;
+    position = second === 0 ? START : moveBy(position, heading, METERS_PER_FIX);
+    feed({
+      coordinates: position,
+      speed: 50,
+      timestamp: (timestamp += 1000),
+      accuracy: 5,
+      heading,
+    });
+    if (offRouteLocations.length > 0) break;
+  }
+  expect(offRouteLocations.length).toBeGreaterThan(0);
+
+  const {
+    routes: [reroute],
+  } = await provider.getDirections(offRouteLocations[0], DESTINATION, {
+    waypoints: [STOP],
+    profile: "driving",
+  });
+  session.setRoute(reroute);
+
+  const simulator = new RouteSimulator(reroute, {
+    speed: 72,
+    startTime: timestamp + 1000,
+  });
+  let fix: LocationFix | null;
+  while ((fix = simulator.next()) && session.isActive()) {
+    feed(fix);
+  }
+
+  await traceRecorder.stop();
+  return traceRecorder.getTraces()[0];
+};
+
+describe("Recorded navigation traces", () => {
+  let trace: NavigationTrace;
+
+  beforeAll(async () => {
+    trace = await recordTrip();
+  });
+
+  it("records the fixes, both routes and the navigation events", () => {
+    expect(trace.routes).toHaveLength(2);
+    expect(trace.fixes.length).toBeGreaterThan(20);
+    const types = trace.events.map((event) => event.type);
+    expect(types).toContain("offRoute");
+    expect(types).toContain("waypointReached");
+    expect(types.at(-1)).toBe("arrived");
+  });
+
+  it("stores each trace in its own entry, without the step geometries", async () => {
+    const ids = JSON.parse(
+      (await AsyncStorage.getItem("navigationTraceIds")) as string
+    );
+    expect(ids).toEqual([trace.id]);
+    const stored = await AsyncStorage.getItem(`navigationTrace:${trace.id}`);
+    expect(JSON.parse(stored as string)).toEqual(
+      JSON.parse(JSON.stringify(trace))
+    );
+
+    const steps = trace.routes.flatMap(({ route }) =>
+      route.legs.flatMap((leg) => leg.steps)
+    );
+    expect(steps.length).toBeGreaterThan(0);
+    steps.forEach((step) => {
+      expect(step.geometry.coordinates).toEqual([]);
+      expect(step.intersections).toBeUndefined();
+    });
+  });
+
+  it("moves the traces saved in a single entry to one entry each", async () => {
+    const legacyTrace = { ...trace, id: "legacy", startedAt: 0 };
+    await AsyncStorage.setItem(
+      "navigationTraces",
+      JSON.stringify([legacyTrace])
+    );
+
+    await traceRecorder.initialize();
+
+    expect(traceRecorder.getTraces().map(({ id }) => id)).toEqual([
+      trace.id,
+      "legacy",
+    ]);
+    expect(await AsyncStorage.getItem("navigationTraces")).toBeNull();
+    expect(await AsyncStorage.getItem("navigationTrace:legacy")).not.toBeNull();
+  });
+
+  it("replays a saved trace into the same events", () => {
+    // Saved traces come back from storage as JSON
+    const saved: NavigationTrace = JSON.parse(JSON.stringify(trace));
+    expect(replayTrace(saved)).toEqual(trace.events);
+  });
+
+  it("exports the track, routes and events to GeoJSON", () => {
+    const geoJSON: GeoJSON.FeatureCollection = JSON.parse(
+      JSON.stringify(traceToGeoJSON(trace))
+    );
+    const byKind = (kind: string) =>
+      geoJSON.features.filter((feature) => feature.properties?.kind === kind);
+
+    const fixes: LocationFix[] = byKind("fix").map((feature) => ({
+      coordinates: (feature.geometry as GeoJSON.Point)
+        .coordinates as Coordinate,
+      speed: feature.properties?.speed,
+      timestamp: Date.parse(feature.properties?.time),
+      // Missing values are exported as null
+      accuracy: feature.properties?.accuracy ?? undefined,
+      heading: feature.properties?.heading ?? undefined,
+    }));
+    expect(fixes).toEqual(trace.fixes);
+
+    const [track] = byKind("track");
+    expect((track.geometry as GeoJSON.LineString).coordinates).toEqual(
+      trace.fixes.map((fix) => fix.coordinates)
+    );
+    expect(byKind("route").map((feature) => feature.geometry)).toEqual(
+      trace.routes.map(({ route }) => route.geometry)
+    );
+    expect(byKind("event").map((feature) => feature.properties?.event)).toEqual(
+      trace.events.map((event) => event.type)
+    );
+  });
+
+  it("exports the track, routes and events to GPX", () => {
+    const gpx = traceToGPX(trace);
+
+    const readTag = (xml: string, tag: string): number | undefined => {
+      const match = xml.match(new RegExp(`<${tag}>([^<]+)</${tag}>`));
+      return match ? Number(match[1]) : undefined;
+    };
+    const trackPoints = [
+      ...gpx.matchAll(
+        /<trkpt lat="([^"]+)" lon="([^"]+)">([\s\S]*?)<\/trkpt>/g
+      ),
+    ].map(([, lat, lon, content]): LocationFix => {
+      const speed = readTag(content, "speed");
+      return {
+        coordinates: [Number(lon), Number(lat)],
+        // Speed is exported in m/s
+        speed: speed !== undefined ? speed * 3.6 : null,
+        timestamp: Date.parse(
+          content.match(/<time>([^<]+)<\/time>/)?.[1] ?? ""
+        ),
+        accuracy: readTag(content, "accuracy"),
+        heading: readTag(content, "course"),
+      };
+    });
+    expect(trackPoints).toHaveLength(trace.fixes.length);
+    trackPoints.forEach((point, index) => {
+      const { speed, ...fix } = trace.fixes[index];
+      expect(point).toMatchObject(fix);
+      expect(point.speed).toBeCloseTo(speed as number, 6);
+    });
+
+    expect(gpx.match(/<rte>/g)).toHaveLength(trace.routes.length);
+    const waypointNames = [
+      ...gpx.matchAll(/<wpt [^>]+>[\s\S]*?<name>([^<]+)<\/name>/g),
+    ].map(([, name]) => name);
+    expect(waypointNames).toEqual(trace.events.map((event) => event.type));
+  });
+});
+
+describe("Recorded navigation traces with a gap in the fixes", () => {
+  /**
+   * Record a trip through a tunnel: positions are estimated on a timer while
+   * no fix arrives, and the first fixes after it are off the route
+   */
+  const recordTunnelTrip = async (): Promise<NavigationTrace> => {
+    const provider = new FixtureDirectionsProvider();
+    const {
+      routes: [route],
+    } = await provider.getDirections(START, DESTINATION, {
+      waypoints: [STOP],
+      profile: "driving",
+    });
+
+    const session = new NavigationSession({ profile: "driving" });
+    await traceRecorder.setEnabled(true);
+    traceRecorder.start(session);
+    session.start(route);
+
+    const simulator = new RouteSimulator(route, {
+      speed: 72,
+      startTime: 1000,
+    });
+    let fix: LocationFix | null;
+    for (let index = 0; (fix = simulator.next()) && index < 40; index++) {
+      if (index >= 20 && index < 28) {
+        // In the tunnel: the same one second timer as useRouteNavigation
+        session.estimateLocation(fix.timestamp);
+        continue;
+      }
+      // Drifted fixes on the way out, ignored while the session recovers
+      const recorded =
+        index >= 28 && index < 31
+          ? { ...fix, coordinates: moveBy(fix.coordinates, 180, 80) }
+          : fix;
+      traceRecorder.recordFix(recorded);
+      session.updateLocation(recorded);
+    }
+
+    await traceRecorder.stop();
+    return traceRecorder.getTraces()[0];
+  };
+
+  it("replays the positions estimated while no fix arrived", async () => {
+    const trace = await recordTunnelTrip();
+
+    expect(trace.estimates?.length).toBeGreaterThan(0);
+    expect(trace.events.map((event) => event.type)).not.toContain("offRoute");
+    const saved: NavigationTrace = JSON.parse(JSON.stringify(trace));
+    expect(replayTrace(saved)).toEqual(trace.events);
+  });
+});
@@ -1,4 +1,6 @@
 import Config from "react-native-config";
+import { PinType, RoutingProfile } from "@/types/api";
+import { ProfileNavigationSettings } from "./types";
 
 // Mapbox API access token
 export const MAPBOX_ACCESS_TOKEN = Config.MAPBOX_PK as string;
@@ -18,6 +20,39 @@ export const RECALCULATION_TIME_THRESHOLD = 30000; // 30 seconds between allowed
 // Number of consecutive off-route detections needed before rerouting
 export const OFF_ROUTE_CONFIRMATION_COUNT = 3;
 
+// Below this speed (in km/h) the course of a fix is too noisy to be compared with the route
+export const OFF_ROUTE_COURSE_MIN_SPEED_KMH = 15;
+
+// Difference (in degrees) between the course and the route tolerated at high speed,
+// widened at lower speeds where the course is less reliable
+export const OFF_ROUTE_HEADING_TOLERANCE = 30;
+
+// Distance (in meters) from a bend of the route within which the course may match either side of it
+export const OFF_ROUTE_BEND_RADIUS_METERS = 30;
+
+// Distance (in meters) from the route past which a course leaving it counts as off route,
+// e.g. a parallel service road that the distance threshold alone cannot tell apart
+export const OFF_ROUTE_HEADING_MIN_DISTANCE = 15;
+
+// Difference (in degrees) between the course and the route above which the user goes the wrong way
+export const WRONG_WAY_HEADING_DIFFERENCE = 135;
+
+// Distance (in meters) travelled back along the route that counts as going the wrong way
+export const WRONG_WAY_MIN_BACKTRACK_METERS = 20;
+
+// Consecutive wrong-way fixes before asking for a U-turn
+export const WRONG_WAY_CONFIRMATION_COUNT = 3;
+
+// Consecutive wrong-way fixes before rerouting from where the user is, when no U-turn was made
+export const WRONG_WAY_REROUTE_COUNT = 8;
+
+// Distance (in meters) along the route past the last matched fix searched for the next one,
+// so a road the route uses twice, e.g. out and back, is matched to the pass being driven
+export const ROUTE_MATCH_WINDOW_METERS = 1000;
+
+// Distance (in meters) before the last matched fix also searched, to follow a user going back
+export const ROUTE_MATCH_BACKTRACK_METERS = 100;
+
 // Default language for navigation instructions
 export const DEFAULT_NAVIGATION_LANGUAGE = "fr-FR";
 
@@ -25,3 +60,169 @@ export const DEFAULT_NAVIGATION_LANGUAGE = "fr-FR";
 export const DEFAULT_TTS_RATE = 0.5;
 
 export const ARRIVAL_THRESHOLD_METERS = 20;
+
+// Profile used when the user has not chosen one
+export const DEFAULT_ROUTING_PROFILE: RoutingProfile = "driving-traffic";
+
+// Off-route tolerance, camera zoom and voice timing for each profile.
+// Slower profiles get tighter thresholds and a closer camera.
+export const PROFILE_NAVIGATION_SETTINGS: Record<
+  RoutingProfile,
+  ProfileNavigationSettings
+> = {
+  "driving-traffic": {
+    offRouteThreshold: OFF_ROUTE_THRESHOLD,
+    followZoomLevel: 17,
+    voiceActivationBuffer: 30,
+  },
+  driving: {
+    offRouteThreshold: OFF_ROUTE_THRESHOLD,
+    followZoomLevel: 17,
+    voiceActivationBuffer: 30,
+  },
+  cycling: {
+    offRouteThreshold: 30,
+    followZoomLevel: 18,
+    voiceActivationBuffer: 15,
+  },
+  walking: {
+    offRouteThreshold: 20,
+    followZoomLevel: 19,
+    voiceActivationBuffer: 8,
+  },
+};
+
+// Exclusion classes the Directions API accepts for walking and cycling
+export const NON_DRIVING_EXCLUDES = ["ferry"];
+
+// Exclusion classes the Directions API accepts for driving, it cannot exclude tunnels
+export const DRIVING_EXCLUDES = [
+  "motorway",
+  "toll",
+  "ferry",
+  "unpaved",
+  "cash_only_tolls",
+  "country_border",
+  "state_border",
+];
+
+// Exclusion classes, or combinations of them, defined by the stock OSRM profiles.
+// OSRM rejects a request whose excludes do not match one of these combinations exactly.
+export const OSRM_EXCLUDE_COMBINATIONS: Record<string, string[][]> = {
+  driving: [["toll"], ["motorway"], ["ferry"]],
+  walking: [],
+  cycling: [],
+};
+
+// Step used to adjust the departure or arrival time of a scheduled trip
+export const SCHEDULE_STEP_MINUTES = 15;
+
+// Maximum number of intermediate stops, the Directions API accepts 25 coordinates including origin and destination
+export const MAX_ROUTE_WAYPOINTS = 23;
+
+// Coordinates accepted by the Mapbox driving-traffic profile, trips with more stops use driving
+export const MAX_TRAFFIC_ROUTE_COORDINATES = 3;
+
+// Minimum distance on a road class before the route is shown as using it
+export const MIN_FEATURE_DISTANCE_METERS = 100;
+
+// Motorway numbers, possibly after a European route number (A 6, A7, E 15; A 7)
+export const MOTORWAY_REF_PATTERN = /(^|;\s*)A\s?\d/;
+
+// Distance under which two routes are considered to use the same road
+export const ROUTE_OVERLAP_TOLERANCE_METERS = 30;
+
+// Interval at which route geometries are sampled to compare them
+export const ROUTE_SAMPLE_SPACING_METERS = 20;
+
+// Alternatives sharing at least this share of their path with a better route are dropped
+export const DUPLICATE_ROUTE_SIMILARITY = 0.9;
+
+// Approximate length of a degree of latitude, used for local planar projections
+export const METERS_PER_DEGREE = 111320;
+
+// Minimum time saved (in seconds) before a faster route is offered during navigation
+export const FASTER_ROUTE_MIN_TIME_SAVED = 180;
+
+// Time (in ms) the faster route prompt stays on screen without an answer
+export const FASTER_ROUTE_PROMPT_DURATION = 20000;
+
+// Minimum time saved (in seconds) before a suggested stop order is applied
+export const STOP_ORDER_MIN_TIME_SAVED = 60;
+
+// Speed (in km/h) tolerated above the limit before warning the driver
+export const SPEED_LIMIT_MARGIN_KMH = 5;
+
+// Minimum time (in ms) between two spoken overspeed alerts
+export const OVERSPEED_ALERT_COOLDOWN = 30000;
+
+export const MPH_TO_KMH = 1.609344;
+
+// Length (in meters) of the route pieces whose pins are fetched in one request
+export const PIN_CORRIDOR_CHUNK_METERS = 20000;
+
+// Width (in meters) added around a route chunk when fetching its pins
+export const PIN_CORRIDOR_MARGIN_METERS = 1000;
+
+// Maximum number of route chunks whose pins are fetched at the same time
+export const PIN_CORRIDOR_MAX_CONCURRENT_REQUESTS = 3;
+
+// Distance (in meters) ahead of the user whose pins are refreshed while navigating
+export const PIN_CORRIDOR_LOOKAHEAD_METERS = 60000;
+
+// Maximum distance (in meters) between a pin and a route for the pin to be on it
+export const PIN_ROUTE_CORRIDOR_METERS = 30;
+
+// Pin types that can be routed around
+export const AVOIDABLE_PIN_TYPES: PinType[] = ["accident", "roadwork"];
+
+// Maximum number of points the Directions API accepts in exclude
+export const MAX_EXCLUDE_POINTS = 50;
+
+// Requests made to steer routes out of the avoid areas before giving up
+export const AVOID_AREA_MAX_ATTEMPTS = 3;
+
+// Radius options (in meters) offered when placing a circular avoid area
+export const AVOID_AREA_RADIUS_OPTIONS = [200, 500, 1000, 2000];
+
+// Speeds (in km/h) offered when simulating a trip from the developer menu
+export const SIMULATION_SPEED_OPTIONS = [30, 50, 90, 130];
+
+// Time (in ms) between two positions sent by the route simulator
+export const SIMULATION_TICK_INTERVAL = 1000;
+
+// Fixes less accurate than this (in meters) are ignored while navigating
+export const LOCATION_MAX_ACCURACY_METERS = 50;
+
+// Accuracy (in meters) assumed for fixes that do not report one, e.g. simulated ones
+export const LOCATION_DEFAULT_ACCURACY_METERS = 5;
+
+// Speed (in km/h) implied by a jump between two fixes above which the new fix is ignored
+export const LOCATION_MAX_PLAUSIBLE_SPEED_KMH = 250;
+
+// Above this speed (in km/h) a fix far behind the direction of travel is ignored
+export const LOCATION_HEADING_CHECK_MIN_SPEED_KMH = 20;
+
+// Consecutive ignored fixes after which the next one is trusted again, e.g. leaving a tunnel
+export const LOCATION_MAX_REJECTED_FIXES = 3;
+
+// How fast (in m/s) the smoothed position is allowed to drift from its prediction
+export const LOCATION_PROCESS_NOISE = 3;
+
+// Maximum distance (in meters) between a smoothed fix and the route for it to be drawn on the route
+export const ROUTE_SNAP_TOLERANCE_METERS = 15;
+
+// Time (in ms) without a usable fix after which the position is extrapolated along the route
+export const DEAD_RECKONING_DELAY = 3000;
+
+// Time (in ms) without a fix after which the position is no longer extrapolated
+export const DEAD_RECKONING_MAX_DURATION = 180000;
+
+// Time (in ms) between two extrapolated positions
+export const DEAD_RECKONING_TICK_INTERVAL = 1000;
+
+// Share of the extrapolated distance counted as uncertainty when fixes return
+export const DEAD_RECKONING_DRIFT_RATIO = 0.2;
+
+// Time (in ms) after fixes return during which leaving the route is not counted
+export const DEAD_RECKONING_RECOVERY_DURATION = 10000;
@@ -13,6 +13,14 @@ export const formatDuration = (seconds: number): string => {
   return `${minutes}min`;
 };
 
+/**
+ * Format a time of day for display
+ * @param date Date to format
+ * @returns Formatted string (e.g. "08:45")
+ */
+export const formatClockTime = (date: Date): string =>
+  date.toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" });
+
 /**
  * Format distance for display
  * @param meters Distance in meters
@@ -25,6 +33,24 @@ export const formatDistance = (meters: number): string => {
   return `${(meters / 1000).toFixed(1)}km`;
 };
 
+/**
+ * Format a distance the way it should be spoken
+ * @param meters Distance in meters
+ * @param step Rounding of distances under a kilometer, also the smallest distance spoken
+ * @returns Spoken string (e.g. "300 mètres", "1,5 kilomètre")
+ */
+export const formatSpokenDistance = (
+  meters: number,
+  step: number = 10
+): string => {
+  const rounded = Math.max(step, Math.round(meters / step) * step);
+  if (rounded < 1000) return `${rounded} mètres`;
+  const kilometers = Math.round(rounded / 100) / 10;
+  return `${String(kilometers).replace(".", ",")} kilomètre${
+    kilometers >= 2 ? "s" : ""
+  }`;
+};
+
 /**
  * Format a maneuver instruction to be more user-friendly
  * @param instruction Original instruction
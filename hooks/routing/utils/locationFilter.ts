@@ -0,0 +1,177 @@
+// hooks/routing/utils/locationFilter.ts
+import * as turf from "@turf/turf";
+import { Route } from "@/types/mapbox";
+import { Coordinate, FilteredLocationFix, LocationFix } from "./types";
+import { getHeadingDifference } from "./routeAnalysis";
+import {
+  LOCATION_MAX_ACCURACY_METERS,
+  LOCATION_DEFAULT_ACCURACY_METERS,
+  LOCATION_MAX_PLAUSIBLE_SPEED_KMH,
+  LOCATION_HEADING_CHECK_MIN_SPEED_KMH,
+  LOCATION_MAX_REJECTED_FIXES,
+  LOCATION_PROCESS_NOISE,
+  ROUTE_SNAP_TOLERANCE_METERS,
+} from "./constants";
+
+/**
+ * Cleans raw location fixes before they are used for navigation: drops
+ * inaccurate fixes and implausible jumps, smooths the position with a
+ * Kalman-style filter and snaps it onto the route when close enough.
+ * Has no dependency on the device, fixes are processed in the order given.
+ */
+export class LocationFilter {
+  private routeLine: ReturnType<typeof turf.lineString> | null = null;
+  private position: Coordinate | null = null;
+  private variance: number = 0; // meters², uncertainty of the smoothed position
+  private timestamp: number = 0; // Of the last accepted fix
+  private speed: number | null = null; // km/h, of the last accepted fix
+  private heading: number | null = null; // degrees, of the last accepted fix
+  private rejectedCount: number = 0;
+
+  /**
+   * Route the fixes are snapped to, null to only smooth them
+   */
+  public setRoute(route: Route | null): void {
+    this.routeLine =
+      route && route.geometry.coordinates.length >= 2
+        ? turf.lineString(route.geometry.coordinates)
+        : null;
+  }
+
+  /**
+   * Forget the previous fixes, e.g. when a new trip starts
+   */
+  public reset(): void {
+    this.position = null;
+    this.variance = 0;
+    this.speed = null;
+    this.heading = null;
+    this.rejectedCount = 0;
+  }
+
+  /**
+   * Move the position to one estimated without a fix, e.g. by dead reckoning.
+   * Its uncertainty lets the next real fix correct it instead of being rejected.
+   * @param uncertainty Expected error of the estimate, in meters
+   */
+  public setEstimate(fix: LocationFix, uncertainty: number): void {
+    this.position = fix.coordinates;
+    this.variance = uncertainty * uncertainty;
+    this.timestamp = fix.timestamp;
+    this.speed = fix.speed;
+    this.heading = fix.heading ?? this.heading;
+  }
+
+  /**
+   * Filter a fix
+   * @returns The fix with its cleaned position, or null when it should be ignored
+   */
+  public process(fix: LocationFix): FilteredLocationFix | null {
+    const accuracy = fix.accuracy ?? LOCATION_DEFAULT_ACCURACY_METERS;
+    if (accuracy > LOCATION_MAX_ACCURACY_METERS) return null;
+
+    if (this.position && !this.isPlausible(fix, accuracy)) {
+      this.rejectedCount += 1;
+      if (this.rejectedCount <= LOCATION_MAX_REJECTED_FIXES) return null;
+      // The jumps keep coming: the previous position was the wrong one
+      this.reset();
+    }
+    this.rejectedCount = 0;
+
+    this.smooth(fix, accuracy);
+    this.timestamp = fix.timestamp;
+    this.speed = fix.speed;
+    this.heading = fix.heading ?? this.heading;
+
+    const smoothed = this.position as Coordinate;
+    const snapped = this.snapToRoute(smoothed);
+    return {
+      ...fix,
+      coordinates: snapped ?? smoothed,
+      rawCoordinates: fix.coordinates,
+      snappedToRoute: snapped !== null,
+      estimated: false,
+    };
+  }
+
+  /**
+   * Whether the fix could follow the last accepted one, given the distance,
+   * the time elapsed and the direction of travel
+   */
+  private isPlausible(fix: LocationFix, accuracy: number): boolean {
+    const position = this.position as Coordinate;
+    const distance = turf.distance(position, fix.coordinates, {
+      units: "meters",
+    });
+    // Within the uncertainty of both positions, nothing can be told
+    if (distance <= accuracy + Math.sqrt(this.variance)) return true;
+
+    const elapsedSeconds = (fix.timestamp - this.timestamp) / 1000;
+    if (elapsedSeconds <= 0) return false;
+    const impliedSpeed = (distance / elapsedSeconds) * 3.6;
+    if (impliedSpeed > LOCATION_MAX_PLAUSIBLE_SPEED_KMH) return false;
+
+    // Moving fast, the user cannot suddenly be behind their previous position,
+    // unless the fix's own course says they turned around
+    if (
+      this.heading !== null &&
+      this.speed !== null &&
+      this.speed >= LOCATION_HEADING_CHECK_MIN_SPEED_KMH
+    ) {
+      const bearing = turf.bearing(position, fix.coordinates);
+      const turnedAround =
+        fix.heading != null && getHeadingDifference(bearing, fix.heading) <= 60;
+      if (getHeadingDifference(bearing, this.heading) > 120 && !turnedAround) {
+        return false;
+      }
+    }
+    return true;
+  }
+
+  /**
+   * Kalman-style update: the previous position is moved along the last known
+   * speed and heading, then blended with the fix according to their uncertainties
+   */
+  private smooth(fix: LocationFix, accuracy: number): void {
+    const measurementVariance = accuracy * accuracy;
+    if (!this.position) {
+      this.position = fix.coordinates;
+      this.variance = measurementVariance;
+      return;
+    }
+
+    const elapsedSeconds = Math.max(0, (fix.timestamp - this.timestamp) / 1000);
+    let predicted = this.position;
+    if (this.speed !== null && this.heading !== null && elapsedSeconds > 0) {
+      predicted = turf.destination(
+        predicted,
+        (this.speed / 3.6) * elapsedSeconds,
+        this.heading,
+        { units: "meters" }
+      ).geometry.coordinates as Coordinate;
+    }
+    const predictedVariance =
+      this.variance +
+      elapsedSeconds * LOCATION_PROCESS_NOISE * LOCATION_PROCESS_NOISE;
+
+    const gain = predictedVariance / (predictedVariance + measurementVariance);
+    this.position = [
+      predicted[0] + gain * (fix.coordinates[0] - predicted[0]),
+      predicted[1] + gain * (fix.coordinates[1] - predicted[1]),
+    ];
+    this.variance = (1 - gain) * predictedVariance;
+  }
+
+  /**
+   * Closest point of the route, when the position is within the snapping tolerance
+   */
+  private snapToRoute(position: Coordinate): Coordinate | null {
+    if (!this.routeLine) return null;
+    const nearest = turf.nearestPointOnLine(this.routeLine, position, {
+      units: "meters",
+    });
+    return nearest.properties.dist <= ROUTE_SNAP_TOLERANCE_METERS
+      ? (nearest.geometry.coordinates as Coordinate)
+      : null;
+  }
+}
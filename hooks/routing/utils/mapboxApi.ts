@@ -1,51 +1,92 @@
 // hooks/routing/utils/mapboxApi.ts
-import axios from "axios";
 import { MapboxDirectionsResponse } from "@/types/mapbox";
+import {
+  DirectionsProvider,
+  DirectionsRequest,
+  getDirectionsProvider,
+} from "@/services/directions";
 import { Coordinate } from "./types";
-import { MAPBOX_ACCESS_TOKEN } from "./constants"; // Ensure this is correctly imported and valid
+import {
+  getAvoidAreaCrossingPoints,
+  getCrossedAvoidAreas,
+} from "./routeAnalysis";
+import { AVOID_AREA_MAX_ATTEMPTS, MAX_EXCLUDE_POINTS } from "./constants";
 
 /**
- * Get driving directions between two points
+ * Get directions, retrying without the points to avoid when they leave no possible route.
+ * Providers answer an empty route list when no route exists, other errors are thrown.
  */
-export const fetchRoute = async (
+const fetchAvoidingPoints = async (
   origin: Coordinate,
   destination: Coordinate,
-  options?: {
-    alternatives?: boolean;
-    excludes?: string[];
-    language?: string;
-  }
+  options: DirectionsRequest | undefined,
+  provider: DirectionsProvider
 ): Promise<MapboxDirectionsResponse> => {
-  let url = `https://api.mapbox.com/directions/v5/mapbox/driving-traffic/${origin[0]},${origin[1]};${destination[0]},${destination[1]}`;
-  const params = new URLSearchParams({
-    access_token: MAPBOX_ACCESS_TOKEN,
-    alternatives:
-      options?.alternatives !== undefined
-        ? String(options.alternatives)
-        : "true",
-    geometries: "geojson",
-    overview: "full",
-    steps: "true",
-    voice_instructions: "true",
-    voice_units: "metric",
-    language: options?.language || "fr",
-    annotations: "duration,distance,speed,congestion",
+  if (!options?.avoidPoints || options.avoidPoints.length === 0) {
+    return provider.getDirections(origin, destination, options);
+  }
+
+  const response = await provider.getDirections(origin, destination, options);
+  if (response.routes.length > 0) return response;
+  console.warn("No route avoids the given points, ignoring them.");
+  return provider.getDirections(origin, destination, {
+    ...options,
+    avoidPoints: [],
   });
-  if (options?.excludes && options.excludes.length > 0) {
-    params.append("exclude", options.excludes.join(","));
+};
+
+/**
+ * Get directions between two points, optionally through intermediate waypoints.
+ * Every waypoint is a stop, so the response contains one leg per pair of consecutive coordinates.
+ * When the points to avoid leave no possible route, directions ignoring them are returned.
+ * Routes crossing the avoid areas are dropped; when they all cross, the request is repeated
+ * excluding the places where the best route goes through the areas. If no route can stay out,
+ * the routes of the last attempt are returned and the caller can tell with getCrossedAvoidAreas.
+ * @param provider Directions backend, the configured one by default
+ */
+export const fetchRoute = async (
+  origin: Coordinate,
+  destination: Coordinate,
+  options?: DirectionsRequest,
+  provider: DirectionsProvider = getDirectionsProvider()
+): Promise<MapboxDirectionsResponse> => {
+  const avoidAreas = options?.avoidAreas || [];
+  if (avoidAreas.length === 0) {
+    return fetchAvoidingPoints(origin, destination, options, provider);
   }
-  url += `?${params.toString()}`;
 
-  try {
-    const response = await axios.get<MapboxDirectionsResponse>(url);
-    return response.data;
-  } catch (error) {
-    console.error(
-      "Error fetching directions from Mapbox:",
-      axios.isAxiosError(error) && error.response ? error.response.data : (error as Error).message
+  let avoidPoints = options?.avoidPoints || [];
+  let response: MapboxDirectionsResponse | null = null;
+  for (let attempt = 0; attempt < AVOID_AREA_MAX_ATTEMPTS; attempt++) {
+    response = await fetchAvoidingPoints(
+      origin,
+      destination,
+      { ...options, avoidPoints },
+      provider
     );
-    throw error;
+    const clearRoutes = response.routes.filter(
+      (route) => getCrossedAvoidAreas(route, avoidAreas).length === 0
+    );
+    if (clearRoutes.length > 0) return { ...response, routes: clearRoutes };
+    if (response.routes.length === 0) return response;
+
+    // Stop when the backend keeps sending the route through the same places
+    const newPoints = getAvoidAreaCrossingPoints(
+      response.routes[0],
+      avoidAreas
+    ).filter(
+      (point) =>
+        !avoidPoints.some(
+          (avoided) => avoided[0] === point[0] && avoided[1] === point[1]
+        )
+    );
+    // Points past the limit would be dropped by the backend without notice
+    const remainingPoints = MAX_EXCLUDE_POINTS - avoidPoints.length;
+    if (newPoints.length === 0 || remainingPoints <= 0) break;
+    avoidPoints = [...avoidPoints, ...newPoints.slice(0, remainingPoints)];
   }
+  console.warn("No route stays out of the avoid areas.");
+  return response as MapboxDirectionsResponse;
 };
 
 /**
@@ -54,17 +95,19 @@ export const fetchRoute = async (
 export const recalculateRoute = async (
   currentLocation: Coordinate,
   destination: Coordinate,
-  options?: {
-    excludes?: string[];
-    language?: string;
-  }
+  options?: Omit<DirectionsRequest, "alternatives">,
+  provider?: DirectionsProvider
 ): Promise<MapboxDirectionsResponse> => {
   console.log(
     `Recalculating route from ${currentLocation} to ${destination} with excludes: ${options?.excludes}`
   );
-  return fetchRoute(currentLocation, destination, {
-    alternatives: false, // Typically, for rerouting, you want the single best new route
-    excludes: options?.excludes,
-    language: options?.language,
-  });
+  return fetchRoute(
+    currentLocation,
+    destination,
+    {
+      ...options, // waypoints are the stops not reached yet
+      alternatives: false, // Typically, for rerouting, you want the single best new route
+    },
+    provider
+  );
 };
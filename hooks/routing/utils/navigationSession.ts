@@ -0,0 +1,591 @@
+// hooks/routing/utils/navigationSession.ts
+import { EventEmitter } from "events";
+import * as turf from "@turf/turf";
+import { Route, Step, VoiceInstruction } from "@/types/mapbox";
+import { RoutingProfile } from "@/types/api";
+import {
+  Coordinate,
+  FilteredLocationFix,
+  LocationFix,
+  NavigationProgress,
+  RouteStepEntry,
+} from "./types";
+import {
+  findNearestPointOnRoute,
+  calculateDistanceInMeters,
+  hasArrivedAtDestination,
+  getSlicedRouteGeometry,
+  flattenRouteSteps,
+  getActiveBannerInstruction,
+  getSpeedLimit,
+  getHeadingDifference,
+  getRouteBearingsNear,
+} from "./routeAnalysis";
+import {
+  OFF_ROUTE_CONFIRMATION_COUNT,
+  ARRIVAL_THRESHOLD_METERS,
+  DEFAULT_ROUTING_PROFILE,
+  PROFILE_NAVIGATION_SETTINGS,
+  DEAD_RECKONING_DELAY,
+  DEAD_RECKONING_MAX_DURATION,
+  DEAD_RECKONING_DRIFT_RATIO,
+  DEAD_RECKONING_RECOVERY_DURATION,
+  OFF_ROUTE_COURSE_MIN_SPEED_KMH,
+  OFF_ROUTE_HEADING_TOLERANCE,
+  OFF_ROUTE_HEADING_MIN_DISTANCE,
+  OFF_ROUTE_BEND_RADIUS_METERS,
+  WRONG_WAY_HEADING_DIFFERENCE,
+  WRONG_WAY_MIN_BACKTRACK_METERS,
+  WRONG_WAY_CONFIRMATION_COUNT,
+  WRONG_WAY_REROUTE_COUNT,
+  ROUTE_MATCH_WINDOW_METERS,
+  ROUTE_MATCH_BACKTRACK_METERS,
+} from "./constants";
+import { LocationFilter } from "./locationFilter";
+
+type NavigationSessionEvents = {
+  location: (fix: FilteredLocationFix) => void; // Every fix kept by the location filter, and estimated positions
+  // isManeuverChange instructions interrupt the one being spoken
+  instruction: (text: string, isManeuverChange: boolean) => void;
+  stepChanged: (stepIndex: number, legIndex: number) => void;
+  waypointReached: (stopIndex: number) => void; // Index of the stop in the stops of the trip, across reroutes
+  offRoute: (location: Coordinate) => void;
+  wrongWay: (location: Coordinate) => void; // Going back along the route, a U-turn was asked
+  arrived: () => void;
+  progress: (progress: NavigationProgress) => void;
+  routeChanged: (route: Route) => void;
+};
+
+interface NavigationSessionOptions {
+  profile?: RoutingProfile; // Tunes off-route tolerance and voice timing
+  filterLocations?: boolean; // Clean the fixes with a LocationFilter, on by default
+}
+
+/**
+ * Follows the user along a route from the location fixes it is given.
+ * Has no dependency on React or on the device, so a trip can be replayed
+ * from recorded or simulated fixes.
+ */
+export class NavigationSession extends EventEmitter {
+  private route: Route | null = null;
+  private routeLine: ReturnType<typeof turf.lineString> | null = null;
+  private stepEntries: RouteStepEntry[] = [];
+  private profile: RoutingProfile;
+  private locationFilter: LocationFilter | null;
+  private active: boolean = false;
+  private stepIndex: number = 0;
+  private legIndex: number = 0;
+  // Stops reached since start(), later routes only go through the remaining ones
+  private reachedStopCount: number = 0;
+  private offRouteCount: number = 0;
+  private wrongWayCount: number = 0;
+  private furthestRouteDistance: number = 0; // meters, furthest progress of a real fix on this route
+  private lastFix: FilteredLocationFix | null = null; // Last real fix, estimates start from it
+  private lastFixRouteDistance: number | null = null; // Its distance along the route, null when off route
+  private estimating: boolean = false;
+  private recoveryEndTime: number = 0; // Timestamp until which off-route is not counted
+  // `${distanceAlongGeometry}-${announcement}` of the current step already spoken
+  private announcedForStep: Set<string> = new Set();
+
+  constructor(options: NavigationSessionOptions = {}) {
+    super();
+    this.profile = options.profile ?? DEFAULT_ROUTING_PROFILE;
+    this.locationFilter =
+      options.filterLocations === false ? null : new LocationFilter();
+  }
+
+  /**
+   * Start following a route, from its first step
+   */
+  public start(route: Route): void {
+    this.active = true;
+    this.locationFilter?.reset();
+    this.lastFix = null;
+    this.reachedStopCount = 0;
+    this.estimating = false;
+    this.recoveryEndTime = 0;
+    this.setRoute(route);
+  }
+
+  /**
+   * Stop following the route, later fixes are ignored
+   */
+  public stop(): void {
+    this.active = false;
+  }
+
+  /**
+   * Replace the route being followed, e.g. after a reroute, and start it over
+   */
+  public setRoute(route: Route): void {
+    this.route = route;
+    this.routeLine =
+      route.geometry.coordinates.length >= 2
+        ? turf.lineString(route.geometry.coordinates)
+        : null;
+    this.stepEntries = flattenRouteSteps(route);
+    this.locationFilter?.setRoute(route);
+    this.stepIndex = 0;
+    this.legIndex = 0;
+    this.offRouteCount = 0;
+    this.wrongWayCount = 0;
+    this.furthestRouteDistance = 0;
+    this.lastFixRouteDistance = null;
+    this.announcedForStep = new Set();
+    if (!this.active) return;
+    this.emit("routeChanged", route);
+    if (this.stepEntries.length === 0) return;
+
+    const firstStep = this.stepEntries[0].step;
+    const dueInstruction = this.takeDueVoiceInstruction(
+      firstStep,
+      firstStep.distance
+    );
+    this.emit(
+      "instruction",
+      dueInstruction?.announcement ?? firstStep.maneuver.instruction,
+      true
+    );
+  }
+
+  /**
+   * Change the routing profile whose thresholds are applied to the next fixes
+   */
+  public setProfile(profile: RoutingProfile): void {
+    this.profile = profile;
+  }
+
+  public getProfile(): RoutingProfile {
+    return this.profile;
+  }
+
+  public isActive(): boolean {
+    return this.active;
+  }
+
+  public getStepIndex(): number {
+    return this.stepIndex;
+  }
+
+  public getLegIndex(): number {
+    return this.legIndex;
+  }
+
+  /**
+   * Process a location fix: filters it, then detects leaving the route,
+   * arrival, step changes and the voice instructions that are due
+   */
+  public updateLocation(rawFix: LocationFix): void {
+    const route = this.route;
+    if (!this.active || !route || this.stepEntries.length === 0) return;
+
+    const fix: FilteredLocationFix | null = this.locationFilter
+      ? this.locationFilter.process(rawFix)
+      : {
+          ...rawFix,
+          rawCoordinates: rawFix.coordinates,
+          snappedToRoute: false,
+          estimated: false,
+        };
+    if (!fix) return; // Inaccurate or implausible, the next fixes will tell
+    if (this.estimating) {
+      // Back from an outage: the estimate may have drifted, give the fixes time to settle
+      this.estimating = false;
+      this.offRouteCount = 0;
+      this.recoveryEndTime = fix.timestamp + DEAD_RECKONING_RECOVERY_DURATION;
+    }
+    this.lastFix = fix;
+    this.followLocation(route, fix);
+  }
+
+  /**
+   * Extrapolate the position along the route when no usable fix arrived for a
+   * while (tunnel, underground car park), from the speed of the last fix.
+   * Does nothing while fixes keep coming, so it can be called on a timer.
+   * @param timestamp Current time
+   * @returns Whether an estimated position was emitted
+   */
+  public estimateLocation(timestamp: number): boolean {
+    const route = this.route;
+    const lastFix = this.lastFix;
+    const lastDistance = this.lastFixRouteDistance;
+    if (
+      !this.active ||
+      !route ||
+      !this.routeLine ||
+      !lastFix ||
+      lastDistance === null ||
+      this.stepEntries.length === 0
+    ) {
+      return false;
+    }
+    const elapsed = timestamp - lastFix.timestamp;
+    if (
+      elapsed < DEAD_RECKONING_DELAY ||
+      elapsed > DEAD_RECKONING_MAX_DURATION
+    ) {
+      return false;
+    }
+
+    // Exits and forks cannot be told apart without fixes: the estimate stops
+    // just before the next maneuver, and never reaches the destination
+    const { step, startDistance } = this.stepEntries[this.stepIndex];
+    const stepEnd = Math.max(lastDistance, startDistance + step.distance - 1);
+    const travelled = Math.min(
+      ((lastFix.speed ?? 0) / 3.6) * (elapsed / 1000),
+      stepEnd - lastDistance
+    );
+    const distance = lastDistance + travelled;
+    const routeLine = this.routeLine;
+    const coordinates = turf.along(routeLine, distance, { units: "meters" })
+      .geometry.coordinates as Coordinate;
+    // Direction of the route there, the last one known past its end
+    const ahead = turf.along(routeLine, distance + 1, { units: "meters" })
+      .geometry.coordinates as Coordinate;
+    const heading =
+      ahead[0] !== coordinates[0] || ahead[1] !== coordinates[1]
+        ? (turf.bearing(coordinates, ahead) + 360) % 360
+        : lastFix.heading;
+    const accuracy =
+      (lastFix.accuracy ?? 0) + travelled * DEAD_RECKONING_DRIFT_RATIO;
+
+    const fix: FilteredLocationFix = {
+      coordinates,
+      speed: lastFix.speed,
+      timestamp,
+      accuracy,
+      heading,
+      rawCoordinates: coordinates,
+      snappedToRoute: true,
+      estimated: true,
+    };
+    this.estimating = true;
+    this.locationFilter?.setEstimate(fix, accuracy);
+    this.followLocation(route, fix);
+    return true;
+  }
+
+  /**
+   * Follow the user from a filtered or estimated position
+   */
+  private followLocation(route: Route, fix: FilteredLocationFix): void {
+    this.emit("location", fix);
+
+    const { offRouteThreshold } = PROFILE_NAVIGATION_SETTINGS[this.profile];
+    const userLoc = fix.coordinates;
+
+    // Thresholds widen with the uncertainty of the fix
+    const accuracy = fix.accuracy ?? 0;
+    const distanceThreshold = offRouteThreshold + accuracy;
+
+    // Matched around the last fix on the route, ahead of it unless the user is
+    // clearly going back: a road the route uses twice, e.g. out and back, is
+    // followed on the pass being driven. The whole route is only searched when
+    // the last fix is unknown or too far, e.g. after an outage
+    const previousRouteDistance = this.lastFixRouteDistance;
+    let match: ReturnType<typeof findNearestPointOnRoute> | null = null;
+    if (previousRouteDistance !== null) {
+      const ahead = findNearestPointOnRoute(route, userLoc, {
+        from: previousRouteDistance,
+        to: previousRouteDistance + ROUTE_MATCH_WINDOW_METERS,
+      });
+      const behind = findNearestPointOnRoute(route, userLoc, {
+        from: previousRouteDistance - ROUTE_MATCH_BACKTRACK_METERS,
+        to: previousRouteDistance,
+      });
+      match =
+        behind.distance + WRONG_WAY_MIN_BACKTRACK_METERS + accuracy <
+        ahead.distance
+          ? behind
+          : ahead;
+    }
+    if (!match || match.distance > distanceThreshold) {
+      match = findNearestPointOnRoute(route, userLoc);
+    }
+    const {
+      distance: distanceFromRoute,
+      index: segmentIndex,
+      location: progressAlongEntireRouteMeters,
+    } = match;
+
+    // Course compared with the route, only from real fixes moving fast enough
+    const speed = fix.speed ?? 0;
+    const bearings =
+      !fix.estimated &&
+      fix.timestamp >= this.recoveryEndTime &&
+      fix.heading != null &&
+      speed >= OFF_ROUTE_COURSE_MIN_SPEED_KMH
+        ? getRouteBearingsNear(
+            route,
+            segmentIndex,
+            userLoc,
+            OFF_ROUTE_BEND_RADIUS_METERS + accuracy
+          )
+        : [];
+    const courseDifference =
+      bearings.length > 0
+        ? Math.min(
+            ...bearings.map((bearing) =>
+              getHeadingDifference(fix.heading as number, bearing)
+            )
+          )
+        : null;
+    const headingTolerance = Math.min(
+      90,
+      OFF_ROUTE_HEADING_TOLERANCE * (1 + OFF_ROUTE_COURSE_MIN_SPEED_KMH / speed)
+    );
+
+    if (!fix.estimated) {
+      this.lastFixRouteDistance =
+        distanceFromRoute > distanceThreshold
+          ? null
+          : progressAlongEntireRouteMeters;
+    }
+
+    // 1. Check for off-route first: too far from the route, or driving away from
+    // it, e.g. on a service road alongside or past a missed fork
+    const isLeavingRoute =
+      courseDifference !== null &&
+      courseDifference > headingTolerance &&
+      courseDifference <= WRONG_WAY_HEADING_DIFFERENCE &&
+      distanceFromRoute > OFF_ROUTE_HEADING_MIN_DISTANCE + accuracy;
+    if (distanceFromRoute > distanceThreshold || isLeavingRoute) {
+      if (fix.timestamp < this.recoveryEndTime) return;
+      this.offRouteCount += 1;
+      if (this.offRouteCount >= OFF_ROUTE_CONFIRMATION_COUNT) {
+        this.offRouteCount = 0;
+        this.emit("offRoute", userLoc);
+      }
+      return;
+    }
+    this.offRouteCount = 0;
+
+    // 2. Check for arrival directly (high priority), only a real fix can tell
+    if (
+      !fix.estimated &&
+      hasArrivedAtDestination(route, userLoc, ARRIVAL_THRESHOLD_METERS)
+    ) {
+      this.active = false;
+      this.emit("instruction", "Vous êtes arrivé à destination", true);
+      this.emit("arrived");
+      return;
+    }
+
+    // 3. Wrong way: the course is opposite to the route, or the fixes go back along it
+    const isMovingBackwards =
+      previousRouteDistance !== null &&
+      progressAlongEntireRouteMeters < previousRouteDistance &&
+      this.furthestRouteDistance - progressAlongEntireRouteMeters >
+        WRONG_WAY_MIN_BACKTRACK_METERS + accuracy;
+    const isWrongWay =
+      !fix.estimated &&
+      fix.timestamp >= this.recoveryEndTime &&
+      (courseDifference !== null
+        ? courseDifference > WRONG_WAY_HEADING_DIFFERENCE
+        : isMovingBackwards);
+    if (isWrongWay) {
+      this.wrongWayCount += 1;
+      if (this.wrongWayCount === WRONG_WAY_CONFIRMATION_COUNT) {
+        this.emit("instruction", "Faites demi-tour dès que possible", true);
+        this.emit("wrongWay", userLoc);
+      } else if (this.wrongWayCount >= WRONG_WAY_REROUTE_COUNT) {
+        // Still no U-turn: a route from here is better than waiting for one
+        this.wrongWayCount = 0;
+        this.emit("offRoute", userLoc);
+      }
+      return; // Steps are not walked back
+    }
+    const wasWrongWay = this.wrongWayCount >= WRONG_WAY_CONFIRMATION_COUNT;
+    this.wrongWayCount = 0;
+    if (!fix.estimated) {
+      this.furthestRouteDistance = Math.max(
+        this.furthestRouteDistance,
+        progressAlongEntireRouteMeters
+      );
+    }
+
+    // 4. Step progression and voice instructions. A stop once reached stays
+    // reached, even when the next leg drives back along the same road
+    const legStartIndex = this.stepEntries.findIndex(
+      (entry) => entry.legIndex === this.legIndex
+    );
+    const newStepIndex = Math.max(
+      this.findStepIndex(progressAlongEntireRouteMeters),
+      legStartIndex
+    );
+    const currentEntry = this.stepEntries[newStepIndex];
+    const distanceRemainingInStep = Math.max(
+      0,
+      currentEntry.startDistance +
+        currentEntry.step.distance -
+        progressAlongEntireRouteMeters
+    );
+
+    if (newStepIndex !== this.stepIndex) {
+      this.stepIndex = newStepIndex;
+      this.announcedForStep = new Set();
+      const dueInstruction = this.takeDueVoiceInstruction(
+        currentEntry.step,
+        distanceRemainingInStep
+      );
+      const instruction =
+        dueInstruction?.announcement ?? currentEntry.step.maneuver.instruction;
+
+      if (currentEntry.legIndex > this.legIndex) {
+        // Crossed into the next leg: the intermediate stop has been reached
+        this.legIndex = currentEntry.legIndex;
+        this.reachedStopCount += 1;
+        this.emit(
+          "instruction",
+          `Vous avez atteint l'étape ${this.reachedStopCount}. ${instruction}`,
+          true
+        );
+        this.emit("waypointReached", this.reachedStopCount - 1);
+      } else {
+        this.emit("instruction", instruction, true);
+      }
+      this.emit("stepChanged", this.stepIndex, this.legIndex);
+    } else {
+      const dueInstruction = this.takeDueVoiceInstruction(
+        currentEntry.step,
+        distanceRemainingInStep
+      );
+      if (dueInstruction) {
+        this.emit("instruction", dueInstruction.announcement, false);
+      } else if (wasWrongWay) {
+        // Back in the right direction, replace the U-turn request
+        this.emit("instruction", currentEntry.step.maneuver.instruction, false);
+      }
+    }
+
+    this.emit(
+      "progress",
+      this.buildProgress(
+        route,
+        fix,
+        progressAlongEntireRouteMeters,
+        segmentIndex,
+        distanceRemainingInStep
+      )
+    );
+  }
+
+  /**
+   * Step whose span contains the distance travelled, the last one past the end
+   */
+  private findStepIndex(progressAlongRoute: number): number {
+    for (let i = 0; i < this.stepEntries.length; i++) {
+      const { step, startDistance } = this.stepEntries[i];
+      if (
+        progressAlongRoute >= startDistance &&
+        progressAlongRoute < startDistance + step.distance
+      ) {
+        return i;
+      }
+    }
+    const lastEntry = this.stepEntries[this.stepEntries.length - 1];
+    if (
+      progressAlongRoute >=
+      lastEntry.startDistance + lastEntry.step.distance
+    ) {
+      return this.stepEntries.length - 1;
+    }
+    return Math.min(this.stepIndex, this.stepEntries.length - 1);
+  }
+
+  /**
+   * Voice instruction to speak now, if any. distanceAlongGeometry is the distance
+   * left before the end of the step where it should be spoken. When several are
+   * due, only the closest one is returned and the others are skipped.
+   */
+  private takeDueVoiceInstruction(
+    step: Step,
+    distanceRemainingInStep: number
+  ): VoiceInstruction | null {
+    const { voiceActivationBuffer } = PROFILE_NAVIGATION_SETTINGS[this.profile];
+    const dueInstructions = (step.voiceInstructions || [])
+      .filter(
+        (vi) =>
+          distanceRemainingInStep <=
+            vi.distanceAlongGeometry + voiceActivationBuffer &&
+          !this.announcedForStep.has(
+            `${vi.distanceAlongGeometry}-${vi.announcement}`
+          )
+      )
+      .sort((a, b) => a.distanceAlongGeometry - b.distanceAlongGeometry);
+    if (dueInstructions.length === 0) return null;
+
+    dueInstructions.forEach((vi) =>
+      this.announcedForStep.add(
+        `${vi.distanceAlongGeometry}-${vi.announcement}`
+      )
+    );
+    return dueInstructions[0];
+  }
+
+  private buildProgress(
+    route: Route,
+    fix: LocationFix,
+    progressAlongRoute: number,
+    segmentIndex: number,
+    distanceRemainingInStep: number
+  ): NavigationProgress {
+    const coordinates = route.geometry.coordinates as Coordinate[];
+    const { step } = this.stepEntries[this.stepIndex];
+
+    // Distance to the next turn, or to the destination on the last step
+    const nextManeuverLocation =
+      this.stepIndex < this.stepEntries.length - 1
+        ? (this.stepEntries[this.stepIndex + 1].step.maneuver
+            .location as Coordinate)
+        : coordinates[coordinates.length - 1];
+
+    const traveledCoords =
+      progressAlongRoute > 0
+        ? getSlicedRouteGeometry(route, progressAlongRoute)
+        : coordinates.slice(0, 1);
+
+    const progressPercentage =
+      route.distance > 0 ? progressAlongRoute / route.distance : 0;
+    const remainingDuration = route.duration * (1 - progressPercentage);
+
+    return {
+      location: fix.coordinates,
+      distanceAlongRoute: progressAlongRoute,
+      traveledCoords:
+        traveledCoords.length > 0 ? traveledCoords : coordinates.slice(0, 1),
+      stepIndex: this.stepIndex,
+      legIndex: this.legIndex,
+      distanceToNextManeuver: calculateDistanceInMeters(
+        fix.coordinates,
+        nextManeuverLocation
+      ),
+      // Banners switch when their distance before the end of the step is crossed
+      banner: getActiveBannerInstruction(step, distanceRemainingInStep),
+      speedLimit: getSpeedLimit(route, segmentIndex),
+      remainingDistance: Math.max(0, route.distance - progressAlongRoute),
+      remainingDuration,
+      estimatedArrival: new Date(fix.timestamp + remainingDuration * 1000),
+    };
+  }
+
+  /**
+   * Add typed event listener
+   */
+  public on<E extends keyof NavigationSessionEvents>(
+    event: E,
+    listener: NavigationSessionEvents[E]
+  ): this {
+    return super.on(event, listener);
+  }
+
+  /**
+   * Remove typed event listener
+   */
+  public off<E extends keyof NavigationSessionEvents>(
+    event: E,
+    listener: NavigationSessionEvents[E]
+  ): this {
+    return super.off(event, listener);
+  }
+}
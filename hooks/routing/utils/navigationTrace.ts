@@ -0,0 +1,290 @@
+// hooks/routing/utils/navigationTrace.ts
+import { Route } from "@/types/mapbox";
+import { Coordinate, NavigationTrace, TraceEvent } from "./types";
+import { NavigationSession } from "./navigationSession";
+
+/**
+ * Route reduced to what replays and exports use: the overview geometry, the
+ * steps with their maneuvers and instructions, and the speed limits.
+ * Step geometries, intersections and the other annotations are dropped, a
+ * full route would take most of the storage of a trace.
+ */
+export const compactTraceRoute = (route: Route): Route => ({
+  ...route,
+  legs: route.legs.map(({ annotation, ...leg }) => ({
+    ...leg,
+    admins: [],
+    via_waypoints: [],
+    ...(annotation?.maxspeed
+      ? { annotation: { maxspeed: annotation.maxspeed } }
+      : {}),
+    steps: leg.steps.map(
+      ({ intersections, annotation: stepAnnotation, ...step }) => ({
+        ...step,
+        geometry: { type: "LineString", coordinates: [] },
+      })
+    ),
+  })),
+});
+
+/**
+ * Capture the events of a navigation session, the same way while recording and replaying
+ * @param session Session to listen to
+ * @param onEvent Receives each event
+ * @param getTimestamp Time given to the events, the last fix's so replays match the recording
+ * @returns Function removing the listeners
+ */
+export const captureSessionEvents = (
+  session: NavigationSession,
+  onEvent: (event: TraceEvent) => void,
+  getTimestamp: () => number
+): (() => void) => {
+  const handleInstruction = (text: string, isManeuverChange: boolean) =>
+    onEvent({
+      type: "instruction",
+      timestamp: getTimestamp(),
+      text,
+      isManeuverChange,
+    });
+  const handleStepChanged = (stepIndex: number, legIndex: number) =>
+    onEvent({
+      type: "stepChanged",
+      timestamp: getTimestamp(),
+      stepIndex,
+      legIndex,
+    });
+  const handleWaypointReached = (stopIndex: number) =>
+    onEvent({ type: "waypointReached", timestamp: getTimestamp(), stopIndex });
+  const handleOffRoute = (location: Coordinate) =>
+    onEvent({ type: "offRoute", timestamp: getTimestamp(), location });
+  const handleWrongWay = (location: Coordinate) =>
+    onEvent({ type: "wrongWay", timestamp: getTimestamp(), location });
+  const handleArrived = () =>
+    onEvent({ type: "arrived", timestamp: getTimestamp() });
+
+  session.on("instruction", handleInstruction);
+  session.on("stepChanged", handleStepChanged);
+  session.on("waypointReached", handleWaypointReached);
+  session.on("offRoute", handleOffRoute);
+  session.on("wrongWay", handleWrongWay);
+  session.on("arrived", handleArrived);
+  return () => {
+    session.off("instruction", handleInstruction);
+    session.off("stepChanged", handleStepChanged);
+    session.off("waypointReached", handleWaypointReached);
+    session.off("offRoute", handleOffRoute);
+    session.off("wrongWay", handleWrongWay);
+    session.off("arrived", handleArrived);
+  };
+};
+
+/**
+ * Run the fixes of a recorded trip through a new navigation session.
+ * Routes are switched and positions estimated after the same fixes as during
+ * the trip, so the events can be compared with the recorded ones.
+ * @param trace Recorded trip
+ * @returns Events emitted by the replay
+ */
+export const replayTrace = (trace: NavigationTrace): TraceEvent[] => {
+  const events: TraceEvent[] = [];
+  if (trace.routes.length === 0) return events;
+
+  const session = new NavigationSession({ profile: trace.profile });
+  let timestamp = trace.startedAt;
+  const stopCapture = captureSessionEvents(
+    session,
+    (event) => events.push(event),
+    () => timestamp
+  );
+
+  const estimates = trace.estimates ?? [];
+  let nextRoute = 1;
+  let nextEstimate = 0;
+  // Everything that happened after the first fixCount fixes
+  const replayUntil = (fixCount: number) => {
+    while (
+      nextRoute < trace.routes.length &&
+      trace.routes[nextRoute].fixIndex <= fixCount
+    ) {
+      session.setRoute(trace.routes[nextRoute].route);
+      nextRoute += 1;
+    }
+    while (
+      nextEstimate < estimates.length &&
+      estimates[nextEstimate].fixIndex <= fixCount
+    ) {
+      session.estimateLocation(estimates[nextEstimate].timestamp);
+      nextEstimate += 1;
+    }
+  };
+
+  session.start(trace.routes[0].route);
+  trace.fixes.forEach((fix, index) => {
+    replayUntil(index);
+    timestamp = fix.timestamp;
+    session.updateLocation(fix);
+  });
+  replayUntil(trace.fixes.length);
+
+  stopCapture();
+  session.stop();
+  return events;
+};
+
+/**
+ * Position of the user when an event was emitted, the last fix received before it
+ */
+const getEventLocation = (
+  trace: NavigationTrace,
+  event: TraceEvent
+): Coordinate | null => {
+  if (event.type === "offRoute" || event.type === "wrongWay") {
+    return event.location;
+  }
+  let location: Coordinate | null = null;
+  for (const fix of trace.fixes) {
+    if (fix.timestamp > event.timestamp) break;
+    location = fix.coordinates;
+  }
+  return location;
+};
+
+/**
+ * Readable summary of an event, used as waypoint name and description
+ */
+const describeEvent = (event: TraceEvent): string => {
+  switch (event.type) {
+    case "instruction":
+      return event.text;
+    case "stepChanged":
+      return `Étape ${event.stepIndex} (tronçon ${event.legIndex})`;
+    case "waypointReached":
+      return `Arrêt ${event.stopIndex + 1} atteint`;
+    case "offRoute":
+      return "Hors itinéraire";
+    case "wrongWay":
+      return "Sens inverse";
+    case "arrived":
+      return "Arrivée";
+  }
+};
+
+/**
+ * GeoJSON of a recorded trip: the routes followed, the path driven, every fix
+ * with its accuracy, speed and heading, and the navigation events
+ */
+export const traceToGeoJSON = (
+  trace: NavigationTrace
+): GeoJSON.FeatureCollection => {
+  const features: GeoJSON.Feature[] = [];
+
+  trace.routes.forEach(({ route, fixIndex }, index) =>
+    features.push({
+      type: "Feature",
+      properties: { kind: "route", index, fixIndex },
+      geometry: route.geometry,
+    })
+  );
+  if (trace.fixes.length >= 2) {
+    features.push({
+      type: "Feature",
+      properties: { kind: "track" },
+      geometry: {
+        type: "LineString",
+        coordinates: trace.fixes.map((fix) => fix.coordinates),
+      },
+    });
+  }
+  trace.fixes.forEach((fix, index) =>
+    features.push({
+      type: "Feature",
+      properties: {
+        kind: "fix",
+        index,
+        time: new Date(fix.timestamp).toISOString(),
+        speed: fix.speed,
+        accuracy: fix.accuracy ?? null,
+        heading: fix.heading ?? null,
+      },
+      geometry: { type: "Point", coordinates: fix.coordinates },
+    })
+  );
+  trace.events.forEach((event) => {
+    const location = getEventLocation(trace, event);
+    if (!location) return;
+    features.push({
+      type: "Feature",
+      properties: {
+        ...event,
+        kind: "event",
+        event: event.type,
+        time: new Date(event.timestamp).toISOString(),
+        description: describeEvent(event),
+      },
+      geometry: { type: "Point", coordinates: location },
+    });
+  });
+
+  return { type: "FeatureCollection", features };
+};
+
+const escapeXml = (text: string): string =>
+  text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+
+/**
+ * GPX 1.1 of a recorded trip: the path driven as a track, the navigation
+ * events as waypoints and each route followed as a route
+ */
+export const traceToGPX = (trace: NavigationTrace): string => {
+  const lines: string[] = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<gpx version="1.1" creator="MAYZ" xmlns="http://www.topografix.com/GPX/1/1">',
+    `  <metadata><time>${new Date(trace.startedAt).toISOString()}</time></metadata>`,
+  ];
+
+  trace.events.forEach((event) => {
+    const location = getEventLocation(trace, event);
+    if (!location) return;
+    lines.push(
+      `  <wpt lat="${location[1]}" lon="${location[0]}">`,
+      `    <time>${new Date(event.timestamp).toISOString()}</time>`,
+      `    <name>${event.type}</name>`,
+      `    <desc>${escapeXml(describeEvent(event))}</desc>`,
+      "  </wpt>"
+    );
+  });
+
+  trace.routes.forEach(({ route }, index) => {
+    lines.push("  <rte>", `    <name>Itinéraire ${index + 1}</name>`);
+    route.geometry.coordinates.forEach(([lon, lat]) =>
+      lines.push(`    <rtept lat="${lat}" lon="${lon}"/>`)
+    );
+    lines.push("  </rte>");
+  });
+
+  lines.push("  <trk>", "    <name>Trajet enregistré</name>", "    <trkseg>");
+  trace.fixes.forEach((fix) => {
+    lines.push(
+      `      <trkpt lat="${fix.coordinates[1]}" lon="${fix.coordinates[0]}">`,
+      `        <time>${new Date(fix.timestamp).toISOString()}</time>`
+    );
+    // GPX 1.1 has no field for these, readers that do not know them skip them.
+    // Speed in m/s and course in degrees, as in GPX 1.0
+    const extensions = [
+      fix.speed !== null ? `<speed>${fix.speed / 3.6}</speed>` : "",
+      fix.accuracy != null ? `<accuracy>${fix.accuracy}</accuracy>` : "",
+      fix.heading != null ? `<course>${fix.heading}</course>` : "",
+    ].join("");
+    if (extensions) {
+      lines.push(`        <extensions>${extensions}</extensions>`);
+    }
+    lines.push("      </trkpt>");
+  });
+  lines.push("    </trkseg>", "  </trk>", "</gpx>");
+
+  return lines.join("\n");
+};
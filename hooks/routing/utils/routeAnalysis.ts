@@ -1,8 +1,34 @@
 // hooks/routing/utils/routeAnalysis.ts
 import * as turf from "@turf/turf";
-import { Route } from "@/types/mapbox";
-import { RouteFeatures, TrafficLevel, Coordinate } from "./types";
+import {
+  BannerInstruction,
+  CongestionLevel,
+  Route,
+  Step,
+} from "@/types/mapbox";
+import { AvoidArea, PinRead } from "@/types/api";
+import {
+  FasterRouteSuggestion,
+  RoadClassDistances,
+  RouteFeatures,
+  TrafficLevel,
+  Coordinate,
+  RouteChunk,
+  RouteHazard,
+  RouteStepEntry,
+  StepTimelineEntry,
+  TripSchedule,
+} from "./types";
 import { formatDuration, formatDistance } from "./formatters";
+import {
+  DUPLICATE_ROUTE_SIMILARITY,
+  METERS_PER_DEGREE,
+  MIN_FEATURE_DISTANCE_METERS,
+  MOTORWAY_REF_PATTERN,
+  MPH_TO_KMH,
+  ROUTE_OVERLAP_TOLERANCE_METERS,
+  ROUTE_SAMPLE_SPACING_METERS,
+} from "./constants";
 
 /**
  * Analyze traffic level from route congestion data
@@ -19,17 +45,26 @@ export const analyzeTrafficLevel = (route: Route): TrafficLevel => {
   };
   let totalSegments = 0;
 
+  const countLevels = (levels: string[]) => {
+    levels.forEach((level: string) => {
+      if (level in congestionLevels) {
+        congestionLevels[level]++;
+      } else {
+        congestionLevels["unknown"]++;
+      }
+      totalSegments++;
+    });
+  };
+
   route.legs.forEach((leg) => {
+    // Mapbox returns annotations for the whole leg
+    if (leg.annotation?.congestion) {
+      countLevels(leg.annotation.congestion);
+      return;
+    }
     leg.steps.forEach((step) => {
       if (step.annotation && step.annotation.congestion) {
-        step.annotation.congestion.forEach((level: string) => {
-          if (level in congestionLevels) {
-            congestionLevels[level]++;
-          } else {
-            congestionLevels["unknown"]++;
-          }
-          totalSegments++;
-        });
+        countLevels(step.annotation.congestion);
       }
     });
   });
@@ -53,20 +88,138 @@ export const analyzeTrafficLevel = (route: Route): TrafficLevel => {
 };
 
 /**
- * Initialize basic route features from a list of routes
- * @param routes Array of routes to analyze
- * @returns Record of route features
+ * Check if a step is on a motorway from its road number or name
+ * @param step Step to check
+ * @returns True for French style motorway numbers (A 6, E 15; A 7) or "Autoroute" names
+ */
+const isMotorwayStep = (step: Step): boolean =>
+  MOTORWAY_REF_PATTERN.test(step.ref || "") || /autoroute/i.test(step.name);
+
+/**
+ * Measure the distance travelled on motorways, toll roads, unpaved roads, ferries and tunnels.
+ * Each intersection describes the road up to the next one, so the route is split
+ * into intersection spans and every span is classified on its own.
+ * @param route Route to analyze
+ * @returns Distances in meters, the number of toll booths or gantries passed and of borders crossed
  */
-export const initializeRouteFeatures = (
+export const analyzeRoadClasses = (route: Route): RoadClassDistances => {
+  const result: RoadClassDistances = {
+    motorway: 0,
+    toll: 0,
+    unpaved: 0,
+    ferry: 0,
+    tunnel: 0,
+    tollCollections: 0,
+    borderCrossings: 0,
+  };
+  // Country of the last intersection, kept from one leg to the next
+  let currentCountry: string | undefined;
+
+  route.legs.forEach((leg) => {
+    leg.steps.forEach((step) => {
+      if (step.distance <= 0 || step.geometry.coordinates.length < 2) return;
+      const stepIsMotorway = isMotorwayStep(step);
+      const stepIsFerry = step.mode === "ferry";
+      const intersections = step.intersections || [];
+
+      // Without intersections the step is classified from its ref/name and mode only
+      if (intersections.length === 0) {
+        if (stepIsMotorway) result.motorway += step.distance;
+        if (stepIsFerry) result.ferry += step.distance;
+        return;
+      }
+
+      const stepLine = turf.lineString(step.geometry.coordinates);
+      const stepLength = turf.length(stepLine, { units: "meters" });
+      // Geometry lengths are scaled to the distance reported for the step
+      const scale = stepLength > 0 ? step.distance / stepLength : 0;
+      const spanStarts = intersections.map(
+        (intersection) =>
+          turf.nearestPointOnLine(stepLine, turf.point(intersection.location), {
+            units: "meters",
+          }).properties.location || 0
+      );
+
+      intersections.forEach((intersection, index) => {
+        if (intersection.toll_collection) result.tollCollections++;
+
+        const country =
+          intersection.admin_index !== undefined
+            ? leg.admins?.[intersection.admin_index]?.iso_3166_1
+            : undefined;
+        if (country) {
+          if (currentCountry && country !== currentCountry) {
+            result.borderCrossings++;
+          }
+          currentCountry = country;
+        }
+
+        const spanEnd =
+          index < intersections.length - 1 ? spanStarts[index + 1] : stepLength;
+        const spanDistance = Math.max(0, spanEnd - spanStarts[index]) * scale;
+        const classes = intersection.classes || [];
+        const roadType = intersection.mapbox_streets_v8?.class;
+
+        if (
+          stepIsMotorway ||
+          classes.includes("motorway") ||
+          roadType === "motorway" ||
+          roadType === "motorway_link"
+        ) {
+          result.motorway += spanDistance;
+        }
+        if (classes.includes("toll")) {
+          result.toll += spanDistance;
+        }
+        // Tracks are the road type most often left unpaved
+        if (classes.includes("unpaved") || roadType === "track") {
+          result.unpaved += spanDistance;
+        }
+        if (stepIsFerry || classes.includes("ferry")) {
+          result.ferry += spanDistance;
+        }
+        if (classes.includes("tunnel")) {
+          result.tunnel += spanDistance;
+        }
+      });
+    });
+  });
+
+  return result;
+};
+
+/**
+ * Build the features of each route from its own data, without extra requests
+ * @param routes Routes to analyze, the first one being the primary route
+ * @returns Record of route features keyed by "primary" and "alternate-N"
+ */
+export const buildRouteFeatures = (
   routes: Route[]
 ): Record<string, RouteFeatures> => {
   const features: Record<string, RouteFeatures> = {};
   routes.forEach((route, index) => {
     const routeId = index === 0 ? "primary" : `alternate-${index - 1}`;
+    const roadClasses = analyzeRoadClasses(route);
     features[routeId] = {
-      hasHighways: false,
-      hasTolls: false,
-      hasUnpavedRoads: false,
+      hasHighways: roadClasses.motorway >= MIN_FEATURE_DISTANCE_METERS,
+      // A toll booth is enough to know the route has a toll, even when its distance is unknown
+      hasTolls:
+        roadClasses.toll >= MIN_FEATURE_DISTANCE_METERS ||
+        roadClasses.tollCollections > 0,
+      hasUnpavedRoads: roadClasses.unpaved >= MIN_FEATURE_DISTANCE_METERS,
+      // Any ferry or tunnel is worth showing, however short
+      hasFerries: roadClasses.ferry > 0,
+      hasTunnels: roadClasses.tunnel > 0,
+      crossesBorder: roadClasses.borderCrossings > 0,
+      highwayDistance: roadClasses.motorway,
+      tollDistance: roadClasses.toll,
+      unpavedDistance: roadClasses.unpaved,
+      ferryDistance: roadClasses.ferry,
+      tunnelDistance: roadClasses.tunnel,
+      viaLabel: getDivergenceLabel(
+        route,
+        routes.filter((other) => other !== route)
+      ),
       estimatedTime: formatDuration(route.duration),
       distance: formatDistance(route.distance),
       trafficLevel: analyzeTrafficLevel(route),
@@ -76,67 +229,409 @@ export const initializeRouteFeatures = (
 };
 
 /**
- * Calculate path similarity between two routes
+ * Route geometry resampled at regular intervals in local planar meters,
+ * with a grid index to find nearby samples quickly
+ */
+interface RouteTrace {
+  samples: number[][];
+  grid: Map<string, number[][]>;
+}
+
+/**
+ * Key of the grid cell containing a point
+ */
+const getGridKey = (x: number, y: number): string =>
+  `${Math.floor(x / ROUTE_OVERLAP_TOLERANCE_METERS)}:${Math.floor(
+    y / ROUTE_OVERLAP_TOLERANCE_METERS
+  )}`;
+
+/**
+ * Project a coordinate to planar meters around a reference latitude
+ */
+const projectCoordinate = (
+  coord: GeoJSON.Position,
+  referenceLatitude: number
+): number[] => [
+  coord[0] * METERS_PER_DEGREE * Math.cos((referenceLatitude * Math.PI) / 180),
+  coord[1] * METERS_PER_DEGREE,
+];
+
+/**
+ * Resample a line every ROUTE_SAMPLE_SPACING_METERS, in meters around a reference latitude.
+ * Traces compared with each other must share the same reference latitude.
+ * @param coordinates Line coordinates [longitude, latitude]
+ * @param referenceLatitude Latitude used for the planar projection
+ * @returns The samples and their grid index
+ */
+const createRouteTrace = (
+  coordinates: GeoJSON.Position[],
+  referenceLatitude: number
+): RouteTrace => {
+  const points = coordinates.map((coord) =>
+    projectCoordinate(coord, referenceLatitude)
+  );
+
+  const samples: number[][] = points.length > 0 ? [points[0]] : [];
+  let distanceSinceSample = 0;
+  for (let i = 1; i < points.length; i++) {
+    const [x0, y0] = points[i - 1];
+    const [x1, y1] = points[i];
+    const segmentLength = Math.hypot(x1 - x0, y1 - y0);
+    let along = ROUTE_SAMPLE_SPACING_METERS - distanceSinceSample;
+    while (along <= segmentLength) {
+      const ratio = along / segmentLength;
+      samples.push([x0 + (x1 - x0) * ratio, y0 + (y1 - y0) * ratio]);
+      along += ROUTE_SAMPLE_SPACING_METERS;
+    }
+    distanceSinceSample =
+      (distanceSinceSample + segmentLength) % ROUTE_SAMPLE_SPACING_METERS;
+  }
+
+  const grid = new Map<string, number[][]>();
+  samples.forEach((sample) => {
+    const key = getGridKey(sample[0], sample[1]);
+    const cell = grid.get(key);
+    if (cell) {
+      cell.push(sample);
+    } else {
+      grid.set(key, [sample]);
+    }
+  });
+
+  return { samples, grid };
+};
+
+/**
+ * Check if a trace passes within the overlap tolerance of a point
+ * @param trace Trace to search
+ * @param point Point in the same planar meters as the trace
+ */
+const isNearTrace = (trace: RouteTrace, point: number[]): boolean => {
+  const cellX = Math.floor(point[0] / ROUTE_OVERLAP_TOLERANCE_METERS);
+  const cellY = Math.floor(point[1] / ROUTE_OVERLAP_TOLERANCE_METERS);
+  for (let dx = -1; dx <= 1; dx++) {
+    for (let dy = -1; dy <= 1; dy++) {
+      const cell = trace.grid.get(`${cellX + dx}:${cellY + dy}`);
+      if (
+        cell?.some(
+          (sample) =>
+            Math.hypot(sample[0] - point[0], sample[1] - point[1]) <=
+            ROUTE_OVERLAP_TOLERANCE_METERS
+        )
+      ) {
+        return true;
+      }
+    }
+  }
+  return false;
+};
+
+/**
+ * Count the samples of a trace that another trace passes by
+ */
+const countSharedSamples = (trace: RouteTrace, other: RouteTrace): number =>
+  trace.samples.filter((sample) => isNearTrace(other, sample)).length;
+
+/**
+ * Share of two lines' length that runs along the other line,
+ * within ROUTE_OVERLAP_TOLERANCE_METERS
+ * @param coordinatesA First line [longitude, latitude]
+ * @param coordinatesB Second line [longitude, latitude]
+ * @returns Similarity score between 0 (disjoint) and 1 (same path)
+ */
+export const calculateGeometrySimilarity = (
+  coordinatesA: GeoJSON.Position[],
+  coordinatesB: GeoJSON.Position[]
+): number => {
+  const referenceLatitude = coordinatesA[0]?.[1] ?? 0;
+  const traceA = createRouteTrace(coordinatesA, referenceLatitude);
+  const traceB = createRouteTrace(coordinatesB, referenceLatitude);
+  const totalSamples = traceA.samples.length + traceB.samples.length;
+  if (totalSamples === 0) return 0;
+
+  const sharedSamples =
+    countSharedSamples(traceA, traceB) + countSharedSamples(traceB, traceA);
+  return sharedSamples / totalSamples;
+};
+
+/**
+ * Calculate path similarity between two routes as the share of their length driven
+ * on the same roads
  * @param routeA First route
  * @param routeB Second route
- * @returns Similarity score between 0 and 1
+ * @returns Similarity score between 0 (disjoint) and 1 (same path)
  */
-export const calculatePathSimilarity = (
-  routeA: Route,
-  routeB: Route
-): number => {
-  try {
-    const lineA = turf.lineString(routeA.geometry.coordinates);
-    const lineB = turf.lineString(routeB.geometry.coordinates);
-    const boundsA = turf.bbox(lineA);
-    const boundsB = turf.bbox(lineB);
-    const overlapArea = calculateBoundsOverlap(boundsA, boundsB);
-    const areaA = (boundsA[2] - boundsA[0]) * (boundsA[3] - boundsA[1]);
-    const areaB = (boundsB[2] - boundsB[0]) * (boundsB[3] - boundsB[1]);
-    const maxArea = Math.max(areaA, areaB);
-    const overlapRatio = maxArea > 0 ? overlapArea / maxArea : 0;
-    const lengthA = turf.length(lineA);
-    const lengthB = turf.length(lineB);
-    const maxLength = Math.max(lengthA, lengthB);
-    const lengthRatio =
-      maxLength > 0 ? Math.min(lengthA, lengthB) / maxLength : 0;
-    return overlapRatio * 0.7 + lengthRatio * 0.3;
-  } catch (error) {
-    console.error("Error calculating path similarity:", error);
-    return 0.5;
+export const calculatePathSimilarity = (routeA: Route, routeB: Route): number =>
+  calculateGeometrySimilarity(
+    routeA.geometry.coordinates,
+    routeB.geometry.coordinates
+  );
+
+/**
+ * Drop routes that follow almost the same path as a better ranked one
+ * @param routes Routes in the order returned by the API, best first
+ * @returns Routes whose similarity with every kept route is below DUPLICATE_ROUTE_SIMILARITY
+ */
+export const removeDuplicateRoutes = (routes: Route[]): Route[] => {
+  const keptRoutes: Route[] = [];
+  routes.forEach((route) => {
+    const isDuplicate = keptRoutes.some(
+      (kept) =>
+        calculatePathSimilarity(kept, route) >= DUPLICATE_ROUTE_SIMILARITY
+    );
+    if (!isDuplicate) keptRoutes.push(route);
+  });
+  return keptRoutes;
+};
+
+/**
+ * Name a route by the road it uses the most where no other route goes
+ * @param route Route to label
+ * @param otherRoutes Routes it is compared with
+ * @returns Label such as "via A7", or null when the route has no road of its own
+ */
+export const getDivergenceLabel = (
+  route: Route,
+  otherRoutes: Route[]
+): string | null => {
+  if (otherRoutes.length === 0) return null;
+  const referenceLatitude = route.geometry.coordinates[0]?.[1] ?? 0;
+  const otherTraces = otherRoutes.map((other) =>
+    createRouteTrace(other.geometry.coordinates, referenceLatitude)
+  );
+
+  // Distance driven on each road away from the other routes
+  const divergentDistances = new Map<string, number>();
+  route.legs.forEach((leg) => {
+    leg.steps.forEach((step) => {
+      // Road numbers are the most recognizable, "A 7; E 15" is shown as "A7"
+      const road = step.ref
+        ? step.ref.split(";")[0].replace(/\s+/g, "")
+        : step.name;
+      if (!road || step.distance <= 0) return;
+
+      const { samples } = createRouteTrace(
+        step.geometry.coordinates,
+        referenceLatitude
+      );
+      if (samples.length === 0) return;
+      const divergentSamples = samples.filter(
+        (sample) => !otherTraces.some((trace) => isNearTrace(trace, sample))
+      ).length;
+      const divergentDistance =
+        (divergentSamples / samples.length) * step.distance;
+      divergentDistances.set(
+        road,
+        (divergentDistances.get(road) || 0) + divergentDistance
+      );
+    });
+  });
+
+  let bestRoad: string | null = null;
+  let bestDistance = 0;
+  for (const [road, distance] of divergentDistances) {
+    if (distance > bestDistance) {
+      bestRoad = road;
+      bestDistance = distance;
+    }
   }
+  return bestRoad ? `via ${bestRoad}` : null;
 };
 
 /**
- * Calculate the overlap area of two bounding boxes
- * @param boundsA First bounding box [minX, minY, maxX, maxY]
- * @param boundsB Second bounding box [minX, minY, maxX, maxY]
- * @returns Area of overlap
+ * Split a route into lines of uniform congestion, from the leg annotations
+ * @param route Route whose congestion is drawn
+ * @param restrictTo Only keep the segments lying on this route, e.g. when drawing the
+ * traffic of a refreshed route over the route being navigated
+ * @returns Lines with their congestion level, segments with unknown congestion are left out
  */
-export const calculateBoundsOverlap = (
-  boundsA: number[],
-  boundsB: number[]
-): number => {
-  const xOverlap = Math.max(
-    0,
-    Math.min(boundsA[2], boundsB[2]) - Math.max(boundsA[0], boundsB[0])
+export const getCongestionSegments = (
+  route: Route,
+  restrictTo?: Route
+): GeoJSON.FeatureCollection<
+  GeoJSON.LineString,
+  { congestion: CongestionLevel }
+> => {
+  const features: GeoJSON.Feature<
+    GeoJSON.LineString,
+    { congestion: CongestionLevel }
+  >[] = [];
+  const coordinates = route.geometry.coordinates;
+  const referenceLatitude = coordinates[0]?.[1] ?? 0;
+  const restrictTrace = restrictTo
+    ? createRouteTrace(restrictTo.geometry.coordinates, referenceLatitude)
+    : null;
+
+  // Legs share their boundary point, so the overview geometry segments are the
+  // leg annotations put end to end
+  const levels: CongestionLevel[] = [];
+  for (const leg of route.legs) {
+    if (!leg.annotation?.congestion) break;
+    levels.push(...leg.annotation.congestion);
+  }
+
+  let current: GeoJSON.Feature<
+    GeoJSON.LineString,
+    { congestion: CongestionLevel }
+  > | null = null;
+  for (let i = 0; i < levels.length && i < coordinates.length - 1; i++) {
+    let level = levels[i];
+    if (restrictTrace) {
+      const midpoint = [
+        (coordinates[i][0] + coordinates[i + 1][0]) / 2,
+        (coordinates[i][1] + coordinates[i + 1][1]) / 2,
+      ];
+      if (
+        !isNearTrace(
+          restrictTrace,
+          projectCoordinate(midpoint, referenceLatitude)
+        )
+      ) {
+        level = "unknown";
+      }
+    }
+
+    if (level === "unknown") {
+      current = null;
+    } else if (current && current.properties.congestion === level) {
+      current.geometry.coordinates.push(coordinates[i + 1]);
+    } else {
+      current = {
+        type: "Feature",
+        geometry: {
+          type: "LineString",
+          coordinates: [coordinates[i], coordinates[i + 1]],
+        },
+        properties: { congestion: level },
+      };
+      features.push(current);
+    }
+  }
+
+  return { type: "FeatureCollection", features };
+};
+
+/**
+ * Compare routes fetched from the user's position with what is left of the current route
+ * @param freshRoutes Routes from the user's position to the destination
+ * @param currentRoute Route being navigated
+ * @param progressMeters Distance already travelled along the current route
+ * @param minTimeSaved Minimum saving in seconds for a route to be suggested
+ * @param declinedRoutes Routes the user already turned down, never suggested again
+ * @returns The fresh route following the current path, if any, and the fastest
+ * different route saving at least minTimeSaved
+ */
+export const findFasterRoute = (
+  freshRoutes: Route[],
+  currentRoute: Route,
+  progressMeters: number,
+  minTimeSaved: number,
+  declinedRoutes: Route[] = []
+): {
+  currentPathRoute: Route | null;
+  suggestion: FasterRouteSuggestion | null;
+} => {
+  const remainingCoordinates = getRemainingRouteCoordinates(
+    currentRoute,
+    progressMeters
   );
-  const yOverlap = Math.max(
-    0,
-    Math.min(boundsA[3], boundsB[3]) - Math.max(boundsA[1], boundsB[1])
+  const similarities = freshRoutes.map((route) =>
+    calculateGeometrySimilarity(
+      route.geometry.coordinates,
+      remainingCoordinates
+    )
   );
-  return xOverlap * yOverlap;
+
+  let currentPathRoute: Route | null = null;
+  let bestSimilarity = DUPLICATE_ROUTE_SIMILARITY;
+  for (let i = 0; i < freshRoutes.length; i++) {
+    if (similarities[i] >= bestSimilarity) {
+      currentPathRoute = freshRoutes[i];
+      bestSimilarity = similarities[i];
+    }
+  }
+
+  // When no fresh route follows the current path, fall back on its last known timing
+  const progressRatio =
+    currentRoute.distance > 0
+      ? Math.min(1, progressMeters / currentRoute.distance)
+      : 0;
+  const currentDuration = currentPathRoute
+    ? currentPathRoute.duration
+    : currentRoute.duration * (1 - progressRatio);
+
+  let suggestion: FasterRouteSuggestion | null = null;
+  freshRoutes.forEach((route, index) => {
+    if (similarities[index] >= DUPLICATE_ROUTE_SIMILARITY) return;
+    const wasDeclined = declinedRoutes.some(
+      (declined) =>
+        calculatePathSimilarity(declined, route) >= DUPLICATE_ROUTE_SIMILARITY
+    );
+    if (wasDeclined) return;
+
+    const timeSaved = currentDuration - route.duration;
+    if (
+      timeSaved >= minTimeSaved &&
+      (!suggestion || timeSaved > suggestion.timeSaved)
+    ) {
+      suggestion = {
+        route,
+        timeSaved,
+        viaLabel: getDivergenceLabel(route, [currentPathRoute || currentRoute]),
+      };
+    }
+  });
+
+  return { currentPathRoute, suggestion };
+};
+
+/**
+ * Coordinates of a route from a distance along it to its end
+ * @param route Route to slice
+ * @param distanceAlongRouteMeters Distance already travelled along the route
+ * @returns Remaining coordinates, or the whole route if slicing fails
+ */
+export const getRemainingRouteCoordinates = (
+  route: Route,
+  distanceAlongRouteMeters: number
+): Coordinate[] => {
+  const coordinates = route.geometry.coordinates as Coordinate[];
+  if (coordinates.length < 2 || distanceAlongRouteMeters <= 0) {
+    return coordinates;
+  }
+  try {
+    const routeLine = turf.lineString(coordinates);
+    const totalLength = turf.length(routeLine, { units: "meters" });
+    if (distanceAlongRouteMeters >= totalLength) {
+      return [coordinates[coordinates.length - 1]];
+    }
+    return turf.lineSliceAlong(
+      routeLine,
+      distanceAlongRouteMeters,
+      totalLength,
+      {
+        units: "meters",
+      }
+    ).geometry.coordinates as Coordinate[];
+  } catch (error) {
+    console.error("Error slicing remaining route:", error);
+    return coordinates;
+  }
 };
 
 /**
  * Find the nearest point on a route to the user's current location
  * @param route Route to check against
  * @param userLocation User's current location
- * @returns Object with distance (from route), index (of segment), and location (distance along route in meters)
+ * @param range Part of the route to search, as distances along it in meters.
+ * Keeps roads the route uses twice, e.g. out and back, from matching the other pass
+ * @returns Object with distance (from route), index (of segment), and location (distance along route in meters).
+ * The distance is Infinity when the range is empty
  */
 export const findNearestPointOnRoute = (
   route: Route,
-  userLocation: Coordinate
+  userLocation: Coordinate,
+  range?: { from: number; to: number }
 ): {
   distance: number;
   index: number;
@@ -145,12 +640,35 @@ export const findNearestPointOnRoute = (
   try {
     const routeLine = turf.lineString(route.geometry.coordinates);
     const userPoint = turf.point(userLocation);
+    if (range) {
+      const totalLength = turf.length(routeLine, { units: "meters" });
+      const from = Math.max(0, Math.min(range.from, totalLength));
+      const to = Math.min(range.to, totalLength);
+      if (to <= from) {
+        return {
+          distance: Infinity,
+          index: getSegmentIndexAt(route, from),
+          location: from,
+        };
+      }
+      const nearestPoint = turf.nearestPointOnLine(
+        turf.lineSliceAlong(routeLine, from, to, { units: "meters" }),
+        userPoint,
+        { units: "meters" }
+      );
+      const location = from + (nearestPoint.properties.location || 0);
+      return {
+        distance: nearestPoint.properties.dist ?? Infinity,
+        index: getSegmentIndexAt(route, location),
+        location,
+      };
+    }
     const nearestPoint = turf.nearestPointOnLine(routeLine, userPoint, {
       units: "meters", // Ensure this is meters
     });
     // .location property from nearestPointOnLine with units: 'meters' IS the distance along the line in meters.
     return {
-      distance: nearestPoint.properties.dist || Infinity,
+      distance: nearestPoint.properties.dist ?? Infinity,
       index: nearestPoint.properties.index || 0,
       location: nearestPoint.properties.location || 0,
     };
@@ -160,6 +678,345 @@ export const findNearestPointOnRoute = (
   }
 };
 
+/**
+ * Segment of the route geometry containing a distance along the route
+ */
+const getSegmentIndexAt = (
+  route: Route,
+  distanceAlongRoute: number
+): number => {
+  const coordinates = route.geometry.coordinates as Coordinate[];
+  let segmentEnd = 0;
+  for (let i = 0; i < coordinates.length - 1; i++) {
+    segmentEnd += calculateDistanceInMeters(coordinates[i], coordinates[i + 1]);
+    if (distanceAlongRoute < segmentEnd) return i;
+  }
+  return Math.max(0, coordinates.length - 2);
+};
+
+/**
+ * Pins close enough to a route to be on it, in travel order
+ * @param route Route to check
+ * @param pins Reported pins
+ * @param corridorMeters Maximum distance between a pin and the route line
+ * @returns Pins within the corridor with their position along the route
+ */
+export const getPinsAlongRoute = (
+  route: Route,
+  pins: PinRead[],
+  corridorMeters: number
+): RouteHazard[] => {
+  if (route.geometry.coordinates.length < 2) return [];
+  const routeLine = turf.lineString(route.geometry.coordinates);
+
+  const hazards: RouteHazard[] = [];
+  for (const pin of pins) {
+    const nearestPoint = turf.nearestPointOnLine(
+      routeLine,
+      turf.point([pin.longitude, pin.latitude]),
+      { units: "meters" }
+    );
+    if ((nearestPoint.properties.dist ?? Infinity) <= corridorMeters) {
+      hazards.push({
+        pin,
+        distanceAlongRoute: nearestPoint.properties.location ?? 0,
+      });
+    }
+  }
+  return hazards.sort((a, b) => a.distanceAlongRoute - b.distanceAlongRoute);
+};
+
+/**
+ * Split a route into pieces that can each be covered by a circle
+ * @param route Route to split
+ * @param chunkLengthMeters Length of each piece along the route
+ * @param marginMeters Extra radius so that pins beside the road are included
+ * @returns Pieces in travel order, the last one may be shorter
+ */
+export const getRouteChunks = (
+  route: Route,
+  chunkLengthMeters: number,
+  marginMeters: number
+): RouteChunk[] => {
+  if (route.geometry.coordinates.length < 2) return [];
+  const routeLine = turf.lineString(route.geometry.coordinates);
+  const totalLength = turf.length(routeLine, { units: "meters" });
+
+  const chunks: RouteChunk[] = [];
+  const chunkCount = Math.ceil(totalLength / chunkLengthMeters);
+  for (let index = 0; index < chunkCount; index++) {
+    const startDistance = index * chunkLengthMeters;
+    const endDistance = Math.min(
+      startDistance + chunkLengthMeters,
+      totalLength
+    );
+    const center = turf.along(routeLine, (startDistance + endDistance) / 2, {
+      units: "meters",
+    }).geometry.coordinates as Coordinate;
+    // No point of the piece is farther from its middle than half its length
+    chunks.push({
+      index,
+      startDistance,
+      endDistance,
+      center,
+      radiusMeters: (endDistance - startDistance) / 2 + marginMeters,
+    });
+  }
+  return chunks;
+};
+
+/**
+ * Polygon covered by an avoid area, circles are approximated by a polygon
+ * @returns null when the area does not have enough points to cover anything
+ */
+export const getAvoidAreaPolygon = (
+  area: AvoidArea
+): GeoJSON.Feature<GeoJSON.Polygon> | null => {
+  if (area.shape === "circle") {
+    if (area.coordinates.length === 0 || !area.radius) return null;
+    return turf.circle(area.coordinates[0], area.radius, {
+      units: "meters",
+      steps: 32,
+    });
+  }
+  if (area.coordinates.length < 3) return null;
+  return turf.polygon([[...area.coordinates, area.coordinates[0]]]);
+};
+
+/**
+ * Avoid areas a route goes through
+ * @param route Route to check
+ * @param areas Areas the route should stay out of
+ * @returns The areas crossed, or touched, by the route line
+ */
+export const getCrossedAvoidAreas = (
+  route: Route,
+  areas: AvoidArea[]
+): AvoidArea[] => {
+  if (route.geometry.coordinates.length < 2) return [];
+  const routeLine = turf.lineString(route.geometry.coordinates);
+  return areas.filter((area) => {
+    const polygon = getAvoidAreaPolygon(area);
+    return polygon !== null && turf.booleanIntersects(routeLine, polygon);
+  });
+};
+
+/**
+ * Middle of each stretch of a route lying inside the avoid areas.
+ * Excluding these points steers the next directions request out of the areas.
+ * A stretch containing the start or the end of the route cannot be avoided and is skipped.
+ * @param route Route crossing the areas
+ * @param areas Areas the route should stay out of
+ * @returns One point on the route per stretch inside an area
+ */
+export const getAvoidAreaCrossingPoints = (
+  route: Route,
+  areas: AvoidArea[]
+): Coordinate[] => {
+  if (route.geometry.coordinates.length < 2) return [];
+  const routeLine = turf.lineString(route.geometry.coordinates);
+
+  const points: Coordinate[] = [];
+  for (const area of areas) {
+    const polygon = getAvoidAreaPolygon(area);
+    if (!polygon) continue;
+
+    // Distances along the route where it enters or leaves the area
+    const boundaryDistances = turf
+      .lineIntersect(routeLine, polygon)
+      .features.map(
+        (crossing) =>
+          turf.nearestPointOnLine(routeLine, crossing, { units: "meters" })
+            .properties.location ?? 0
+      )
+      .sort((a, b) => a - b);
+
+    // Boundary crossings alternate between entering and leaving the area
+    const startsInside = turf.booleanPointInPolygon(
+      route.geometry.coordinates[0],
+      polygon
+    );
+    for (
+      let index = startsInside ? 1 : 0;
+      index + 1 < boundaryDistances.length;
+      index += 2
+    ) {
+      const middle =
+        (boundaryDistances[index] + boundaryDistances[index + 1]) / 2;
+      points.push(
+        turf.along(routeLine, middle, { units: "meters" }).geometry
+          .coordinates as Coordinate
+      );
+    }
+  }
+  return points;
+};
+
+/**
+ * Posted speed limit of a segment of the route geometry
+ * @param route Route with maxspeed annotations
+ * @param segmentIndex Index of the segment, as returned by findNearestPointOnRoute
+ * @returns Limit in km/h, or null when unknown or unlimited
+ */
+export const getSpeedLimit = (
+  route: Route,
+  segmentIndex: number
+): number | null => {
+  // Leg annotations put end to end match the overview geometry segments
+  let index = segmentIndex;
+  for (const leg of route.legs) {
+    const maxspeeds = leg.annotation?.maxspeed;
+    if (!maxspeeds) return null;
+    if (index < maxspeeds.length) {
+      const { speed, unit } = maxspeeds[index];
+      if (speed === undefined) return null;
+      return unit === "mph" ? Math.round(speed * MPH_TO_KMH) : speed;
+    }
+    index -= maxspeeds.length;
+  }
+  return null;
+};
+
+/**
+ * Smallest angle between two headings
+ * @returns Difference in degrees, from 0 to 180
+ */
+export const getHeadingDifference = (a: number, b: number): number => {
+  const difference = Math.abs(a - b) % 360;
+  return difference > 180 ? 360 - difference : difference;
+};
+
+/**
+ * Directions of travel of the route where the user is
+ * @param route Route to read
+ * @param segmentIndex Index of the segment, as returned by findNearestPointOnRoute
+ * @param location Position of the user
+ * @param bendRadius Distance in meters from a bend within which the user may be
+ * turning from one segment to the next
+ * @returns Bearings in degrees of the segment, and of its neighbours when close to them
+ */
+export const getRouteBearingsNear = (
+  route: Route,
+  segmentIndex: number,
+  location: Coordinate,
+  bendRadius: number
+): number[] => {
+  const coordinates = route.geometry.coordinates as Coordinate[];
+  const bearings: number[] = [];
+  const addBearing = (index: number) => {
+    if (index < 0 || index > coordinates.length - 2) return;
+    const [from, to] = [coordinates[index], coordinates[index + 1]];
+    if (from[0] === to[0] && from[1] === to[1]) return;
+    bearings.push((turf.bearing(from, to) + 360) % 360);
+  };
+
+  addBearing(segmentIndex);
+  const [start, end] = [
+    coordinates[segmentIndex],
+    coordinates[segmentIndex + 1],
+  ];
+  if (start && calculateDistanceInMeters(location, start) <= bendRadius) {
+    addBearing(segmentIndex - 1);
+  }
+  if (end && calculateDistanceInMeters(location, end) <= bendRadius) {
+    addBearing(segmentIndex + 1);
+  }
+  return bearings;
+};
+
+/**
+ * Flatten the steps of every leg into a single ordered list
+ * @param route Route to flatten
+ * @returns Steps with their leg index and starting distance along the whole route
+ */
+export const flattenRouteSteps = (route: Route): RouteStepEntry[] => {
+  const entries: RouteStepEntry[] = [];
+  let cumulativeDistance = 0;
+  route.legs.forEach((leg, legIndex) => {
+    leg.steps.forEach((step) => {
+      entries.push({ step, legIndex, startDistance: cumulativeDistance });
+      cumulativeDistance += step.distance;
+    });
+  });
+  return entries;
+};
+
+/**
+ * Steps of a route with the time each maneuver is reached, counted back from the arrival
+ * so that the remaining part of the current step does not need to be known
+ * @param route Route to list
+ * @param arrivalTime Expected arrival at the destination
+ * @param fromStepIndex First step to return
+ * @returns Steps from fromStepIndex to the end of the route
+ */
+export const getStepTimeline = (
+  route: Route,
+  arrivalTime: Date,
+  fromStepIndex: number = 0
+): StepTimelineEntry[] => {
+  const entries = flattenRouteSteps(route);
+  const timeline: StepTimelineEntry[] = [];
+  let durationToArrival = 0;
+  for (let i = entries.length - 1; i >= fromStepIndex; i--) {
+    durationToArrival += entries[i].step.duration;
+    timeline.unshift({
+      ...entries[i],
+      stepIndex: i,
+      maneuverTime: new Date(arrivalTime.getTime() - durationToArrival * 1000),
+    });
+  }
+  return timeline;
+};
+
+/**
+ * Banner to show while travelling a step
+ * @param step Step being travelled
+ * @param distanceRemainingInStep Distance left before the end of the step, in meters
+ * @returns The banner whose distanceAlongGeometry was crossed last, or the first one
+ */
+export const getActiveBannerInstruction = (
+  step: Step,
+  distanceRemainingInStep: number
+): BannerInstruction | null => {
+  const banners = step.bannerInstructions || [];
+  if (banners.length === 0) return null;
+
+  let activeBanner = banners[0];
+  banners.forEach((banner) => {
+    if (
+      banner.distanceAlongGeometry >= distanceRemainingInStep &&
+      banner.distanceAlongGeometry < activeBanner.distanceAlongGeometry
+    ) {
+      activeBanner = banner;
+    }
+  });
+  return activeBanner;
+};
+
+/**
+ * Departure and arrival times of a route for the given schedule
+ * @param route Route computed for the schedule
+ * @param schedule Planned departure or required arrival, null to leave now
+ * @returns Departure and arrival dates
+ */
+export const getScheduledTripTimes = (
+  route: Route,
+  schedule: TripSchedule | null
+): { departure: Date; arrival: Date } => {
+  const durationMs = route.duration * 1000;
+  if (schedule?.mode === "arrive_by") {
+    return {
+      departure: new Date(schedule.time.getTime() - durationMs),
+      arrival: schedule.time,
+    };
+  }
+  const departure = schedule ? schedule.time : new Date();
+  return {
+    departure,
+    arrival: new Date(departure.getTime() + durationMs),
+  };
+};
+
 /**
  * Calculate distance between two coordinates in meters
  * @param pointA First coordinate [longitude, latitude]
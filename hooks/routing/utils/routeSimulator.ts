@@ -0,0 +1,112 @@
+// hooks/routing/utils/routeSimulator.ts
+import * as turf from "@turf/turf";
+import { Route } from "@/types/mapbox";
+import { Coordinate, LocationFix } from "./types";
+import { SIMULATION_TICK_INTERVAL } from "./constants";
+
+interface RouteSimulatorOptions {
+  speed: number; // km/h
+  interval?: number; // ms between two fixes
+  startTime?: number; // Timestamp of the first fix, defaults to now
+}
+
+/**
+ * Replays a trip by producing location fixes interpolated along a route at a
+ * constant speed. Fixes can be pulled one by one with next(), e.g. in tests,
+ * or pushed on a timer with start().
+ */
+export class RouteSimulator {
+  private line: ReturnType<typeof turf.lineString> | null;
+  private length: number; // meters
+  private speed: number; // km/h
+  private interval: number;
+  private distanceTravelled: number = 0; // meters
+  private timestamp: number;
+  private finished: boolean = false;
+  private timer: ReturnType<typeof setInterval> | null = null;
+
+  constructor(route: Route, options: RouteSimulatorOptions) {
+    const coordinates = route.geometry.coordinates;
+    this.line = coordinates.length >= 2 ? turf.lineString(coordinates) : null;
+    this.length = this.line ? turf.length(this.line, { units: "meters" }) : 0;
+    this.speed = options.speed;
+    this.interval = options.interval ?? SIMULATION_TICK_INTERVAL;
+    this.timestamp = options.startTime ?? Date.now();
+  }
+
+  /**
+   * Next position along the route, null once the end of the route was sent
+   */
+  public next(): LocationFix | null {
+    if (!this.line || this.finished) return null;
+
+    const coordinates = this.getPointAt(this.distanceTravelled);
+    // Direction of the route at this point, towards the next meter (from the previous one at the end)
+    const heading =
+      this.distanceTravelled < this.length
+        ? turf.bearing(coordinates, this.getPointAt(this.distanceTravelled + 1))
+        : turf.bearing(
+            this.getPointAt(this.distanceTravelled - 1),
+            coordinates
+          );
+    const fix: LocationFix = {
+      coordinates,
+      speed: this.speed,
+      timestamp: this.timestamp,
+      heading: (heading + 360) % 360,
+    };
+
+    // The last fix lands exactly on the end of the route
+    this.finished = this.distanceTravelled >= this.length;
+    this.distanceTravelled = Math.min(
+      this.length,
+      this.distanceTravelled + (this.speed / 3.6) * (this.interval / 1000)
+    );
+    this.timestamp += this.interval;
+    return fix;
+  }
+
+  private getPointAt(distance: number): Coordinate {
+    return turf.along(
+      this.line as ReturnType<typeof turf.lineString>,
+      Math.max(0, distance),
+      { units: "meters" }
+    ).geometry.coordinates as Coordinate;
+  }
+
+  /**
+   * Send a fix every interval until the end of the route or stop()
+   * @param onFix Receives each position
+   * @param onEnd Called after the last position
+   */
+  public start(onFix: (fix: LocationFix) => void, onEnd?: () => void): void {
+    this.stop();
+    this.timer = setInterval(() => {
+      const fix = this.next();
+      if (fix) {
+        onFix(fix);
+        return;
+      }
+      this.stop();
+      if (onEnd) onEnd();
+    }, this.interval);
+  }
+
+  public stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Change the speed used for the next positions
+   */
+  public setSpeed(speed: number): void {
+    this.speed = speed;
+  }
+
+  public isRunning(): boolean {
+    return this.timer !== null;
+  }
+}
@@ -1,5 +1,6 @@
 // src/hooks/routing/utils/types.ts
-import { Route } from "@/types/mapbox";
+import { BannerInstruction, Route, Step } from "@/types/mapbox";
+import { AvoidArea, PinRead, RoutingProfile } from "@/types/api";
 
 /**
  * Enhanced route features interface to track special route characteristics
@@ -8,11 +9,42 @@ export interface RouteFeatures {
   hasHighways: boolean;
   hasTolls: boolean;
   hasUnpavedRoads: boolean;
+  hasFerries: boolean;
+  hasTunnels: boolean;
+  crossesBorder: boolean; // Goes from one country to another
+  highwayDistance: number; // meters travelled on motorways
+  tollDistance: number; // meters travelled on toll roads
+  unpavedDistance: number; // meters travelled on unpaved roads
+  ferryDistance: number; // meters travelled on ferries
+  tunnelDistance: number; // meters travelled through tunnels
+  viaLabel: string | null; // Road where the route differs from the others, e.g. "via A7"
   estimatedTime: string; // formatted time
   distance: string; // formatted distance
   trafficLevel: TrafficLevel;
 }
 
+/**
+ * Distances travelled on each road class of a route
+ */
+export interface RoadClassDistances {
+  motorway: number; // meters
+  toll: number; // meters
+  unpaved: number; // meters
+  ferry: number; // meters
+  tunnel: number; // meters
+  tollCollections: number; // toll booths and gantries passed
+  borderCrossings: number; // changes of country along the route
+}
+
+/**
+ * Better route found while navigating, offered to the user
+ */
+export interface FasterRouteSuggestion {
+  route: Route; // From the user's position to the destination
+  timeSaved: number; // seconds, compared with the current path
+  viaLabel: string | null; // Road the new route takes instead, e.g. "via A7"
+}
+
 /**
  * Traffic levels on a route
  */
@@ -24,11 +56,50 @@ export type TrafficLevel = "low" | "moderate" | "heavy" | "severe" | "unknown";
 export interface RouteCalculationParams {
   origin: [number, number];
   destination: [number, number];
+  waypoints?: [number, number][];
   excludes?: string[];
   language?: string;
   alternatives?: boolean;
 }
 
+/**
+ * Planned departure or required arrival time for a trip, null means "leave now"
+ */
+export interface TripSchedule {
+  mode: "depart_at" | "arrive_by";
+  time: Date;
+}
+
+/**
+ * Planned trip times compared with the live estimate once navigation starts
+ */
+export interface ScheduleComparison {
+  plannedDeparture: Date;
+  plannedArrival: Date;
+  liveArrival: Date;
+}
+
+/**
+ * Options shared by every directions request made while planning or navigating
+ */
+export interface RouteRequestOptions {
+  excludes?: string[];
+  avoidPoints?: Coordinate[]; // Locations the route must not go through, e.g. reported accidents
+  avoidAreas?: AvoidArea[]; // Zones the routes must stay out of, enforced by fetchRoute
+  waypoints?: Coordinate[]; // Ordered intermediate stops between origin and destination
+  profile?: RoutingProfile;
+  schedule?: TripSchedule | null;
+}
+
+/**
+ * Navigation tuning that depends on the routing profile
+ */
+export interface ProfileNavigationSettings {
+  offRouteThreshold: number; // meters
+  followZoomLevel: number;
+  voiceActivationBuffer: number; // meters before a voice instruction point where it may be spoken
+}
+
 /**
  * State object for route calculation
  */
@@ -48,6 +119,7 @@ export interface NavigationState {
   liveUserLocation: Coordinate | null;
   traveledCoords: Coordinate[];
   currentStepIndex: number;
+  currentLegIndex: number;
   currentInstruction: string;
   distanceToNextManeuver: number | null;
   remainingDistance: number;
@@ -55,6 +127,86 @@ export interface NavigationState {
   estimatedArrival: Date | null;
 }
 
+/**
+ * Position reported to a navigation session, by the GPS or the route simulator
+ */
+export interface LocationFix {
+  coordinates: Coordinate;
+  speed: number | null; // km/h, null when unknown
+  timestamp: number; // ms
+  accuracy?: number | null; // meters, radius of the fix uncertainty
+  heading?: number | null; // degrees from north, direction of travel
+}
+
+/**
+ * Location fix after accuracy gating, smoothing and snapping to the route
+ */
+export interface FilteredLocationFix extends LocationFix {
+  rawCoordinates: Coordinate; // As reported by the source
+  snappedToRoute: boolean; // coordinates were moved onto the route line
+  estimated: boolean; // Extrapolated along the route while no fix arrives, e.g. in a tunnel
+}
+
+/**
+ * Progress of a navigation session after a location fix on the route
+ */
+export interface NavigationProgress {
+  location: Coordinate;
+  distanceAlongRoute: number; // meters from the start of the route
+  traveledCoords: Coordinate[]; // Route geometry up to the snapped position
+  stepIndex: number; // Index among the steps of every leg
+  legIndex: number;
+  distanceToNextManeuver: number; // meters, to the destination on the last step
+  banner: BannerInstruction | null;
+  speedLimit: number | null; // km/h
+  remainingDistance: number; // meters
+  remainingDuration: number; // seconds
+  estimatedArrival: Date;
+}
+
+/**
+ * Navigation event captured while recording or replaying a trip
+ */
+export type TraceEvent = { timestamp: number } & (
+  | { type: "instruction"; text: string; isManeuverChange: boolean }
+  | { type: "stepChanged"; stepIndex: number; legIndex: number }
+  | { type: "waypointReached"; stopIndex: number }
+  | { type: "offRoute"; location: Coordinate }
+  | { type: "wrongWay"; location: Coordinate }
+  | { type: "arrived" }
+);
+
+/**
+ * Route followed during a recorded trip, set after its fixIndex first fixes
+ */
+export interface TraceRoute {
+  route: Route;
+  fixIndex: number;
+}
+
+/**
+ * Position estimated during a recorded trip, after its fixIndex first fixes
+ */
+export interface TraceEstimate {
+  timestamp: number;
+  fixIndex: number;
+}
+
+/**
+ * Trip recorded for debugging: the fixes given to the navigation session,
+ * the routes it followed and the events it emitted
+ */
+export interface NavigationTrace {
+  id: string;
+  startedAt: number; // Timestamp in ms
+  endedAt: number | null;
+  profile: RoutingProfile;
+  fixes: LocationFix[];
+  routes: TraceRoute[]; // Initial route, then one per reroute
+  estimates?: TraceEstimate[]; // Missing from traces saved before they were recorded
+  events: TraceEvent[];
+}
+
 /**
  * Rerouting state
  */
@@ -71,6 +223,59 @@ export interface FeatureDetectionState {
   featureDetectionComplete: boolean;
 }
 
+/**
+ * An intermediate stop of a multi-stop itinerary
+ */
+export interface RouteStop {
+  coordinates: Coordinate;
+  name: string;
+  locked?: boolean; // Keeps its position when the stop order is optimized
+}
+
+/**
+ * A step of a route flattened across all of its legs
+ */
+export interface RouteStepEntry {
+  step: Step;
+  legIndex: number;
+  startDistance: number; // Distance along the whole route where the step begins (meters)
+}
+
+/**
+ * Reported pin lying on a route
+ */
+export interface RouteHazard {
+  pin: PinRead;
+  distanceAlongRoute: number; // Where the pin projects on the route (meters from the start)
+}
+
+/**
+ * Piece of a route whose pins are fetched with a single radius query
+ */
+export interface RouteChunk {
+  index: number;
+  startDistance: number; // Along the route, in meters
+  endDistance: number;
+  center: Coordinate; // Middle of the piece along the route
+  radiusMeters: number; // Radius around the center covering the whole piece
+}
+
+/**
+ * Next hazard on the route ahead of the user
+ */
+export interface UpcomingHazard {
+  pin: PinRead;
+  distance: number; // Distance left along the route (meters)
+}
+
+/**
+ * Step of a route with the time its maneuver should be reached
+ */
+export interface StepTimelineEntry extends RouteStepEntry {
+  stepIndex: number; // Index among the steps of every leg
+  maneuverTime: Date;
+}
+
 /**
  * A location coordinate
  */
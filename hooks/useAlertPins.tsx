@@ -2,17 +2,31 @@
 import { useState, useEffect, useRef } from 'react';
 import { usePins } from '@/providers/PinProvider';
 import { useUser } from '@/providers/UserProvider';
+import { Route } from '@/types/mapbox';
+import { findNearestPointOnRoute } from '@/hooks/routing/utils/routeAnalysis';
+import { PIN_CORRIDOR_LOOKAHEAD_METERS } from '@/hooks/routing/utils/constants';
 
 // Minimum distance (in meters) the user needs to move before updating pins
 const LOCATION_THRESHOLD = 200;
 // Polling interval in milliseconds
 const POLLING_INTERVAL = 30000; // 30 seconds
 
-export default function useAlertPins(userLocation: { longitude: number; latitude: number } | null) {
-  const { fetchPins, pins } = usePins();
+interface UseAlertPinsOptions {
+  route?: Route | null; // Also fetch the pins along this route, not only around the user
+  isNavigating?: boolean; // Refresh the pins of the route ahead of the user
+}
+
+export default function useAlertPins(
+  userLocation: { longitude: number; latitude: number } | null,
+  options: UseAlertPinsOptions = {}
+) {
+  const { route = null, isNavigating = false } = options;
+  const { fetchPins, fetchPinsAlongRoute, clearRoutePins, pins } = usePins();
   const { isSignedIn } = useUser(); // Add this to detect auth state changes
   const lastFetchedLocation = useRef<{ longitude: number; latitude: number } | null>(null);
   const intervalRef = useRef<NodeJS.Timeout | null>(null);
+  const userLocationRef = useRef(userLocation);
+  userLocationRef.current = userLocation;
   
   // Calculate distance between coordinates (Haversine formula)
   const getDistanceInMeters = (
@@ -90,5 +104,41 @@ export default function useAlertPins(userLocation: { longitude: number; latitude
     }
   }, [isSignedIn]); // This will trigger when login/logout occurs
   
+  const isNavigatingRef = useRef(isNavigating);
+  isNavigatingRef.current = isNavigating;
+
+  // Fetch the pins of the route ahead of the user, or of the whole route before leaving
+  const loadRoutePins = (currentRoute: Route) => {
+    const location = userLocationRef.current;
+    if (!isNavigatingRef.current || !location) {
+      fetchPinsAlongRoute(currentRoute);
+      return;
+    }
+    const { location: progress } = findNearestPointOnRoute(currentRoute, [
+      location.longitude,
+      location.latitude,
+    ]);
+    fetchPinsAlongRoute(currentRoute, {
+      fromDistance: progress,
+      toDistance: progress + PIN_CORRIDOR_LOOKAHEAD_METERS,
+    });
+  };
+
+  // A new route (selection, reroute) gets its corridor fetched right away
+  useEffect(() => {
+    if (!route) {
+      clearRoutePins();
+      return;
+    }
+    loadRoutePins(route);
+  }, [route]);
+
+  // While navigating, keep the corridor ahead of the user up to date
+  useEffect(() => {
+    if (!route || !isNavigating) return;
+    const corridorInterval = setInterval(() => loadRoutePins(route), POLLING_INTERVAL);
+    return () => clearInterval(corridorInterval);
+  }, [route, isNavigating]);
+
   return { pins };
 }
\ No newline at end of file
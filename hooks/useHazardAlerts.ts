@@ -0,0 +1,105 @@
+// hooks/useHazardAlerts.ts
+import { useState, useEffect, useMemo, useRef } from 'react';
+import { PinRead, PinType } from '@/types/api';
+import { Route } from '@/types/mapbox';
+import { Coordinate, UpcomingHazard } from '@/hooks/routing/utils/types';
+import {
+  findNearestPointOnRoute,
+  getPinsAlongRoute,
+} from '@/hooks/routing/utils/routeAnalysis';
+import { PIN_ROUTE_CORRIDOR_METERS } from '@/hooks/routing/utils/constants';
+import { formatSpokenDistance } from '@/hooks/routing/utils/formatters';
+import ttsManager from '@/utils/ttsManager';
+
+// --- Constants for this hook ---
+// Hazard distances are spoken to the nearest 50 meters
+const HAZARD_DISTANCE_ROUNDING_METERS = 50;
+
+// Distances ahead (in meters) at which each kind of hazard is announced, farthest first
+const HAZARD_ANNOUNCEMENT_DISTANCES: Record<PinType, number[]> = {
+  accident: [1000, 300],
+  traffic_jam: [1500, 500],
+  roadwork: [800, 200],
+  cop: [500],
+  obstacle: [400, 150],
+};
+
+// Spoken name of each hazard, agreed with "signalé"
+const HAZARD_SPOKEN_LABELS: Record<PinType, string> = {
+  accident: 'Accident signalé',
+  traffic_jam: 'Embouteillage signalé',
+  roadwork: 'Travaux signalés',
+  cop: 'Police signalée',
+  obstacle: 'Obstacle signalé',
+};
+
+interface UseHazardAlertsResult {
+  upcomingHazard: UpcomingHazard | null; // Nearest hazard within its announcement range
+}
+
+/**
+ * Announces the reported pins lying on the route ahead while navigating
+ */
+export const useHazardAlerts = (
+  route: Route | null,
+  userLocation: Coordinate | null,
+  alertPins: PinRead[] | null,
+  isNavigating: boolean
+): UseHazardAlertsResult => {
+  const [upcomingHazard, setUpcomingHazard] = useState<UpcomingHazard | null>(null);
+  // `${pinId}-${distance}` of the announcements already made on this route
+  const announcedRef = useRef<Set<string>>(new Set());
+
+  // Projecting the pins only depends on the route, not on the user's position
+  const routeHazards = useMemo(
+    () =>
+      route && alertPins && alertPins.length > 0
+        ? getPinsAlongRoute(route, alertPins, PIN_ROUTE_CORRIDOR_METERS)
+        : [],
+    [route, alertPins]
+  );
+
+  useEffect(() => {
+    announcedRef.current.clear();
+  }, [route]);
+
+  useEffect(() => {
+    if (!isNavigating || !route || !userLocation || routeHazards.length === 0) {
+      setUpcomingHazard(null);
+      return;
+    }
+
+    const { location: progress } = findNearestPointOnRoute(route, userLocation);
+
+    let nearest: UpcomingHazard | null = null;
+    // One announcement per position update, the others come with the next fixes
+    let hasSpoken = false;
+    for (const { pin, distanceAlongRoute } of routeHazards) {
+      const distance = distanceAlongRoute - progress;
+      if (distance <= 0) continue; // Already passed
+
+      const announcementDistances = HAZARD_ANNOUNCEMENT_DISTANCES[pin.type] || [];
+      if (announcementDistances.length === 0 || distance > announcementDistances[0]) {
+        continue;
+      }
+      if (!nearest) nearest = { pin, distance };
+
+      // Only the closest crossed distance is announced, farther ones are skipped
+      const crossed = announcementDistances.filter((d) => distance <= d);
+      const key = `${pin.id}-${crossed[crossed.length - 1]}`;
+      if (!hasSpoken && !announcedRef.current.has(key)) {
+        hasSpoken = true;
+        crossed.forEach((d) => announcedRef.current.add(`${pin.id}-${d}`));
+        ttsManager.speak(
+          `${HAZARD_SPOKEN_LABELS[pin.type]} dans ${formatSpokenDistance(
+            distance,
+            HAZARD_DISTANCE_ROUNDING_METERS
+          )}`
+        );
+      }
+    }
+    setUpcomingHazard(nearest);
+  }, [isNavigating, route, userLocation, routeHazards]);
+
+  return { upcomingHazard };
+};
@@ -0,0 +1,100 @@
+/**
+ * DepartureReminderProvider exposes the trips scheduled with a departure reminder.
+ * It keeps reminders up to date while the app runs and opens the trip of a tapped
+ * reminder in route selection, through the same payload as a scanned QR code.
+ */
+
+import React, { createContext, useState, useContext, useEffect, ReactNode } from 'react';
+import { AppState } from 'react-native';
+import { router } from 'expo-router';
+import departureReminderManager, { ScheduledTrip } from '@/utils/departureReminderManager';
+import { useQRCode } from './QRCodeProvider';
+
+// Interval between departure estimate refreshes while the app is open
+const REFRESH_INTERVAL_MS = 5 * 60 * 1000;
+
+interface DepartureReminderContextType {
+  scheduledTrips: ScheduledTrip[];
+  addScheduledTrip: (
+    trip: Omit<ScheduledTrip, 'id' | 'departureTime' | 'notificationId'>
+  ) => Promise<ScheduledTrip>;
+  removeScheduledTrip: (id: string) => Promise<void>;
+}
+
+const DepartureReminderContext = createContext<DepartureReminderContextType | undefined>(
+  undefined
+);
+
+/**
+ * Provides scheduled trips and keeps their reminders in sync with traffic.
+ * Must be rendered inside a QRCodeProvider.
+ */
+export const DepartureReminderProvider: React.FC<{ children: ReactNode }> = ({ children }) => {
+  const [scheduledTrips, setScheduledTrips] = useState<ScheduledTrip[]>([]);
+  const { setQRData } = useQRCode();
+
+  useEffect(() => {
+    const handleTripsChanged = (trips: ScheduledTrip[]) => setScheduledTrips(trips);
+    const handleTripOpened = (trip: ScheduledTrip) => {
+      setQRData({
+        toCoords: trip.destination,
+        // Without stored excludes, the trip follows the current user preferences
+        ...(trip.excludes ? { excludes: trip.excludes } : {}),
+        arriveBy: trip.arriveBy,
+        timestamp: Date.now(),
+      });
+      router.navigate('/');
+    };
+
+    departureReminderManager.on('tripsChanged', handleTripsChanged);
+    departureReminderManager.on('tripOpened', handleTripOpened);
+    departureReminderManager.initialize().catch((error) => {
+      console.error('Failed to initialize departure reminders:', error);
+    });
+
+    const refreshTrips = () => {
+      departureReminderManager.refreshTrips().catch((error) => {
+        console.error('Failed to refresh departure reminders:', error);
+      });
+    };
+    const refreshTimer = setInterval(refreshTrips, REFRESH_INTERVAL_MS);
+
+    // Estimates may be stale after the app was in the background
+    const appStateSubscription = AppState.addEventListener('change', (state) => {
+      if (state === 'active') {
+        refreshTrips();
+      }
+    });
+
+    return () => {
+      departureReminderManager.off('tripsChanged', handleTripsChanged);
+      departureReminderManager.off('tripOpened', handleTripOpened);
+      clearInterval(refreshTimer);
+      appStateSubscription.remove();
+    };
+  }, [setQRData]);
+
+  return (
+    <DepartureReminderContext.Provider
+      value={{
+        scheduledTrips,
+        addScheduledTrip: (trip) => departureReminderManager.addTrip(trip),
+        removeScheduledTrip: (id) => departureReminderManager.removeTrip(id),
+      }}
+    >
+      {children}
+    </DepartureReminderContext.Provider>
+  );
+};
+
+/**
+ * Hook to access DepartureReminderContext.
+ * Throws if used outside a DepartureReminderProvider.
+ */
+export const useDepartureReminders = () => {
+  const context = useContext(DepartureReminderContext);
+  if (!context) {
+    throw new Error('useDepartureReminders must be used within a DepartureReminderProvider');
+  }
+  return context;
+};
@@ -1,12 +1,30 @@
 /**
  * PinProvider manages alert pins reported by users (e.g. obstacles, accidents).
- * Provides functions to fetch nearby pins, report new ones, and remove existing ones.
+ * Provides functions to fetch nearby pins or pins along a route, report new ones, and remove existing ones.
  * It also exposes state such as the selected pin, loading/error status, and search radius.
  */
 
-import React, { createContext, useState, useContext, useEffect, ReactNode } from 'react';
+import React, { createContext, useState, useContext, useEffect, useRef, ReactNode } from 'react';
 import { fetchNearbyPins, createPin, deletePin } from '@/services/useService';
 import { PinRead, PinType } from '@/types/api';
+import { Route } from '@/types/mapbox';
+import { getRouteChunks } from '@/hooks/routing/utils/routeAnalysis';
+import {
+  PIN_CORRIDOR_CHUNK_METERS,
+  PIN_CORRIDOR_MARGIN_METERS,
+  PIN_CORRIDOR_MAX_CONCURRENT_REQUESTS,
+} from '@/hooks/routing/utils/constants';
+
+// Source of the pins fetched around the user, route chunks use `route-${index}`
+const NEARBY_SOURCE = 'nearby';
+
+/**
+ * Part of a route whose pins should be fetched, in meters along the route
+ */
+export interface RoutePinRange {
+  fromDistance: number;
+  toDistance: number;
+}
 
 /**
  * Context type defining exposed state and actions related to pins.
@@ -18,6 +36,8 @@ interface PinContextType {
   selectedPin: PinRead | null;
   radiusKm: number;
   fetchPins: (longitude: number, latitude: number) => Promise<void>;
+  fetchPinsAlongRoute: (route: Route, range?: RoutePinRange) => Promise<void>;
+  clearRoutePins: () => void;
   reportPin: (type: PinType, longitude: number, latitude: number, description?: string) => Promise<void>;
   removePin: (pinId: string) => Promise<void>;
   setSelectedPin: (pin: PinRead | null) => void;
@@ -44,6 +64,22 @@ export const PinProvider: React.FC<PinProviderProps> = ({
   const [error, setError] = useState<string | null>(null);
   const [selectedPin, setSelectedPin] = useState<PinRead | null>(null);
   const [radiusKm, setRadiusKm] = useState(initialRadius);
+  // Last pins of each query (around the user, each route chunk), merged into `pins`
+  const pinSources = useRef<Map<string, PinRead[]>>(new Map());
+  const corridorRoute = useRef<Route | null>(null);
+  // Cancels the route chunks still loading, replaced by each new batch
+  const corridorAbort = useRef<AbortController | null>(null);
+
+  /**
+   * Publishes the pins of every source, each pin once.
+   */
+  const publishPins = () => {
+    const merged = new Map<string, PinRead>();
+    pinSources.current.forEach((sourcePins) => {
+      sourcePins.forEach((pin) => merged.set(pin.id, pin));
+    });
+    setPins(Array.from(merged.values()));
+  };
 
   /**
    * Fetches all pins near a given coordinate, within the configured radius.
@@ -57,7 +93,8 @@ export const PinProvider: React.FC<PinProviderProps> = ({
       const response = await fetchNearbyPins(longitude, latitude, radiusKm);
       if (response.data) {
         console.log(`Fetched ${response.data.length} pins from API`);
-        setPins(response.data);
+        pinSources.current.set(NEARBY_SOURCE, response.data);
+        publishPins();
       }
     } catch (err) {
       setError('Failed to fetch alert pins');
@@ -67,6 +104,104 @@ export const PinProvider: React.FC<PinProviderProps> = ({
     }
   };
 
+  /**
+   * Fetches the pins along a route, one radius query per chunk of the route.
+   * Only the chunks overlapping the range are (re)fetched, chunks behind it are dropped.
+   * A few chunks are fetched at a time, and a new call cancels the chunks still loading.
+   */
+  const fetchPinsAlongRoute = async (route: Route, range?: RoutePinRange) => {
+    corridorAbort.current?.abort();
+    const controller = new AbortController();
+    corridorAbort.current = controller;
+
+    // Chunks of a previous route no longer apply
+    if (corridorRoute.current !== route) {
+      clearRouteSources();
+      corridorRoute.current = route;
+    }
+
+    const fromDistance = range?.fromDistance ?? 0;
+    const toDistance = range?.toDistance ?? Infinity;
+    const chunks = getRouteChunks(route, PIN_CORRIDOR_CHUNK_METERS, PIN_CORRIDOR_MARGIN_METERS);
+    chunks
+      .filter((chunk) => chunk.endDistance <= fromDistance)
+      .forEach((chunk) => pinSources.current.delete(`route-${chunk.index}`));
+    const chunksToFetch = chunks.filter(
+      (chunk) => chunk.endDistance > fromDistance && chunk.startDistance < toDistance
+    );
+
+    setLoading(true);
+    setError(null);
+
+    // Each worker takes the next chunk in route order until none is left
+    const results: PromiseSettledResult<PinRead[] | undefined>[] = [];
+    let nextChunk = 0;
+    const fetchChunks = async () => {
+      while (nextChunk < chunksToFetch.length && !controller.signal.aborted) {
+        const i = nextChunk++;
+        const { center, radiusMeters } = chunksToFetch[i];
+        try {
+          const response = await fetchNearbyPins(
+            center[0],
+            center[1],
+            radiusMeters / 1000,
+            controller.signal
+          );
+          results[i] = { status: 'fulfilled', value: response.data };
+        } catch (reason) {
+          results[i] = { status: 'rejected', reason };
+        }
+      }
+    };
+    await Promise.all(
+      Array.from(
+        { length: Math.min(PIN_CORRIDOR_MAX_CONCURRENT_REQUESTS, chunksToFetch.length) },
+        fetchChunks
+      )
+    );
+
+    // Replaced by a newer batch, or the route pins were cleared meanwhile
+    if (corridorAbort.current !== controller) {
+      if (!corridorAbort.current) setLoading(false);
+      return;
+    }
+    corridorAbort.current = null;
+
+    results.forEach((result, i) => {
+      if (result.status === 'fulfilled' && result.value) {
+        pinSources.current.set(`route-${chunksToFetch[i].index}`, result.value);
+      }
+    });
+    publishPins();
+
+    const failures = results.filter((result) => result.status === 'rejected');
+    if (failures.length > 0) {
+      setError('Failed to fetch alert pins');
+      console.error(`Error fetching pins for ${failures.length} route chunks`);
+    }
+    setLoading(false);
+  };
+
+  /**
+   * Removes the sources of route chunks, without publishing.
+   */
+  const clearRouteSources = () => {
+    Array.from(pinSources.current.keys())
+      .filter((source) => source !== NEARBY_SOURCE)
+      .forEach((source) => pinSources.current.delete(source));
+  };
+
+  /**
+   * Forgets the pins fetched along a route, keeping the ones around the user.
+   */
+  const clearRoutePins = () => {
+    corridorAbort.current?.abort();
+    corridorAbort.current = null;
+    corridorRoute.current = null;
+    clearRouteSources();
+    publishPins();
+  };
+
   /**
    * Reports a new pin of a given type and location to the backend.
    * Updates local state immediately if successful.
@@ -89,7 +224,9 @@ export const PinProvider: React.FC<PinProviderProps> = ({
       });
       
       if (response.data) {
-        setPins(prev => [...prev, response.data]);
+        const nearbyPins = pinSources.current.get(NEARBY_SOURCE) || [];
+        pinSources.current.set(NEARBY_SOURCE, [...nearbyPins, response.data]);
+        publishPins();
       }
     } catch (err) {
       setError('Failed to create pin');
@@ -108,7 +245,10 @@ export const PinProvider: React.FC<PinProviderProps> = ({
     
     try {
       await deletePin(pinId);
-      setPins(prev => prev.filter(pin => pin.id !== pinId));
+      pinSources.current.forEach((sourcePins, source) => {
+        pinSources.current.set(source, sourcePins.filter(pin => pin.id !== pinId));
+      });
+      publishPins();
       if (selectedPin?.id === pinId) {
         setSelectedPin(null);
       }
@@ -127,6 +267,8 @@ export const PinProvider: React.FC<PinProviderProps> = ({
     selectedPin,
     radiusKm,
     fetchPins,
+    fetchPinsAlongRoute,
+    clearRoutePins,
     reportPin,
     removePin,
     setSelectedPin,
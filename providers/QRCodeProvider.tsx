@@ -11,6 +11,7 @@ import React, { createContext, useState, useContext } from 'react';
 interface QRCodeData {
   toCoords: [number, number] | null;
   excludes?: string[]; // Optional list of avoidances (e.g. tolls, highways)
+  arriveBy?: number;   // Required arrival time in ms, set when opened from a departure reminder
   timestamp: number;   // Used to handle expiration or uniqueness
 }
 
@@ -57,14 +57,21 @@ interface UserContextType {
   updatePreferences: (preferences: UserPreferences) => Promise<void>;
 }
 
+// Preferences used while no user profile is loaded
+const DEFAULT_PREFERENCES: UserPreferences = {
+  avoid_tolls: false,
+  avoid_highways: false,
+  avoid_unpaved: false,
+  avoid_ferries: false,
+  avoid_cash_only_tolls: false,
+  avoid_country_borders: false,
+  avoid_tunnels: false,
+};
+
 // Create context with default values (mocked empty implementation)
 const UserContext = createContext<UserContextType>({
   userData: {
-    preferences: {
-      avoid_tolls: false,
-      avoid_highways: false,
-      avoid_unpaved: false,
-    },
+    preferences: DEFAULT_PREFERENCES,
   } as User,
   setUserData: () => {},
   bearerToken: undefined,
@@ -87,11 +94,7 @@ interface UserProviderProps {
 
 export const UserProvider: React.FC<UserProviderProps> = ({ children }) => {
   const [userData, setUserData] = useState<User>({
-    preferences: {
-      avoid_tolls: false,
-      avoid_highways: false,
-      avoid_unpaved: false,
-    },
+    preferences: DEFAULT_PREFERENCES,
   } as User);
   const [bearerToken, setBearerToken] = useState<string | undefined>(undefined);
   const [isLoading, setIsLoading] = useState<boolean>(true);
@@ -289,11 +292,7 @@ export const UserProvider: React.FC<UserProviderProps> = ({ children }) => {
       setIsLoading(true);
       await GoogleSignin.signOut();
       setUserData({
-        preferences: {
-          avoid_tolls: false,
-          avoid_highways: false,
-          avoid_unpaved: false,
-        },
+        preferences: DEFAULT_PREFERENCES,
       } as User);
 
       setAuthToken(undefined);
@@ -321,7 +320,8 @@ export const UserProvider: React.FC<UserProviderProps> = ({ children }) => {
         if (response.data) {
           setUserData((prevData) => ({
             ...prevData,
-            preferences: response.data.preferences || preferences,
+            // Keep the values a backend without the newer fields does not send back
+            preferences: { ...preferences, ...response.data.preferences },
           }));
         }
       } catch (error) {
@@ -0,0 +1,56 @@
+import axios from 'axios';
+import { OsrmDirectionsProvider } from '../osrmDirections';
+
+jest.mock('axios');
+const mockedAxios = axios as jest.Mocked<typeof axios>;
+
+describe('OsrmDirectionsProvider excludes', () => {
+  const provider = new OsrmDirectionsProvider('http://localhost:5000/');
+
+  beforeEach(() => {
+    mockedAxios.get.mockReset();
+    mockedAxios.get.mockResolvedValue({ data: { code: 'Ok', routes: [], waypoints: [] } });
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('keeps a single combination the stock driving profile defines', () => {
+    expect(provider.getAppliedExcludes(['toll', 'motorway', 'ferry'], 'driving')).toEqual(['toll']);
+    expect(provider.getAppliedExcludes(['tunnel', 'ferry'], 'driving-traffic')).toEqual(['ferry']);
+    expect(provider.getAppliedExcludes(['ferry'], 'walking')).toEqual([]);
+  });
+
+  it('prefers the largest combination a custom profile defines', () => {
+    const custom = new OsrmDirectionsProvider('http://localhost:5000', {
+      driving: [['toll'], ['toll', 'motorway'], ['tunnel']],
+    });
+    expect(custom.getAppliedExcludes(['motorway', 'toll', 'tunnel'], 'driving')).toEqual([
+      'toll',
+      'motorway',
+    ]);
+  });
+
+  it('only sends the applied excludes to the server', async () => {
+    await provider.getDirections([2.35, 48.85], [2.36, 48.86], {
+      excludes: ['toll', 'motorway', 'tunnel'],
+      profile: 'driving',
+    });
+
+    const url = new URL(mockedAxios.get.mock.calls[0][0]);
+    expect(url.pathname).toBe('/route/v1/driving/2.35,48.85;2.36,48.86');
+    expect(url.searchParams.get('exclude')).toBe('toll');
+  });
+
+  it('sends no exclude parameter when none applies', async () => {
+    await provider.getDirections([2.35, 48.85], [2.36, 48.86], {
+      excludes: ['ferry'],
+      profile: 'cycling',
+    });
+
+    const url = new URL(mockedAxios.get.mock.calls[0][0]);
+    expect(url.searchParams.has('exclude')).toBe(false);
+  });
+});
@@ -0,0 +1,238 @@
+import * as turf from '@turf/turf';
+import { Leg, MapboxDirectionsResponse, Route, Step, Waypoint } from '@/types/mapbox';
+import { RoutingProfile } from '@/types/api';
+import { Coordinate } from '@/hooks/routing/utils/types';
+import { DEFAULT_ROUTING_PROFILE } from '@/hooks/routing/utils/constants';
+import { formatDistance } from '@/hooks/routing/utils/formatters';
+import { DirectionsProvider, DirectionsRequest } from './types';
+
+// Average speeds used for synthesized durations, in meters per second
+const PROFILE_SPEEDS: Record<RoutingProfile, number> = {
+  'driving-traffic': 11,
+  driving: 13,
+  cycling: 4.5,
+  walking: 1.4,
+};
+
+// Spacing of synthesized geometry points, so progress tracking has vertices to snap to
+const GEOMETRY_POINT_SPACING_METERS = 25;
+
+// Distance before the end of a leg where the arrival is announced
+const ARRIVAL_ANNOUNCEMENT_METERS = 100;
+
+const UTC_TIME_ZONE = { abbreviation: 'UTC', identifier: 'UTC', offset: '+00:00' };
+
+/**
+ * Request received by the fixture provider, kept for inspection
+ */
+export interface RecordedDirectionsRequest {
+  origin: Coordinate;
+  destination: Coordinate;
+  request?: DirectionsRequest;
+}
+
+/**
+ * Local stand-in for a directions backend.
+ * Replays queued responses in order, then synthesizes straight-line routes.
+ */
+export class FixtureDirectionsProvider implements DirectionsProvider {
+  public readonly name = 'fixture';
+  public readonly recordedRequests: RecordedDirectionsRequest[] = [];
+  private queuedResponses: MapboxDirectionsResponse[];
+  private latencyMs: number;
+
+  constructor(options: { responses?: MapboxDirectionsResponse[]; latencyMs?: number } = {}) {
+    this.queuedResponses = [...(options.responses || [])];
+    this.latencyMs = options.latencyMs ?? 0;
+  }
+
+  /**
+   * Queue a response to be returned by the next request
+   */
+  public queueResponse(response: MapboxDirectionsResponse): void {
+    this.queuedResponses.push(response);
+  }
+
+  public async getDirections(
+    origin: Coordinate,
+    destination: Coordinate,
+    request?: DirectionsRequest
+  ): Promise<MapboxDirectionsResponse> {
+    this.recordedRequests.push({ origin, destination, request });
+    if (this.latencyMs > 0) {
+      await new Promise((resolve) => setTimeout(resolve, this.latencyMs));
+    }
+
+    const queued = this.queuedResponses.shift();
+    if (queued) return queued;
+
+    const coordinates = [origin, ...(request?.waypoints || []), destination];
+    const profile = request?.profile || DEFAULT_ROUTING_PROFILE;
+    return {
+      code: 'Ok',
+      uuid: `fixture-${Date.now()}`,
+      routes: [this.synthesizeRoute(coordinates, profile)],
+      waypoints: coordinates.map(
+        (coord): Waypoint => ({
+          name: '',
+          location: coord,
+          distance: 0,
+          time_zone: UTC_TIME_ZONE,
+        })
+      ),
+    };
+  }
+
+  /**
+   * Every exclusion is accepted, synthesized routes do not depend on them
+   */
+  public getAppliedExcludes(excludes: string[]): string[] {
+    return [...excludes];
+  }
+
+  /**
+   * Straight-line travel times at the profile average speed
+   */
+  public async getDurationMatrix(
+    coordinates: Coordinate[],
+    profile: RoutingProfile = DEFAULT_ROUTING_PROFILE
+  ): Promise<number[][]> {
+    return coordinates.map((from) =>
+      coordinates.map(
+        (to) =>
+          turf.distance(turf.point(from), turf.point(to), { units: 'meters' }) /
+          PROFILE_SPEEDS[profile]
+      )
+    );
+  }
+
+  public async checkConnection(): Promise<boolean> {
+    return true;
+  }
+
+  /**
+   * Build a route going in a straight line from each coordinate to the next
+   */
+  private synthesizeRoute(coordinates: Coordinate[], profile: RoutingProfile): Route {
+    const legs: Leg[] = [];
+    for (let i = 0; i < coordinates.length - 1; i++) {
+      const isLastLeg = i === coordinates.length - 2;
+      legs.push(this.synthesizeLeg(coordinates[i], coordinates[i + 1], profile, isLastLeg, i));
+    }
+
+    const geometryCoordinates = legs.flatMap((leg, legIndex) =>
+      // Consecutive legs share their boundary point
+      leg.steps[0].geometry.coordinates.slice(legIndex === 0 ? 0 : 1)
+    );
+    const distance = legs.reduce((sum, leg) => sum + leg.distance, 0);
+    const duration = legs.reduce((sum, leg) => sum + leg.duration, 0);
+
+    return {
+      weight_typical: duration,
+      duration_typical: duration,
+      is_prefered: true,
+      weight_name: 'auto',
+      weight: duration,
+      duration,
+      distance,
+      legs,
+      geometry: { type: 'LineString', coordinates: geometryCoordinates },
+      voiceLocale: 'fr-FR',
+    };
+  }
+
+  /**
+   * Build a leg made of a single straight step followed by the arrival
+   */
+  private synthesizeLeg(
+    start: Coordinate,
+    end: Coordinate,
+    profile: RoutingProfile,
+    isLastLeg: boolean,
+    legIndex: number
+  ): Leg {
+    const line = turf.lineString([start, end]);
+    const distance = turf.length(line, { units: 'meters' });
+    const duration = distance / PROFILE_SPEEDS[profile];
+    const bearing = (turf.bearing(turf.point(start), turf.point(end)) + 360) % 360;
+    const mode = profile === 'driving-traffic' ? 'driving' : profile;
+
+    const geometry: GeoJSON.Position[] = [start];
+    for (
+      let along = GEOMETRY_POINT_SPACING_METERS;
+      along < distance;
+      along += GEOMETRY_POINT_SPACING_METERS
+    ) {
+      geometry.push(turf.along(line, along, { units: 'meters' }).geometry.coordinates);
+    }
+    geometry.push(end);
+
+    const arrivalInstruction = isLastLeg
+      ? 'Vous êtes arrivé à destination'
+      : `Vous êtes arrivé à l'étape ${legIndex + 1}`;
+
+    const departStep: Step = {
+      geometry: { type: 'LineString', coordinates: geometry },
+      mode,
+      name: '',
+      distance,
+      duration,
+      weight: duration,
+      maneuver: {
+        type: 'depart',
+        instruction: 'Continuez tout droit',
+        bearing_before: 0,
+        bearing_after: bearing,
+        location: start,
+      },
+      // distanceAlongGeometry is the distance left to the end of the step, as with Mapbox
+      voiceInstructions: [
+        {
+          distanceAlongGeometry: distance,
+          announcement: `Continuez tout droit sur ${formatDistance(distance)}`,
+          ssmlAnnouncement: '',
+        },
+        ...(distance > ARRIVAL_ANNOUNCEMENT_METERS
+          ? [
+              {
+                distanceAlongGeometry: ARRIVAL_ANNOUNCEMENT_METERS,
+                announcement: isLastLeg
+                  ? 'Vous arrivez à destination'
+                  : "Vous arrivez à l'étape",
+                ssmlAnnouncement: '',
+              },
+            ]
+          : []),
+      ],
+    };
+
+    const arriveStep: Step = {
+      geometry: { type: 'LineString', coordinates: [end, end] },
+      mode,
+      name: '',
+      distance: 0,
+      duration: 0,
+      weight: 0,
+      maneuver: {
+        type: 'arrive',
+        instruction: arrivalInstruction,
+        bearing_before: bearing,
+        bearing_after: 0,
+        location: end,
+      },
+      voiceInstructions: [],
+    };
+
+    return {
+      via_waypoints: [],
+      admins: [],
+      weight_typical: duration,
+      duration_typical: duration,
+      weight: duration,
+      duration,
+      distance,
+      summary: '',
+      steps: [departStep, arriveStep],
+    };
+  }
+}
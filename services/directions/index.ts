@@ -0,0 +1,48 @@
+import Config from 'react-native-config';
+import { DirectionsProvider } from './types';
+import { MapboxDirectionsProvider } from './mapboxDirections';
+import { FixtureDirectionsProvider } from './fixtureDirections';
+import { OsrmDirectionsProvider } from './osrmDirections';
+
+export * from './types';
+export {
+  MapboxDirectionsProvider,
+  getSupportedExcludes,
+  getScheduledProfile,
+  getMultiStopProfile,
+} from './mapboxDirections';
+export { FixtureDirectionsProvider } from './fixtureDirections';
+export { OsrmDirectionsProvider } from './osrmDirections';
+
+/**
+ * Create the backend selected with DIRECTIONS_BACKEND, Mapbox by default.
+ * Self-hosted backends read their server root from DIRECTIONS_BASE_URL.
+ */
+const createConfiguredProvider = (): DirectionsProvider => {
+  switch (Config.DIRECTIONS_BACKEND) {
+    case 'fixture':
+      return new FixtureDirectionsProvider();
+    case 'osrm':
+      if (!Config.DIRECTIONS_BASE_URL) {
+        console.warn('DIRECTIONS_BASE_URL is not set, falling back to Mapbox directions');
+        return new MapboxDirectionsProvider();
+      }
+      return new OsrmDirectionsProvider(Config.DIRECTIONS_BASE_URL);
+    default:
+      return new MapboxDirectionsProvider();
+  }
+};
+
+let defaultProvider: DirectionsProvider = createConfiguredProvider();
+
+/**
+ * Provider used by requests that are not given one explicitly
+ */
+export const getDirectionsProvider = (): DirectionsProvider => defaultProvider;
+
+/**
+ * Replace the default provider, e.g. with a fixture provider in tests
+ */
+export const setDirectionsProvider = (provider: DirectionsProvider): void => {
+  defaultProvider = provider;
+};
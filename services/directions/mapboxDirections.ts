@@ -0,0 +1,195 @@
+import axios from 'axios';
+import { MapboxDirectionsResponse, MapboxMatrixResponse } from '@/types/mapbox';
+import { RoutingProfile } from '@/types/api';
+import { Coordinate, TripSchedule } from '@/hooks/routing/utils/types';
+import {
+  DEFAULT_ROUTING_PROFILE,
+  DRIVING_EXCLUDES,
+  MAPBOX_ACCESS_TOKEN,
+  MAX_EXCLUDE_POINTS,
+  MAX_TRAFFIC_ROUTE_COORDINATES,
+  NON_DRIVING_EXCLUDES,
+} from '@/hooks/routing/utils/constants';
+import { DirectionsProvider, DirectionsRequest } from './types';
+
+// The traffic-aware matrix profile only accepts up to 10 coordinates
+const MAX_TRAFFIC_MATRIX_COORDINATES = 10;
+const MAX_MATRIX_COORDINATES = 25;
+
+/**
+ * Keep only the exclusion classes the given profile supports
+ */
+export const getSupportedExcludes = (
+  excludes: string[],
+  profile: RoutingProfile
+): string[] => {
+  if (profile === 'walking' || profile === 'cycling') {
+    return excludes.filter((exclude) => NON_DRIVING_EXCLUDES.includes(exclude));
+  }
+  return excludes.filter((exclude) => DRIVING_EXCLUDES.includes(exclude));
+};
+
+/**
+ * Exclude values for the locations to route around.
+ * Only the driving profiles support points, and only up to MAX_EXCLUDE_POINTS of them.
+ */
+const getExcludedPoints = (points: Coordinate[], profile: RoutingProfile): string[] => {
+  if (profile !== 'driving' && profile !== 'driving-traffic') return [];
+  return points.slice(0, MAX_EXCLUDE_POINTS).map(([lon, lat]) => `point(${lon} ${lat})`);
+};
+
+/**
+ * Profile actually requested for a scheduled trip.
+ * Mapbox only accepts arrive_by with the plain driving profile.
+ */
+export const getScheduledProfile = (
+  profile: RoutingProfile,
+  schedule: TripSchedule | null | undefined
+): RoutingProfile => {
+  if (schedule?.mode === 'arrive_by' && profile === 'driving-traffic') {
+    return 'driving';
+  }
+  return profile;
+};
+
+/**
+ * Profile actually requested for a trip with intermediate stops.
+ * Mapbox only accepts MAX_TRAFFIC_ROUTE_COORDINATES coordinates with driving-traffic.
+ */
+export const getMultiStopProfile = (
+  profile: RoutingProfile,
+  waypointCount: number
+): RoutingProfile => {
+  if (profile === 'driving-traffic' && waypointCount + 2 > MAX_TRAFFIC_ROUTE_COORDINATES) {
+    return 'driving';
+  }
+  return profile;
+};
+
+/**
+ * Format a date the way depart_at/arrive_by expect it (YYYY-MM-DDThh:mmZ)
+ */
+const formatScheduleTime = (date: Date): string =>
+  `${date.toISOString().slice(0, 16)}Z`;
+
+/**
+ * Per-segment annotations to request for a profile.
+ * Congestion needs live traffic and speed limits are only known for driving.
+ */
+const getAnnotations = (profile: RoutingProfile): string => {
+  const annotations = ['duration', 'distance', 'speed'];
+  if (profile === 'driving' || profile === 'driving-traffic') {
+    annotations.push('maxspeed');
+  }
+  if (profile === 'driving-traffic') {
+    annotations.push('congestion');
+  }
+  return annotations.join(',');
+};
+
+/**
+ * Directions backed by the Mapbox Directions API
+ */
+export class MapboxDirectionsProvider implements DirectionsProvider {
+  public readonly name = 'mapbox';
+
+  public async getDirections(
+    origin: Coordinate,
+    destination: Coordinate,
+    request?: DirectionsRequest
+  ): Promise<MapboxDirectionsResponse> {
+    const profile = getMultiStopProfile(
+      getScheduledProfile(request?.profile || DEFAULT_ROUTING_PROFILE, request?.schedule),
+      request?.waypoints?.length ?? 0
+    );
+    const coordinates = [origin, ...(request?.waypoints || []), destination]
+      .map((coord) => `${coord[0]},${coord[1]}`)
+      .join(';');
+    let url = `https://api.mapbox.com/directions/v5/mapbox/${profile}/${coordinates}`;
+
+    const params = new URLSearchParams({
+      access_token: MAPBOX_ACCESS_TOKEN,
+      alternatives:
+        request?.alternatives !== undefined ? String(request.alternatives) : 'true',
+      geometries: 'geojson',
+      overview: 'full',
+      steps: 'true',
+      voice_instructions: 'true',
+      banner_instructions: 'true',
+      voice_units: 'metric',
+      language: request?.language || 'fr',
+      annotations: getAnnotations(profile),
+    });
+
+    // Walking and cycling are not time dependent, the schedule is ignored for them
+    if (request?.schedule && (profile === 'driving' || profile === 'driving-traffic')) {
+      params.append(request.schedule.mode, formatScheduleTime(request.schedule.time));
+    }
+
+    const excludes = [
+      ...getSupportedExcludes(request?.excludes || [], profile),
+      ...getExcludedPoints(request?.avoidPoints || [], profile),
+    ];
+    if (excludes.length > 0) {
+      params.append('exclude', excludes.join(','));
+    }
+
+    url += `?${params.toString()}`;
+
+    try {
+      const response = await axios.get<MapboxDirectionsResponse>(url);
+      return response.data;
+    } catch (error) {
+      console.error(
+        'Error fetching directions from Mapbox:',
+        axios.isAxiosError(error) && error.response ? error.response.data : (error as Error).message
+      );
+      throw error;
+    }
+  }
+
+  public getAppliedExcludes(excludes: string[], profile: RoutingProfile): string[] {
+    return getSupportedExcludes(excludes, profile);
+  }
+
+  public async getDurationMatrix(
+    coordinates: Coordinate[],
+    requestedProfile: RoutingProfile = DEFAULT_ROUTING_PROFILE
+  ): Promise<number[][]> {
+    if (coordinates.length > MAX_MATRIX_COORDINATES) {
+      throw new Error(`Cannot request a matrix of more than ${MAX_MATRIX_COORDINATES} coordinates`);
+    }
+
+    // Traffic falls back to plain driving above the traffic matrix limit
+    const profile =
+      requestedProfile === 'driving-traffic' && coordinates.length > MAX_TRAFFIC_MATRIX_COORDINATES
+        ? 'driving'
+        : requestedProfile;
+    const coordinatesParam = coordinates.map((coord) => `${coord[0]},${coord[1]}`).join(';');
+    const params = new URLSearchParams({
+      access_token: MAPBOX_ACCESS_TOKEN,
+      annotations: 'duration',
+    });
+    const url = `https://api.mapbox.com/directions-matrix/v1/mapbox/${profile}/${coordinatesParam}?${params.toString()}`;
+
+    try {
+      const response = await axios.get<MapboxMatrixResponse>(url);
+      return response.data.durations.map((row) =>
+        row.map((duration) => (duration === null ? Infinity : duration))
+      );
+    } catch (error) {
+      console.error('Error fetching duration matrix from Mapbox:', error);
+      throw error;
+    }
+  }
+
+  public async checkConnection(): Promise<boolean> {
+    try {
+      // Validating the token is the cheapest authenticated request
+      await axios.get(`https://api.mapbox.com/tokens/v2?access_token=${MAPBOX_ACCESS_TOKEN}`);
+      return true;
+    } catch (error) {
+      return false;
+    }
+  }
+}
@@ -0,0 +1,453 @@
+import axios from 'axios';
+import {
+  Intersection,
+  Leg,
+  ManeuverModifier,
+  MapboxDirectionsResponse,
+  Route,
+  Step,
+  VoiceInstruction,
+  Waypoint,
+} from '@/types/mapbox';
+import { RoutingProfile } from '@/types/api';
+import { Coordinate } from '@/hooks/routing/utils/types';
+import {
+  ANNOUNCEMENT_DISTANCES,
+  DEFAULT_NAVIGATION_LANGUAGE,
+  DEFAULT_ROUTING_PROFILE,
+  OSRM_EXCLUDE_COMBINATIONS,
+} from '@/hooks/routing/utils/constants';
+import { formatSpokenDistance } from '@/hooks/routing/utils/formatters';
+import { DirectionsProvider, DirectionsRequest } from './types';
+
+// Distance before a maneuver where it is announced a last time
+const FINAL_ANNOUNCEMENT_METERS = 50;
+
+// Steps longer than this get a "continue" announcement when they start
+const CONTINUE_ANNOUNCEMENT_METERS = 1000;
+
+// OSRM does not return time zones, waypoints are reported in UTC
+const UTC_TIME_ZONE = { abbreviation: 'UTC', identifier: 'UTC', offset: '+00:00' };
+
+// Response codes meaning that the request was valid but no route exists
+const NO_ROUTE_CODES = ['NoRoute', 'NoSegment'];
+
+const MODIFIER_LABELS: Record<ManeuverModifier, string> = {
+  uturn: 'faites demi-tour',
+  'sharp right': 'franchement à droite',
+  right: 'à droite',
+  'slight right': 'légèrement à droite',
+  straight: 'tout droit',
+  'slight left': 'légèrement à gauche',
+  left: 'à gauche',
+  'sharp left': 'franchement à gauche',
+};
+
+const CARDINAL_DIRECTIONS = [
+  'le nord',
+  'le nord-est',
+  "l'est",
+  'le sud-est',
+  'le sud',
+  'le sud-ouest',
+  "l'ouest",
+  'le nord-ouest',
+];
+
+interface OsrmManeuver {
+  location: GeoJSON.Position;
+  bearing_before: number;
+  bearing_after: number;
+  type: string;
+  modifier?: ManeuverModifier;
+  exit?: number;
+}
+
+interface OsrmStep {
+  geometry: GeoJSON.LineString;
+  maneuver: OsrmManeuver;
+  mode: string;
+  name: string;
+  ref?: string;
+  destinations?: string;
+  rotary_name?: string;
+  driving_side?: 'left' | 'right';
+  distance: number;
+  duration: number;
+  weight: number;
+  intersections?: Intersection[];
+  voiceInstructions?: VoiceInstruction[]; // Only returned by some OSRM builds
+}
+
+interface OsrmLeg {
+  steps: OsrmStep[];
+  summary: string;
+  distance: number;
+  duration: number;
+  weight: number;
+}
+
+interface OsrmRoute {
+  geometry: GeoJSON.LineString;
+  legs: OsrmLeg[];
+  distance: number;
+  duration: number;
+  weight: number;
+  weight_name: string;
+}
+
+interface OsrmWaypoint {
+  name: string;
+  location: GeoJSON.Position;
+  distance: number;
+}
+
+interface OsrmRouteResponse {
+  code: string;
+  message?: string;
+  routes?: OsrmRoute[];
+  waypoints?: OsrmWaypoint[];
+}
+
+interface OsrmTableResponse {
+  code: string;
+  message?: string;
+  durations: (number | null)[][];
+}
+
+/**
+ * OSRM profile name for an app profile.
+ * OSRM has no live traffic, driving-traffic falls back to driving.
+ */
+const getOsrmProfile = (profile: RoutingProfile): string =>
+  profile === 'driving-traffic' ? 'driving' : profile;
+
+/**
+ * Step mode in the app format, OSRM also reports modes such as ferry or pushing bike
+ */
+const getStepMode = (mode: string, profile: RoutingProfile): Step['mode'] => {
+  if (mode === 'driving' || mode === 'walking' || mode === 'cycling') return mode;
+  if (mode === 'pushing bike') return 'cycling';
+  return profile === 'walking' || profile === 'cycling' ? profile : 'driving';
+};
+
+/**
+ * Lowercase the first letter, so an instruction can follow a distance
+ */
+const lowerFirst = (text: string): string => text.charAt(0).toLowerCase() + text.slice(1);
+
+/**
+ * Build the written instruction of a step, OSRM only returns the maneuver type and modifier
+ */
+const buildInstruction = (step: OsrmStep, isLastLeg: boolean, legIndex: number): string => {
+  const { type, modifier, exit, bearing_after } = step.maneuver;
+  const road = step.name || step.ref;
+  const onto = road ? ` sur ${road}` : '';
+  const direction = modifier ? MODIFIER_LABELS[modifier] : '';
+
+  switch (type) {
+    case 'depart': {
+      const cardinal = CARDINAL_DIRECTIONS[Math.round(bearing_after / 45) % 8];
+      return `Dirigez-vous vers ${cardinal}${onto}`;
+    }
+    case 'arrive':
+      return isLastLeg
+        ? 'Vous êtes arrivé à destination'
+        : `Vous êtes arrivé à l'étape ${legIndex + 1}`;
+    case 'turn':
+    case 'end of road':
+      if (modifier === 'uturn') return `Faites demi-tour${onto}`;
+      if (modifier === 'straight') return `Continuez tout droit${onto}`;
+      return `Tournez ${direction}${onto}`;
+    case 'merge':
+      return `Insérez-vous${direction ? ` ${direction}` : ''}${onto}`;
+    case 'on ramp':
+      return `Prenez la bretelle${direction ? ` ${direction}` : ''}${
+        step.destinations ? ` vers ${step.destinations}` : onto
+      }`;
+    case 'off ramp':
+      return `Prenez la sortie${direction ? ` ${direction}` : ''}${
+        step.destinations ? ` vers ${step.destinations}` : onto
+      }`;
+    case 'fork':
+      return `À l'embranchement, restez ${direction || 'tout droit'}${onto}`;
+    case 'roundabout':
+    case 'rotary': {
+      const place = step.rotary_name ? `Au rond-point ${step.rotary_name}` : 'Au rond-point';
+      if (!exit) return `${place}, continuez${onto}`;
+      return `${place}, prenez la ${exit === 1 ? '1re' : `${exit}e`} sortie${onto}`;
+    }
+    case 'roundabout turn':
+      return `Au rond-point, tournez ${direction || 'tout droit'}${onto}`;
+    case 'exit roundabout':
+    case 'exit rotary':
+      return `Sortez du rond-point${onto}`;
+    default:
+      // continue, new name, notification and future types
+      if (modifier === 'uturn') return `Faites demi-tour${onto}`;
+      if (modifier && modifier !== 'straight') return `Continuez ${direction}${onto}`;
+      return `Continuez${onto}`;
+  }
+};
+
+/**
+ * Synthesize the voice instructions spoken while travelling a step.
+ * They announce the next maneuver, at distances counted back from the end of the step
+ * like the Mapbox distanceAlongGeometry.
+ */
+const buildVoiceInstructions = (
+  step: Step,
+  nextStep: Step | undefined,
+  isFirstStep: boolean,
+  isLastLeg: boolean
+): VoiceInstruction[] => {
+  const announcements: { distance: number; text: string }[] = [];
+
+  if (isFirstStep) {
+    announcements.push({ distance: step.distance, text: step.maneuver.instruction });
+  } else if (step.distance > CONTINUE_ANNOUNCEMENT_METERS) {
+    announcements.push({
+      distance: step.distance,
+      text: `Continuez sur ${formatSpokenDistance(step.distance)}`,
+    });
+  }
+
+  if (nextStep) {
+    // The arrival instruction is worded for when the user is already there
+    const nextInstruction =
+      nextStep.maneuver.type === 'arrive'
+        ? isLastLeg
+          ? 'Vous arrivez à destination'
+          : "Vous arrivez à l'étape"
+        : nextStep.maneuver.instruction;
+    for (const distance of ANNOUNCEMENT_DISTANCES) {
+      // Only announce ahead when the step leaves room for it
+      if (step.distance > distance + FINAL_ANNOUNCEMENT_METERS) {
+        announcements.push({
+          distance,
+          text: `Dans ${formatSpokenDistance(distance)}, ${lowerFirst(nextInstruction)}`,
+        });
+      }
+    }
+    announcements.push({
+      distance: Math.min(step.distance, FINAL_ANNOUNCEMENT_METERS),
+      text: nextInstruction,
+    });
+  }
+
+  // Keep one announcement per distance, in travel order
+  return announcements
+    .sort((a, b) => b.distance - a.distance)
+    .filter((announcement, index, sorted) => {
+      return index === 0 || sorted[index - 1].distance > announcement.distance;
+    })
+    .map((announcement) => ({
+      distanceAlongGeometry: announcement.distance,
+      announcement: announcement.text,
+      ssmlAnnouncement: `<speak>${announcement.text}</speak>`,
+    }));
+};
+
+/**
+ * Convert an OSRM leg, filling the instructions OSRM does not provide
+ */
+const mapLeg = (
+  leg: OsrmLeg,
+  profile: RoutingProfile,
+  isLastLeg: boolean,
+  legIndex: number
+): Leg => {
+  const steps: Step[] = leg.steps.map((step) => ({
+    geometry: step.geometry,
+    mode: getStepMode(step.mode, profile),
+    name: step.name,
+    ref: step.ref,
+    driving_side: step.driving_side,
+    distance: step.distance,
+    duration: step.duration,
+    weight: step.weight,
+    intersections: step.intersections,
+    maneuver: {
+      location: step.maneuver.location,
+      bearing_before: step.maneuver.bearing_before,
+      bearing_after: step.maneuver.bearing_after,
+      type: step.maneuver.type,
+      modifier: step.maneuver.modifier,
+      exit: step.maneuver.exit,
+      instruction: buildInstruction(step, isLastLeg, legIndex),
+    },
+  }));
+
+  steps.forEach((step, index) => {
+    const serverInstructions = leg.steps[index].voiceInstructions;
+    step.voiceInstructions =
+      serverInstructions && serverInstructions.length > 0
+        ? serverInstructions
+        : buildVoiceInstructions(step, steps[index + 1], index === 0, isLastLeg);
+  });
+
+  return {
+    via_waypoints: [],
+    admins: [],
+    weight_typical: leg.weight,
+    duration_typical: leg.duration, // No traffic model, typical equals estimated
+    weight: leg.weight,
+    duration: leg.duration,
+    distance: leg.distance,
+    summary: leg.summary,
+    steps,
+  };
+};
+
+/**
+ * Directions backed by a self-hosted server exposing the OSRM HTTP API
+ */
+export class OsrmDirectionsProvider implements DirectionsProvider {
+  public readonly name = 'osrm';
+  private baseUrl: string;
+  private excludeCombinations: Record<string, string[][]>;
+
+  /**
+   * @param baseUrl Server root, e.g. http://localhost:5000
+   * @param excludeCombinations Exclude combinations each server profile defines, the stock ones by default
+   */
+  constructor(
+    baseUrl: string,
+    excludeCombinations: Record<string, string[][]> = OSRM_EXCLUDE_COMBINATIONS
+  ) {
+    this.baseUrl = baseUrl.replace(/\/+$/, '');
+    this.excludeCombinations = excludeCombinations;
+  }
+
+  /**
+   * Largest combination the server profile defines among the requested classes.
+   * Any other combination makes OSRM reject the whole request.
+   */
+  public getAppliedExcludes(excludes: string[], profile: RoutingProfile): string[] {
+    const combinations = this.excludeCombinations[getOsrmProfile(profile)] || [];
+    let applied: string[] = [];
+    for (const combination of combinations) {
+      if (
+        combination.length > applied.length &&
+        combination.every((exclude) => excludes.includes(exclude))
+      ) {
+        applied = combination;
+      }
+    }
+    return [...applied];
+  }
+
+  public async getDirections(
+    origin: Coordinate,
+    destination: Coordinate,
+    request?: DirectionsRequest
+  ): Promise<MapboxDirectionsResponse> {
+    const profile = request?.profile || DEFAULT_ROUTING_PROFILE;
+    const coordinates = [origin, ...(request?.waypoints || []), destination]
+      .map((coord) => `${coord[0]},${coord[1]}`)
+      .join(';');
+
+    const params = new URLSearchParams({
+      alternatives:
+        request?.alternatives !== undefined ? String(request.alternatives) : 'true',
+      geometries: 'geojson',
+      overview: 'full',
+      steps: 'true',
+    });
+    const excludes = this.getAppliedExcludes(request?.excludes || [], profile);
+    if (excludes.length > 0) {
+      params.append('exclude', excludes.join(','));
+    }
+    if (excludes.length < (request?.excludes?.length ?? 0)) {
+      console.warn(
+        'OSRM profile does not define these excludes, ignoring them:',
+        request?.excludes?.filter((exclude) => !excludes.includes(exclude))
+      );
+    }
+    // OSRM has no traffic model, schedules do not change the route,
+    // and it cannot exclude points, avoidPoints are ignored
+    const url = `${this.baseUrl}/route/v1/${getOsrmProfile(profile)}/${coordinates}?${params.toString()}`;
+
+    let data: OsrmRouteResponse;
+    try {
+      const response = await axios.get<OsrmRouteResponse>(url);
+      data = response.data;
+    } catch (error) {
+      const errorData = axios.isAxiosError(error) ? error.response?.data : undefined;
+      // OSRM answers 400 when no route exists, Mapbox answers with an empty route list
+      if (errorData && NO_ROUTE_CODES.includes(errorData.code)) {
+        data = errorData;
+      } else {
+        console.error(
+          'Error fetching directions from OSRM:',
+          errorData || (error as Error).message
+        );
+        throw error;
+      }
+    }
+
+    const routes = (data.routes || []).map(
+      (route, index): Route => ({
+        weight_typical: route.weight,
+        duration_typical: route.duration,
+        is_prefered: index === 0,
+        weight_name: route.weight_name,
+        weight: route.weight,
+        duration: route.duration,
+        distance: route.distance,
+        legs: route.legs.map((leg, legIndex) =>
+          mapLeg(leg, profile, legIndex === route.legs.length - 1, legIndex)
+        ),
+        geometry: route.geometry,
+        voiceLocale: DEFAULT_NAVIGATION_LANGUAGE,
+      })
+    );
+
+    return {
+      code: data.code,
+      uuid: '',
+      routes,
+      waypoints: (data.waypoints || []).map(
+        (waypoint): Waypoint => ({
+          name: waypoint.name,
+          location: waypoint.location,
+          distance: waypoint.distance,
+          time_zone: UTC_TIME_ZONE,
+        })
+      ),
+    };
+  }
+
+  public async getDurationMatrix(
+    coordinates: Coordinate[],
+    profile: RoutingProfile = DEFAULT_ROUTING_PROFILE
+  ): Promise<number[][]> {
+    const coordinatesParam = coordinates.map((coord) => `${coord[0]},${coord[1]}`).join(';');
+    const url = `${this.baseUrl}/table/v1/${getOsrmProfile(profile)}/${coordinatesParam}?annotations=duration`;
+
+    try {
+      const response = await axios.get<OsrmTableResponse>(url);
+      return response.data.durations.map((row) =>
+        row.map((duration) => (duration === null ? Infinity : duration))
+      );
+    } catch (error) {
+      console.error(
+        'Error fetching duration matrix from OSRM:',
+        axios.isAxiosError(error) && error.response ? error.response.data : (error as Error).message
+      );
+      throw error;
+    }
+  }
+
+  public async checkConnection(): Promise<boolean> {
+    try {
+      // Any answer, even an error code, means the server is up
+      await axios.get(`${this.baseUrl}/nearest/v1/driving/0,0`, {
+        validateStatus: () => true,
+      });
+      return true;
+    } catch (error) {
+      return false;
+    }
+  }
+}
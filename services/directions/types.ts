@@ -0,0 +1,55 @@
+import { MapboxDirectionsResponse } from '@/types/mapbox';
+import { RoutingProfile } from '@/types/api';
+import { Coordinate, RouteRequestOptions } from '@/hooks/routing/utils/types';
+
+/**
+ * Options of a single directions request
+ */
+export interface DirectionsRequest extends RouteRequestOptions {
+  alternatives?: boolean;
+  language?: string;
+}
+
+/**
+ * Routing backend returning routes in the Mapbox Directions response format,
+ * which is the format the routing hooks and UI work with
+ */
+export interface DirectionsProvider {
+  readonly name: string;
+
+  /**
+   * Get routes between two points, through the request waypoints if any
+   *
+   * @param origin Starting coordinates [longitude, latitude]
+   * @param destination Ending coordinates [longitude, latitude]
+   * @param request Excludes, waypoints, profile, schedule and response options
+   */
+  getDirections(
+    origin: Coordinate,
+    destination: Coordinate,
+    request?: DirectionsRequest
+  ): Promise<MapboxDirectionsResponse>;
+
+  /**
+   * Exclusion classes of a request the backend can apply, the others are ignored
+   *
+   * @param excludes Requested exclusion classes, e.g. ['toll', 'tunnel']
+   * @param profile Routing profile of the request
+   */
+  getAppliedExcludes(excludes: string[], profile: RoutingProfile): string[];
+
+  /**
+   * Get the travel time between every pair of coordinates.
+   * Backends without a matrix service leave it undefined.
+   *
+   * @param coordinates Coordinates [longitude, latitude]
+   * @param profile Routing profile, defaults to the app default profile
+   * @returns durations[i][j] in seconds from coordinate i to j, Infinity where no route exists
+   */
+  getDurationMatrix?(coordinates: Coordinate[], profile?: RoutingProfile): Promise<number[][]>;
+
+  /**
+   * Check if the backend is reachable
+   */
+  checkConnection(): Promise<boolean>;
+}
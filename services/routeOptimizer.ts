@@ -0,0 +1,221 @@
+import { RoutingProfile } from '@/types/api';
+import {
+  DirectionsProvider,
+  getDirectionsProvider,
+} from '@/services/directions';
+
+// Above this many movable stops, permutations are replaced by a heuristic
+const MAX_EXHAUSTIVE_STOPS = 7;
+
+/**
+ * Result of a stop-order optimization
+ */
+export interface StopOrderOptimization {
+  order: number[]; // Indexes into the input stops, in the suggested visiting order
+  totalDuration: number; // Seconds, for the suggested order
+  originalDuration: number; // Seconds, for the order the stops were given in
+}
+
+/**
+ * Options for a stop-order optimization
+ */
+export interface StopOrderOptions {
+  end?: [number, number]; // Fixed final destination, the trip ends at the last stop otherwise
+  lockedIndices?: number[]; // Stops that must keep their current position
+  profile?: RoutingProfile; // Defaults to driving with live traffic
+  directionsProvider?: DirectionsProvider; // Defaults to the configured provider
+}
+
+/**
+ * Service reordering the stops of a multi-destination trip for the shortest total duration
+ */
+class RouteOptimizer {
+  /**
+   * Check if the provider can compute the travel-time matrix optimization needs
+   *
+   * @param provider Routing backend, the configured one by default
+   */
+  public isSupported(
+    provider: DirectionsProvider = getDirectionsProvider()
+  ): boolean {
+    return typeof provider.getDurationMatrix === 'function';
+  }
+
+  /**
+   * Find the stop order with the shortest total duration
+   *
+   * @param start Fixed starting point [longitude, latitude]
+   * @param stops Stops to visit
+   * @param options Optional fixed end, locked stops, profile and routing backend
+   * @returns The suggested order and its duration compared to the current one
+   */
+  public async optimizeStopOrder(
+    start: [number, number],
+    stops: [number, number][],
+    options?: StopOrderOptions
+  ): Promise<StopOrderOptimization> {
+    const identity = stops.map((_, index) => index);
+    if (stops.length < 2) {
+      return { order: identity, totalDuration: 0, originalDuration: 0 };
+    }
+
+    // Matrix indexes: 0 = start, 1..n = stops, n + 1 = fixed end (if any)
+    const coordinates = [start, ...stops, ...(options?.end ? [options.end] : [])];
+    const provider = options?.directionsProvider || getDirectionsProvider();
+    if (!provider.getDurationMatrix) {
+      throw new Error(
+        `The ${provider.name} directions backend cannot compute a duration matrix`
+      );
+    }
+    const matrix = await provider.getDurationMatrix(
+      coordinates,
+      options?.profile
+    );
+    const endIndex = options?.end ? stops.length + 1 : null;
+
+    const originalDuration = this.getOrderDuration(identity, matrix, endIndex);
+    const locked = new Set(options?.lockedIndices || []);
+    const order = this.solveOrder(stops.length, matrix, endIndex, locked);
+    const totalDuration = this.getOrderDuration(order, matrix, endIndex);
+
+    // Never suggest something worse than what the user already has
+    if (totalDuration >= originalDuration) {
+      return { order: identity, totalDuration: originalDuration, originalDuration };
+    }
+    return { order, totalDuration, originalDuration };
+  }
+
+  /**
+   * Total duration of visiting the stops in the given order
+   */
+  private getOrderDuration(
+    order: number[],
+    matrix: number[][],
+    endIndex: number | null
+  ): number {
+    let total = 0;
+    let previous = 0;
+    for (const stopIndex of order) {
+      total += matrix[previous][stopIndex + 1];
+      previous = stopIndex + 1;
+    }
+    if (endIndex !== null) {
+      total += matrix[previous][endIndex];
+    }
+    return total;
+  }
+
+  /**
+   * Order the movable stops between the locked ones
+   */
+  private solveOrder(
+    stopCount: number,
+    matrix: number[][],
+    endIndex: number | null,
+    locked: Set<number>
+  ): number[] {
+    const movableSlots: number[] = [];
+    const movableStops: number[] = [];
+    for (let i = 0; i < stopCount; i++) {
+      if (!locked.has(i)) {
+        movableSlots.push(i);
+        movableStops.push(i);
+      }
+    }
+
+    // Locked stops stay in their slot, movable stops fill the remaining slots
+    const buildOrder = (arrangement: number[]): number[] => {
+      const order = Array.from({ length: stopCount }, (_, i) => i);
+      movableSlots.forEach((slot, i) => {
+        order[slot] = arrangement[i];
+      });
+      return order;
+    };
+    const durationOf = (arrangement: number[]) =>
+      this.getOrderDuration(buildOrder(arrangement), matrix, endIndex);
+
+    if (movableStops.length <= 1) {
+      return buildOrder(movableStops);
+    }
+
+    if (movableStops.length <= MAX_EXHAUSTIVE_STOPS) {
+      let best = movableStops;
+      let bestDuration = durationOf(best);
+      this.forEachPermutation(movableStops, (arrangement) => {
+        const duration = durationOf(arrangement);
+        if (duration < bestDuration) {
+          best = [...arrangement];
+          bestDuration = duration;
+        }
+      });
+      return buildOrder(best);
+    }
+
+    return buildOrder(this.improveWithTwoOpt(movableStops, durationOf));
+  }
+
+  /**
+   * Call the visitor with every permutation of the items (Heap's algorithm)
+   */
+  private forEachPermutation(
+    items: number[],
+    visit: (permutation: number[]) => void
+  ): void {
+    const permutation = [...items];
+    const counters = new Array(permutation.length).fill(0);
+    visit(permutation);
+
+    let i = 0;
+    while (i < permutation.length) {
+      if (counters[i] < i) {
+        const swapWith = i % 2 === 0 ? 0 : counters[i];
+        [permutation[swapWith], permutation[i]] = [
+          permutation[i],
+          permutation[swapWith],
+        ];
+        visit(permutation);
+        counters[i]++;
+        i = 0;
+      } else {
+        counters[i] = 0;
+        i++;
+      }
+    }
+  }
+
+  /**
+   * Reverse sub-sequences of the arrangement as long as it shortens the trip
+   */
+  private improveWithTwoOpt(
+    arrangement: number[],
+    durationOf: (arrangement: number[]) => number
+  ): number[] {
+    let best = [...arrangement];
+    let bestDuration = durationOf(best);
+    let improved = true;
+
+    while (improved) {
+      improved = false;
+      for (let i = 0; i < best.length - 1; i++) {
+        for (let j = i + 1; j < best.length; j++) {
+          const candidate = [
+            ...best.slice(0, i),
+            ...best.slice(i, j + 1).reverse(),
+            ...best.slice(j + 1),
+          ];
+          const duration = durationOf(candidate);
+          if (duration < bestDuration) {
+            best = candidate;
+            bestDuration = duration;
+            improved = true;
+          }
+        }
+      }
+    }
+    return best;
+  }
+}
+
+// Create a singleton instance
+const routeOptimizer = new RouteOptimizer();
+export default routeOptimizer;
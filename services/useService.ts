@@ -23,6 +23,11 @@ export const api = axios.create({
 api.interceptors.response.use(
   (response) => response,
   (error) => {
+    // Requests cancelled on purpose are not errors
+    if (axios.isCancel(error)) {
+      return Promise.reject(error);
+    }
+
     // Handle specific error codes
     if (error.response) {
       // The request was made and the server responded with a status code
@@ -134,13 +139,18 @@ export interface PinQuery {
 export const fetchNearbyPins = async (
   longitude: number,
   latitude: number,
-  radiusKm: number = 10
+  radiusKm: number = 10,
+  signal?: AbortSignal
 ): Promise<ApiResponse<PinRead[]>> => {
-  return api.post("/pins/nearby", {
-    longitude,
-    latitude,
-    radius_km: radiusKm,
-  } as PinQuery);
+  return api.post(
+    "/pins/nearby",
+    {
+      longitude,
+      latitude,
+      radius_km: radiusKm,
+    } as PinQuery,
+    { signal }
+  );
 };
 
 // Create a new pin
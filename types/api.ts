@@ -13,6 +13,21 @@ export enum PreferredLanguageEnum {
   FRENCH = 'fr',
 }
 
+// Directions profile used to compute itineraries
+export type RoutingProfile = 'driving' | 'driving-traffic' | 'walking' | 'cycling';
+
+/**
+ * Zone drawn by the user on the map that routes must stay out of.
+ */
+export interface AvoidArea {
+  id: string;
+  name: string;
+  enabled: boolean; // Applied to every trip unless toggled off for one
+  shape: 'circle' | 'polygon';
+  coordinates: [number, number][]; // Circle: its center only. Polygon: its vertices, not closed
+  radius?: number; // Circle radius in meters
+}
+
 /**
  * Optional user preferences stored in their profile.
  */
@@ -21,6 +36,14 @@ export interface UserPreferences {
   avoid_tolls?: boolean;
   avoid_highways?: boolean;
   avoid_unpaved?: boolean;
+  avoid_ferries?: boolean;
+  avoid_cash_only_tolls?: boolean; // Toll roads that do not take cards
+  avoid_country_borders?: boolean;
+  avoid_tunnels?: boolean; // Only applied by routing backends that define a tunnel class
+  routing_profile?: RoutingProfile;
+  speed_alert_voice?: boolean; // Spoken warning when exceeding the speed limit
+  avoid_reported_accidents?: boolean; // Route around accidents and roadworks reported on the route
+  avoid_areas?: AvoidArea[];
 }
 
 /**
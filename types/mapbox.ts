@@ -57,8 +57,37 @@ export interface Leg {
   steps: Step[];
   distance: number;
   summary: string;
+  annotation?: LegAnnotation;
 }
 
+/**
+ * Values for each segment of a leg geometry, in order.
+ * Congestion is only returned by the driving-traffic profile.
+ */
+export interface LegAnnotation {
+  congestion?: CongestionLevel[];
+  speed?: number[];
+  duration?: number[];
+  distance?: number[];
+  maxspeed?: MaxSpeed[]; // Only returned by the driving profiles
+}
+
+/**
+ * Posted speed limit of a segment, unknown when no data is available
+ * and none when the road has no limit
+ */
+export interface MaxSpeed {
+  speed?: number;
+  unit?: "km/h" | "mph";
+  unknown?: boolean;
+  none?: boolean;
+}
+
+/**
+ * Traffic congestion on a geometry segment.
+ */
+export type CongestionLevel = "unknown" | "low" | "moderate" | "heavy" | "severe";
+
 /**
  * Administrative region crossed by a leg (e.g. country or state codes).
  */
@@ -74,7 +103,7 @@ export interface Step {
   intersections?: Intersection[];
   driving_side?: "left" | "right";
   geometry: GeoJSON.LineString;
-  mode: "driving" | "walking" | "cycling";
+  mode: "driving" | "walking" | "cycling" | "ferry";
   maneuver: Maneuver;
   ref?: string;
   weight: number;
@@ -100,8 +129,25 @@ export interface Intersection {
   entry: boolean[];
   bearings: number[];
   location: GeoJSON.Position;
+  classes?: string[]; // Road classes from here to the next intersection (toll, motorway, ferry...)
+  mapbox_streets_v8?: { class: string }; // Road type, e.g. motorway, primary, track
+  toll_collection?: { type: "toll_booth" | "toll_gantry"; name?: string };
+  admin_index?: number; // Index in the leg admins of the country the intersection is in
 }
 
+/**
+ * Direction of a maneuver relative to the current heading.
+ */
+export type ManeuverModifier =
+  | "uturn"
+  | "sharp right"
+  | "right"
+  | "slight right"
+  | "straight"
+  | "slight left"
+  | "left"
+  | "sharp left";
+
 /**
  * Describes a navigation maneuver at a given point (e.g. turn, merge, etc.).
  */
@@ -109,11 +155,34 @@ export interface Maneuver {
   bearing_after: number;
   bearing_before: number;
   location: GeoJSON.Position;
-  modifier?: "left" | "right" | "straight" | "uturn";
-  type: string;
+  modifier?: ManeuverModifier;
+  type: ManeuverType | string; // Unknown types should be handled like "turn"
+  exit?: number; // Roundabout exit to take
   instruction: string;
 }
 
+/**
+ * Kinds of maneuvers returned by the Directions API.
+ */
+export type ManeuverType =
+  | "turn"
+  | "new name"
+  | "depart"
+  | "arrive"
+  | "merge"
+  | "on ramp"
+  | "off ramp"
+  | "fork"
+  | "end of road"
+  | "continue"
+  | "roundabout"
+  | "rotary"
+  | "roundabout turn"
+  | "exit roundabout"
+  | "exit rotary"
+  | "notification"
+  | "use lane";
+
 /**
  * Voice instructions to be read during navigation.
  */
@@ -125,6 +194,7 @@ export interface VoiceInstruction {
 
 /**
  * Visual instruction to be shown on screen (e.g. banners).
+ * distanceAlongGeometry is the distance before the end of the step from which it applies.
  */
 export interface BannerInstruction {
   distanceAlongGeometry: number;
@@ -138,9 +208,21 @@ export interface BannerInstruction {
  */
 export interface BannerText {
   text: string;
-  components: { text: string }[];
+  components: BannerComponent[];
   type: string;
-  modifier?: "left" | "right" | "straight" | "uturn";
+  modifier?: ManeuverModifier;
+}
+
+/**
+ * Part of a banner text. Lane components describe one lane of the road each.
+ */
+export interface BannerComponent {
+  text: string;
+  type?: string; // e.g. "text", "icon", "exit-number", "lane"
+  abbr?: string;
+  directions?: ManeuverModifier[]; // Lane: directions the lane allows
+  active?: boolean; // Lane: the lane can be used for the upcoming maneuver
+  active_direction?: ManeuverModifier; // Lane: direction to follow from this lane
 }
 
 /**
@@ -150,6 +232,15 @@ export interface RouteFeatures {
   hasHighways: boolean;
   hasTolls: boolean;
   hasUnpavedRoads: boolean;
+  hasFerries: boolean;
+  hasTunnels: boolean;
+  crossesBorder: boolean;
+  highwayDistance: number; // meters
+  tollDistance: number; // meters
+  unpavedDistance: number; // meters
+  ferryDistance: number; // meters
+  tunnelDistance: number; // meters
+  viaLabel: string | null; // e.g. "via A7"
   estimatedTime: string; // formatted time string
   distance: string;      // formatted distance string
   trafficLevel: "low" | "moderate" | "heavy" | "severe" | "unknown";
@@ -161,3 +252,15 @@ export interface RouteFeatures {
 export interface CongestionAnnotation {
   congestion: string[]; // e.g. ["moderate", "low", "heavy"]
 }
+
+/**
+ * Response returned by the Mapbox Matrix API.
+ * durations[i][j] is the travel time in seconds from coordinate i to coordinate j,
+ * or null when no route exists between them.
+ */
+export interface MapboxMatrixResponse {
+  code: string;
+  durations: (number | null)[][];
+  sources: Waypoint[];
+  destinations: Waypoint[];
+}
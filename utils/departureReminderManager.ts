@@ -0,0 +1,323 @@
+import * as Notifications from 'expo-notifications';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { Platform } from 'react-native';
+import { EventEmitter } from 'events';
+import { RoutingProfile } from '@/types/api';
+import { fetchRoute } from '@/hooks/routing/utils/mapboxApi';
+import { formatClockTime } from '@/hooks/routing/utils/formatters';
+import locationTracker from './locationTracker';
+
+const STORAGE_KEY = 'scheduledTrips';
+const NOTIFICATION_CHANNEL_ID = 'departure-reminders';
+
+// Extra time left before the estimated departure
+const DEPARTURE_MARGIN_MS = 5 * 60 * 1000;
+// Below this delay before departure, estimates use live traffic instead of typical traffic
+const LIVE_TRAFFIC_WINDOW_MS = 2 * 60 * 60 * 1000;
+// Reschedule the reminder only when the departure moved by more than this
+const RESCHEDULE_THRESHOLD_MS = 60 * 1000;
+
+/**
+ * Trip saved by the user with a required arrival time
+ */
+export interface ScheduledTrip {
+  id: string;
+  origin: [number, number]; // Used when no fresher location is known
+  destination: [number, number];
+  destinationName?: string;
+  excludes?: string[];
+  profile?: RoutingProfile;
+  arriveBy: number; // Timestamp in ms
+  departureTime: number | null; // Last estimated departure, timestamp in ms
+  notificationId: string | null;
+}
+
+type ReminderEvents = {
+  'tripsChanged': (trips: ScheduledTrip[]) => void;
+  'tripOpened': (trip: ScheduledTrip) => void;
+};
+
+/**
+ * Class to schedule local notifications telling the user when to leave for a saved trip.
+ * Estimates are refreshed while the app is running, with live traffic as departure approaches.
+ */
+class DepartureReminderManager extends EventEmitter {
+  private initialized: boolean = false;
+  private trips: ScheduledTrip[] = [];
+  private responseSubscription: Notifications.Subscription | null = null;
+  // Tail of the trip updates, run one at a time
+  private pendingUpdate: Promise<unknown> = Promise.resolve();
+  private queuedRefresh: Promise<void> | null = null;
+  // A tap that launched the app is also delivered to the response listener
+  private lastResponseId: string | null = null;
+
+  /**
+   * Load saved trips, set up notifications and listen for taps on reminders
+   */
+  public async initialize(): Promise<void> {
+    if (this.initialized) return;
+    this.initialized = true;
+
+    Notifications.setNotificationHandler({
+      handleNotification: async () => ({
+        shouldShowAlert: true,
+        shouldPlaySound: true,
+        shouldSetBadge: false,
+      }),
+    });
+
+    if (Platform.OS === 'android') {
+      await Notifications.setNotificationChannelAsync(NOTIFICATION_CHANNEL_ID, {
+        name: 'Rappels de départ',
+        importance: Notifications.AndroidImportance.HIGH,
+      });
+    }
+
+    try {
+      const stored = await AsyncStorage.getItem(STORAGE_KEY);
+      this.trips = stored ? JSON.parse(stored) : [];
+    } catch (error) {
+      console.error('Failed to load scheduled trips:', error);
+      this.trips = [];
+    }
+
+    this.responseSubscription = Notifications.addNotificationResponseReceivedListener(
+      (response) => this.handleNotificationResponse(response)
+    );
+
+    // The app may have been launched by tapping a reminder
+    const lastResponse = await Notifications.getLastNotificationResponseAsync();
+    if (lastResponse) {
+      await Notifications.clearLastNotificationResponseAsync();
+      this.handleNotificationResponse(lastResponse);
+    }
+
+    await this.refreshTrips();
+  }
+
+  /**
+   * Save a trip and schedule its departure reminder
+   * @returns The saved trip, with its estimated departure
+   */
+  public async addTrip(
+    trip: Omit<ScheduledTrip, 'id' | 'departureTime' | 'notificationId'>
+  ): Promise<ScheduledTrip> {
+    const { status } = await Notifications.requestPermissionsAsync();
+    if (status !== 'granted') {
+      throw new Error('Notification permission not granted');
+    }
+
+    return this.runExclusive(async () => {
+      const newTrip: ScheduledTrip = {
+        ...trip,
+        id: `${Date.now()}`,
+        departureTime: null,
+        notificationId: null,
+      };
+      this.trips = [...this.trips, newTrip];
+      const updatedTrip = await this.updateTripReminder(newTrip);
+      await this.saveTrips();
+      return updatedTrip;
+    });
+  }
+
+  /**
+   * Delete a trip and cancel its reminder
+   */
+  public removeTrip(id: string): Promise<void> {
+    return this.runExclusive(async () => {
+      const trip = this.trips.find((t) => t.id === id);
+      if (trip?.notificationId) {
+        await Notifications.cancelScheduledNotificationAsync(trip.notificationId);
+      }
+      this.trips = this.trips.filter((t) => t.id !== id);
+      await this.saveTrips();
+    });
+  }
+
+  /**
+   * Get the saved trips, soonest first
+   */
+  public getTrips(): ScheduledTrip[] {
+    return [...this.trips].sort((a, b) => a.arriveBy - b.arriveBy);
+  }
+
+  /**
+   * Drop past trips and recompute the departure of the upcoming ones.
+   * Calls made while a refresh is waiting to run share it.
+   */
+  public refreshTrips(): Promise<void> {
+    if (!this.queuedRefresh) {
+      this.queuedRefresh = this.runExclusive(() => {
+        this.queuedRefresh = null;
+        return this.updateTrips();
+      });
+    }
+    return this.queuedRefresh;
+  }
+
+  private async updateTrips(): Promise<void> {
+    const now = Date.now();
+    const pastTrips = this.trips.filter((trip) => trip.arriveBy <= now);
+    for (const trip of pastTrips) {
+      if (trip.notificationId) {
+        await Notifications.cancelScheduledNotificationAsync(trip.notificationId);
+      }
+    }
+    this.trips = this.trips.filter((trip) => trip.arriveBy > now);
+
+    for (const trip of this.trips) {
+      // Far from departure the estimate relies on typical traffic and barely changes
+      if (trip.departureTime !== null && trip.departureTime - now > LIVE_TRAFFIC_WINDOW_MS) {
+        continue;
+      }
+      try {
+        await this.updateTripReminder(trip);
+      } catch (error) {
+        console.warn(`Failed to refresh departure for trip ${trip.id}:`, error);
+      }
+    }
+    await this.saveTrips();
+  }
+
+  /**
+   * Estimate when to leave for a trip
+   * @returns Departure timestamp in ms
+   */
+  private async estimateDeparture(trip: ScheduledTrip): Promise<number> {
+    const origin = (await locationTracker.getLastKnownLocation()) || trip.origin;
+    const arriveBy = new Date(trip.arriveBy);
+    const previousEstimate = trip.departureTime ?? trip.arriveBy;
+    const useLiveTraffic = previousEstimate - Date.now() <= LIVE_TRAFFIC_WINDOW_MS;
+
+    const response = await fetchRoute(origin, trip.destination, {
+      excludes: trip.excludes,
+      profile: trip.profile,
+      alternatives: false,
+      // Close to departure, the current traffic is a better estimate than the usual one
+      schedule: useLiveTraffic ? null : { mode: 'arrive_by', time: arriveBy },
+    });
+    if (response.routes.length === 0) {
+      throw new Error('No route found for scheduled trip');
+    }
+
+    return trip.arriveBy - response.routes[0].duration * 1000 - DEPARTURE_MARGIN_MS;
+  }
+
+  /**
+   * Recompute a trip's departure and (re)schedule its notification if it moved
+   */
+  private async updateTripReminder(trip: ScheduledTrip): Promise<ScheduledTrip> {
+    // The reminder has already been delivered
+    if (trip.notificationId && trip.departureTime !== null && trip.departureTime <= Date.now()) {
+      return trip;
+    }
+
+    const departureTime = await this.estimateDeparture(trip);
+    const unchanged =
+      trip.notificationId !== null &&
+      trip.departureTime !== null &&
+      Math.abs(trip.departureTime - departureTime) < RESCHEDULE_THRESHOLD_MS;
+    if (unchanged) return trip;
+
+    if (trip.notificationId) {
+      await Notifications.cancelScheduledNotificationAsync(trip.notificationId);
+    }
+
+    const destinationLabel = trip.destinationName ? ` à ${trip.destinationName}` : '';
+    const arrivalLabel = formatClockTime(new Date(trip.arriveBy));
+    const notificationId = await Notifications.scheduleNotificationAsync({
+      content: {
+        title: 'Il est temps de partir',
+        body: `Partez maintenant pour arriver${destinationLabel} à ${arrivalLabel}.`,
+        data: { tripId: trip.id },
+      },
+      // Leave immediately if the departure time is already past
+      trigger:
+        departureTime > Date.now()
+          ? {
+              type: Notifications.SchedulableTriggerInputTypes.DATE,
+              date: new Date(departureTime),
+              channelId: NOTIFICATION_CHANNEL_ID,
+            }
+          : null,
+    });
+
+    // Saved right away, so the new reminder can still be cancelled if the app stops
+    const updatedTrip = { ...trip, departureTime, notificationId };
+    this.trips = this.trips.map((t) => (t.id === trip.id ? updatedTrip : t));
+    await this.saveTrips();
+    return updatedTrip;
+  }
+
+  /**
+   * Run a change to the trips once the previous ones are done: overlapping
+   * refreshes would schedule a reminder twice and lose track of one of them
+   */
+  private runExclusive<T>(task: () => Promise<T>): Promise<T> {
+    const result = this.pendingUpdate.then(task);
+    this.pendingUpdate = result.catch(() => undefined);
+    return result;
+  }
+
+  /**
+   * Open the trip whose reminder was tapped
+   */
+  private handleNotificationResponse(response: Notifications.NotificationResponse): void {
+    const responseId = response.notification.request.identifier;
+    if (responseId === this.lastResponseId) return;
+    this.lastResponseId = responseId;
+
+    const tripId = response.notification.request.content.data?.tripId;
+    const trip = this.trips.find((t) => t.id === tripId);
+    if (trip) {
+      this.emit('tripOpened', trip);
+    }
+  }
+
+  /**
+   * Persist the trips and notify listeners
+   */
+  private async saveTrips(): Promise<void> {
+    try {
+      await AsyncStorage.setItem(STORAGE_KEY, JSON.stringify(this.trips));
+    } catch (error) {
+      console.error('Failed to save scheduled trips:', error);
+    }
+    this.emit('tripsChanged', this.getTrips());
+  }
+
+  /**
+   * Clean up resources
+   */
+  public cleanup(): void {
+    this.responseSubscription?.remove();
+    this.responseSubscription = null;
+    this.removeAllListeners();
+    this.initialized = false;
+  }
+
+  /**
+   * Add typed event listener
+   */
+  public on<E extends keyof ReminderEvents>(
+    event: E,
+    listener: ReminderEvents[E]
+  ): this {
+    return super.on(event, listener);
+  }
+
+  /**
+   * Remove typed event listener
+   */
+  public off<E extends keyof ReminderEvents>(
+    event: E,
+    listener: ReminderEvents[E]
+  ): this {
+    return super.off(event, listener);
+  }
+}
+
+// Create a singleton instance
+const departureReminderManager = new DepartureReminderManager();
+export default departureReminderManager;
@@ -1,9 +1,11 @@
 import * as Location from 'expo-location';
 import { EventEmitter } from 'events';
+import { LocationFix } from '@/hooks/routing/utils/types';
 
 // Define event types
 type LocationEvents = {
   'locationUpdate': (location: [number, number]) => void;
+  'fixUpdate': (fix: LocationFix) => void; // Same update with its time, accuracy, speed and heading
   'locationError': (error: Error) => void;
   'headingUpdate': (heading: number) => void;
 };
@@ -61,6 +63,16 @@ class LocationTracker extends EventEmitter {
           
           this.lastLocation = coords;
           this.emit('locationUpdate', coords);
+
+          // Speed and heading are negative or null when the device cannot tell
+          const { accuracy, speed, heading } = location.coords;
+          this.emit('fixUpdate', {
+            coordinates: coords,
+            speed: speed !== null && speed >= 0 ? speed * 3.6 : null,
+            timestamp: location.timestamp,
+            accuracy,
+            heading: heading !== null && heading >= 0 ? heading : null,
+          });
         }
       );
 
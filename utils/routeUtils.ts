@@ -2,18 +2,55 @@ import * as turf from '@turf/turf';
 import { Route, Step, VoiceInstruction } from '@/types/mapbox';
 import { UserPreferences } from '@/types/api';
 
+export type ExcludePreferenceKey =
+  | 'avoid_tolls'
+  | 'avoid_cash_only_tolls'
+  | 'avoid_highways'
+  | 'avoid_unpaved'
+  | 'avoid_ferries'
+  | 'avoid_country_borders'
+  | 'avoid_tunnels';
+
+/**
+ * Avoidance preferences, in display order, with the exclusion class each one requests
+ */
+export const EXCLUDE_PREFERENCES: {
+  id: ExcludePreferenceKey;
+  exclude: string;
+  label: string;
+  hint?: string;
+}[] = [
+  { id: 'avoid_tolls', exclude: 'toll', label: 'Éviter les péages' },
+  {
+    id: 'avoid_cash_only_tolls',
+    exclude: 'cash_only_tolls',
+    label: 'Éviter les péages sans paiement par carte',
+  },
+  { id: 'avoid_highways', exclude: 'motorway', label: 'Éviter les autoroutes' },
+  { id: 'avoid_unpaved', exclude: 'unpaved', label: 'Éviter les routes non goudronnées' },
+  { id: 'avoid_ferries', exclude: 'ferry', label: 'Éviter les ferries' },
+  {
+    id: 'avoid_country_borders',
+    exclude: 'country_border',
+    label: 'Éviter les passages de frontière',
+  },
+  {
+    id: 'avoid_tunnels',
+    exclude: 'tunnel',
+    label: 'Éviter les tunnels',
+    hint: "Selon le service d'itinéraire utilisé",
+  },
+];
+
 /**
  * Convert user preferences to Mapbox route exclude parameters
  */
 export const getExcludesFromPreferences = (preferences?: UserPreferences): string[] => {
   if (!preferences) return [];
-  
-  const excludes: string[] = [];
-  if (preferences.avoid_tolls) excludes.push('toll');
-  if (preferences.avoid_highways) excludes.push('motorway');
-  if (preferences.avoid_unpaved) excludes.push('unpaved');
-  
-  return excludes;
+
+  return EXCLUDE_PREFERENCES.filter(({ id }) => preferences[id]).map(
+    ({ exclude }) => exclude
+  );
 };
 
 /**
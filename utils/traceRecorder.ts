@@ -0,0 +1,267 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { EventEmitter } from 'events';
+import { Route } from '@/types/mapbox';
+import {
+  FilteredLocationFix,
+  LocationFix,
+  NavigationTrace,
+  TraceEstimate,
+} from '@/hooks/routing/utils/types';
+import { NavigationSession } from '@/hooks/routing/utils/navigationSession';
+import {
+  captureSessionEvents,
+  compactTraceRoute,
+} from '@/hooks/routing/utils/navigationTrace';
+
+// Each trace has its own entry, Android limits the size of a single one
+const TRACE_IDS_STORAGE_KEY = 'navigationTraceIds';
+const TRACE_STORAGE_KEY_PREFIX = 'navigationTrace:';
+// Every trace in one entry, as saved by earlier versions
+const LEGACY_STORAGE_KEY = 'navigationTraces';
+const ENABLED_STORAGE_KEY = 'navigationTraceRecording';
+
+// Older traces are dropped, each one holds every fix and route of a trip
+const MAX_STORED_TRACES = 5;
+
+const getTraceStorageKey = (id: string): string =>
+  `${TRACE_STORAGE_KEY_PREFIX}${id}`;
+
+type TraceRecorderEvents = {
+  'tracesChanged': (traces: NavigationTrace[]) => void;
+  'enabledChanged': (enabled: boolean) => void;
+};
+
+/**
+ * Class to record trips for navigation debugging: the fixes from locationTracker
+ * given to the navigation session, the routes it followed and the events it emitted.
+ * Traces are kept on the device and can be replayed with replayTrace.
+ */
+class TraceRecorder extends EventEmitter {
+  private initialized: boolean = false;
+  private enabled: boolean = false;
+  private traces: NavigationTrace[] = [];
+  private currentTrace: NavigationTrace | null = null;
+  private stopCapture: (() => void) | null = null;
+
+  /**
+   * Load the saved traces and whether recording is enabled
+   */
+  public async initialize(): Promise<void> {
+    if (this.initialized) return;
+    this.initialized = true;
+
+    try {
+      const [storedIds, storedEnabled, legacyTraces] = await Promise.all([
+        AsyncStorage.getItem(TRACE_IDS_STORAGE_KEY),
+        AsyncStorage.getItem(ENABLED_STORAGE_KEY),
+        AsyncStorage.getItem(LEGACY_STORAGE_KEY),
+      ]);
+      const ids: string[] = storedIds ? JSON.parse(storedIds) : [];
+      const storedTraces = await AsyncStorage.multiGet(
+        ids.map(getTraceStorageKey)
+      );
+      this.traces = storedTraces.flatMap(([, value]) =>
+        value ? [JSON.parse(value)] : []
+      );
+      this.enabled = storedEnabled === 'true';
+
+      if (legacyTraces) {
+        const movedTraces = (JSON.parse(legacyTraces) as NavigationTrace[]).map(
+          (trace) => ({
+            ...trace,
+            routes: trace.routes.map(({ route, fixIndex }) => ({
+              route: compactTraceRoute(route),
+              fixIndex,
+            })),
+          })
+        );
+        await this.saveTraces(
+          [...this.traces, ...movedTraces].sort(
+            (a, b) => b.startedAt - a.startedAt
+          ),
+          movedTraces
+        );
+        await AsyncStorage.removeItem(LEGACY_STORAGE_KEY);
+      }
+    } catch (error) {
+      console.error('Failed to load navigation traces:', error);
+      this.traces = [];
+    }
+    this.emit('tracesChanged', this.getTraces());
+    this.emit('enabledChanged', this.enabled);
+  }
+
+  /**
+   * Turn recording of the next trips on or off
+   */
+  public async setEnabled(enabled: boolean): Promise<void> {
+    this.enabled = enabled;
+    this.emit('enabledChanged', enabled);
+    try {
+      await AsyncStorage.setItem(ENABLED_STORAGE_KEY, String(enabled));
+    } catch (error) {
+      console.error('Failed to save trace recording setting:', error);
+    }
+  }
+
+  public isEnabled(): boolean {
+    return this.enabled;
+  }
+
+  public isRecording(): boolean {
+    return this.currentTrace !== null;
+  }
+
+  /**
+   * Start recording a trip, when enabled. Must be called before the session starts
+   * so the initial route and instruction are captured.
+   */
+  public start(session: NavigationSession): void {
+    if (!this.enabled) return;
+    this.stopCapture?.();
+
+    const estimates: TraceEstimate[] = [];
+    const trace: NavigationTrace = {
+      id: `${Date.now()}`,
+      startedAt: Date.now(),
+      endedAt: null,
+      profile: session.getProfile(),
+      fixes: [],
+      routes: [],
+      estimates,
+      events: [],
+    };
+    // Events carry the time of the last fix, as when the trace is replayed
+    const getTimestamp = () =>
+      trace.fixes.length > 0
+        ? trace.fixes[trace.fixes.length - 1].timestamp
+        : trace.startedAt;
+
+    const stopEvents = captureSessionEvents(
+      session,
+      (event) => trace.events.push(event),
+      getTimestamp
+    );
+    const handleRouteChanged = (route: Route) => {
+      trace.routes.push({
+        route: compactTraceRoute(route),
+        fixIndex: trace.fixes.length,
+      });
+    };
+    session.on('routeChanged', handleRouteChanged);
+    // Estimates come from a timer, replays need to know when they ran
+    const handleLocation = (fix: FilteredLocationFix) => {
+      if (!fix.estimated) return;
+      estimates.push({
+        timestamp: fix.timestamp,
+        fixIndex: trace.fixes.length,
+      });
+    };
+    session.on('location', handleLocation);
+
+    this.currentTrace = trace;
+    this.stopCapture = () => {
+      stopEvents();
+      session.off('routeChanged', handleRouteChanged);
+      session.off('location', handleLocation);
+    };
+  }
+
+  /**
+   * Add a fix to the trip being recorded, before the session processes it
+   */
+  public recordFix(fix: LocationFix): void {
+    this.currentTrace?.fixes.push(fix);
+  }
+
+  /**
+   * Stop recording and save the trip, trips without any fix are dropped
+   */
+  public async stop(): Promise<void> {
+    const trace = this.currentTrace;
+    if (!trace) return;
+    this.stopCapture?.();
+    this.stopCapture = null;
+    this.currentTrace = null;
+
+    if (trace.fixes.length === 0) return;
+    trace.endedAt = trace.fixes[trace.fixes.length - 1].timestamp;
+    await this.saveTraces([trace, ...this.traces], [trace]);
+  }
+
+  /**
+   * Get the saved traces, most recent first
+   */
+  public getTraces(): NavigationTrace[] {
+    return [...this.traces];
+  }
+
+  /**
+   * Delete a saved trace
+   */
+  public async removeTrace(id: string): Promise<void> {
+    await this.saveTraces(this.traces.filter((trace) => trace.id !== id));
+  }
+
+  /**
+   * Keep the most recent traces, store the new ones and delete the others
+   * @param traces Traces to keep, most recent first
+   * @param addedTraces Traces among them that are not stored yet
+   */
+  private async saveTraces(
+    traces: NavigationTrace[],
+    addedTraces: NavigationTrace[] = []
+  ): Promise<void> {
+    const previousIds = this.traces.map((trace) => trace.id);
+    this.traces = traces.slice(0, MAX_STORED_TRACES);
+    const keptIds = this.traces.map((trace) => trace.id);
+    const storedTraces = addedTraces.filter((trace) =>
+      keptIds.includes(trace.id)
+    );
+    const removedIds = previousIds.filter((id) => !keptIds.includes(id));
+    try {
+      if (storedTraces.length > 0) {
+        await AsyncStorage.multiSet(
+          storedTraces.map((trace) => [
+            getTraceStorageKey(trace.id),
+            JSON.stringify(trace),
+          ])
+        );
+      }
+      if (removedIds.length > 0) {
+        await AsyncStorage.multiRemove(removedIds.map(getTraceStorageKey));
+      }
+      await AsyncStorage.setItem(
+        TRACE_IDS_STORAGE_KEY,
+        JSON.stringify(keptIds)
+      );
+    } catch (error) {
+      console.error('Failed to save navigation traces:', error);
+    }
+    this.emit('tracesChanged', this.getTraces());
+  }
+
+  /**
+   * Add typed event listener
+   */
+  public on<E extends keyof TraceRecorderEvents>(
+    event: E,
+    listener: TraceRecorderEvents[E]
+  ): this {
+    return super.on(event, listener);
+  }
+
+  /**
+   * Remove typed event listener
+   */
+  public off<E extends keyof TraceRecorderEvents>(
+    event: E,
+    listener: TraceRecorderEvents[E]
+  ): this {
+    return super.off(event, listener);
+  }
+}
+
+// Create a singleton instance
+const traceRecorder = new TraceRecorder();
+export default traceRecorder;